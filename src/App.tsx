@@ -2,17 +2,32 @@ import { useState, useEffect } from "react";
 import MatrixInput from "./components/MatrixInput";
 import GraphAnimate from "./components/GraphAnimate";
 import TransformationLegend from "./components/VisualizationLegend";
+import {
+	DEFAULT_LAYERS,
+	DEFAULT_SCENE_STYLE,
+	sceneColors,
+	type SceneLayers,
+	type SceneStyle,
+} from "./components/util/sceneStyle";
 import EigenspaceInfo from "./components/EigenspaceInfo";
 import Navbar from "./components/Navbar";
 import About from "./components/About";
 import Tour from "./components/Tour";
 import "./App.css";
 import { type Eigenspace } from "./lib/math";
+import { type ParameterValues } from "./lib/symbolic";
 import EigenvalueSolution from "./components/EigenvalueSolution";
+import ErrorBoundary from "./components/ErrorBoundary";
 
 function App() {
 	const [matrix, setMatrix] = useState<number[][]>([]);
+	const [entries, setEntries] = useState<string[][]>([]);
+	const [exactMode, setExactMode] = useState<boolean>(false);
+	const [parameters, setParameters] = useState<ParameterValues>({});
 	const [basisVectors, setBasisVectors] = useState<Eigenspace[]>([]);
+	// Shared by the scene and the legend, where they are changed
+	const [sceneLayers, setSceneLayers] = useState<SceneLayers>(DEFAULT_LAYERS);
+	const [sceneStyle, setSceneStyle] = useState<SceneStyle>(DEFAULT_SCENE_STYLE);
 	const [activeSection, setActiveSection] = useState<"calculator" | "about">(
 		"calculator"
 	);
@@ -22,8 +37,14 @@ function App() {
 	const [tourButtonOpacity, setTourButtonOpacity] = useState<number>(1);
 
 
-	const handleMatrixChange = (newMatrix: number[][]) => {
+	const handleMatrixChange = (
+		newMatrix: number[][],
+		newEntries: string[][],
+		newParameters: ParameterValues
+	) => {
 		setMatrix(newMatrix);
+		setEntries(newEntries);
+		setParameters(newParameters);
 		console.log("Matrix updated:", newMatrix);
 	};
 
@@ -146,45 +167,73 @@ function App() {
 						<MatrixInput
 							onMatrixChange={handleMatrixChange}
 							onEigenspacesChange={handleEigenspacesChange}
+							onExactModeChange={setExactMode}
 						/>
 
-						<EigenvalueSolution
-							matrix={matrix}
-							onEigenspacesCalculated={handleEigenspacesChange}
-						/>
+						<ErrorBoundary
+							panel="step-by-step solution"
+							resetKeys={[matrix, exactMode, parameters]}
+						>
+							<EigenvalueSolution
+								matrix={matrix}
+								entries={entries}
+								exact={exactMode}
+								parameters={parameters}
+								onEigenspacesCalculated={handleEigenspacesChange}
+							/>
+						</ErrorBoundary>
 					</div>
 
 					<div className="visualization-container">
-						<EigenspaceInfo eigenspaces={basisVectors} />
-						{[2, 3].includes(matrix.length) && basisVectors.length > 0 && (
-							<div id="visualization-section" className="visualization-section">
-								<h2>
-									{textLabel[matrix.length].dimension} Matrix Transformation
-									Visualization
-								</h2>
-								<p>
-									This visualization shows how your {matrix.length}×
-									{matrix[0]?.length || 0} matrix transforms the coordinate
-									space in {textLabel[matrix.length].dimension_formula}. The
-									thin lines represent the original basis vectors (
-									{textLabel[matrix.length].basis_vector}), and the thick lines
-									show where they go after transformation (A
-									{textLabel[matrix.length].basis_vector}). Eigenspaces are
-									visualized as colored lines (1D) or planes (2D) with their
-									corresponding eigenvalue labels.
-								</p>
-								<GraphAnimate
-									transformationMatrix={matrix}
-									eigenspaces={basisVectors}
-								/>
-								<div id="visualization-legend">
-									<TransformationLegend
+						<ErrorBoundary
+							panel="visualization"
+							resetKeys={[matrix, basisVectors]}
+						>
+							<EigenspaceInfo
+								eigenspaces={basisVectors}
+								colors={sceneColors(sceneStyle).eigenspaces}
+							/>
+							{[2, 3].includes(matrix.length) && basisVectors.length > 0 && (
+								<div id="visualization-section" className="visualization-section">
+									<h2>
+										{textLabel[matrix.length].dimension} Matrix Transformation
+										Visualization
+									</h2>
+									<p>
+										This visualization shows how your {matrix.length}×
+										{matrix[0]?.length || 0} matrix transforms the coordinate
+										space in {textLabel[matrix.length].dimension_formula}. The
+										thin lines represent the original basis vectors (
+										{textLabel[matrix.length].basis_vector}), and the thick lines
+										show where they go after transformation (A
+										{textLabel[matrix.length].basis_vector}). Eigenspaces are
+										visualized as colored lines (1D) or planes (2D) with their
+										corresponding eigenvalue labels, complex eigenvalues as the
+										plane A rotates and scales. Press play or drag the
+										slider to morph from the identity to A: eigenvectors stay on
+										their line while every other vector turns off its span. Move
+										the test vector v until Av lines up with it to find an
+										eigenvector by hand.
+									</p>
+									<GraphAnimate
 										transformationMatrix={matrix}
 										eigenspaces={basisVectors}
+										layers={sceneLayers}
+										sceneStyle={sceneStyle}
 									/>
+									<div id="visualization-legend">
+										<TransformationLegend
+											transformationMatrix={matrix}
+											eigenspaces={basisVectors}
+											layers={sceneLayers}
+											onLayersChange={setSceneLayers}
+											sceneStyle={sceneStyle}
+											onSceneStyleChange={setSceneStyle}
+										/>
+									</div>
 								</div>
-							</div>
-						)}
+							)}
+						</ErrorBoundary>
 					</div>
 
 					{matrix.length > 0 && ![2, 3].includes(matrix.length) && (
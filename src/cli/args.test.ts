@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PRECISION, parseCliArgs } from "./args";
+import { REPORT_STEPS } from "./report";
+
+describe("parseCliArgs", () => {
+	it("defaults to a full plain text report", () => {
+		const options = parseCliArgs(["[[2,1],[1,2]]"]);
+		expect(options.matrices).toEqual(["[[2,1],[1,2]]"]);
+		expect(options.files).toEqual([]);
+		expect(options.format).toBe("text");
+		expect(options.precision).toBe(DEFAULT_PRECISION);
+		expect(options.steps).toEqual([...REPORT_STEPS]);
+	});
+
+	it("reads repeated files, parameters and a step list in report order", () => {
+		const options = parseCliArgs([
+			"-f",
+			"a.json",
+			"--file",
+			"b.csv",
+			"--param",
+			"a=2.5",
+			"--param",
+			"t=-1",
+			"-s",
+			"summary,eigenvalues",
+			"-o",
+			"latex",
+			"-p",
+			"2",
+			"-x",
+		]);
+		expect(options.files).toEqual(["a.json", "b.csv"]);
+		expect(options.parameters).toEqual({ a: 2.5, t: -1 });
+		expect(options.steps).toEqual(["eigenvalues", "summary"]);
+		expect(options.format).toBe("latex");
+		expect(options.precision).toBe(2);
+		expect(options.exact).toBe(true);
+	});
+
+	it("rejects unknown formats, steps, precisions and parameters", () => {
+		expect(() => parseCliArgs(["-o", "xml"])).toThrow("Unknown format");
+		expect(() => parseCliArgs(["-s", "eigenvalues,proof"])).toThrow('Unknown step "proof"');
+		expect(() => parseCliArgs(["-p", "1.5"])).toThrow("Precision");
+		expect(() => parseCliArgs(["--param", "a"])).toThrow("name=value");
+	});
+});
@@ -0,0 +1,115 @@
+import { parseArgs } from "node:util";
+import type { ParameterValues } from "../lib/symbolic";
+import {
+	REPORT_FORMATS,
+	REPORT_STEPS,
+	type ReportFormat,
+	type ReportOptions,
+	type ReportStep,
+} from "./report";
+
+/* ━━━━━━━━━━━━━━━━ Command Line Arguments ━━━━━━━━━━━━━━━━ */
+
+export interface CliOptions extends ReportOptions {
+	// Matrices given inline, e.g. "[[2,1],[1,2]]"
+	matrices: string[];
+	// Files to read matrices from, "-" is stdin
+	files: string[];
+	exact: boolean;
+	// Values for the parameters in symbolic entries, the rest default to 1
+	parameters: ParameterValues;
+	verbose: boolean;
+	help: boolean;
+}
+
+export const DEFAULT_PRECISION = 4;
+
+export const USAGE = `Usage: eigen-stuff [options] [matrix...]
+
+Prints the eigenvalues, eigenspaces, diagonalization and Jordan form of each
+matrix. Matrices are given inline, with --file, or on stdin when neither is
+given, as JSON, CSV/TSV, MATLAB, NumPy or LaTeX (e.g. "[[2,1],[1,2]]" or
+"2,1\\n1,2"). Put "--" before inline matrices that start with a minus sign.
+
+Options:
+  -f, --file <path>        read a matrix from a file, "-" for stdin (repeatable)
+  -o, --format <format>    ${REPORT_FORMATS.join(", ")} (default: text)
+  -p, --precision <n>      digits after the decimal point (default: ${DEFAULT_PRECISION})
+  -s, --steps <list>       comma-separated steps to include (default: all)
+                           ${REPORT_STEPS.join(", ")}
+  -x, --exact              exact rational arithmetic for fraction entries
+      --param <name=value> value of a parameter in symbolic entries (repeatable)
+  -v, --verbose            log the solver's intermediate steps to stderr
+  -h, --help               show this message
+`;
+
+function parseSteps(list: string): ReportStep[] {
+	const names = list
+		.split(",")
+		.map((name) => name.trim())
+		.filter(Boolean);
+	for (const name of names) {
+		if (!(REPORT_STEPS as readonly string[]).includes(name)) {
+			throw new Error(`Unknown step "${name}", expected ${REPORT_STEPS.join(", ")}`);
+		}
+	}
+	// Printed in the report's order, whatever order they were given in
+	return REPORT_STEPS.filter((step) => names.includes(step));
+}
+
+function parseParameter(assignment: string, parameters: ParameterValues) {
+	const match = /^\s*([A-Za-z_]\w*)\s*=\s*(.+)$/.exec(assignment);
+	const value = match ? Number(match[2]) : NaN;
+	if (!match || !Number.isFinite(value)) {
+		throw new Error(`Invalid parameter "${assignment}", expected name=value`);
+	}
+	parameters[match[1]] = value;
+}
+
+/**
+ * Parse the arguments after "node eigen.js"
+ * Throws with a message meant for the user when they don't make sense
+ */
+export function parseCliArgs(args: string[]): CliOptions {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			file: { type: "string", short: "f", multiple: true },
+			format: { type: "string", short: "o", default: "text" },
+			precision: { type: "string", short: "p", default: String(DEFAULT_PRECISION) },
+			steps: { type: "string", short: "s" },
+			exact: { type: "boolean", short: "x", default: false },
+			param: { type: "string", multiple: true },
+			verbose: { type: "boolean", short: "v", default: false },
+			help: { type: "boolean", short: "h", default: false },
+		},
+	});
+
+	const format = values.format as ReportFormat;
+	if (!REPORT_FORMATS.includes(format)) {
+		throw new Error(`Unknown format "${format}", expected ${REPORT_FORMATS.join(", ")}`);
+	}
+
+	const precision = Number(values.precision);
+	if (!Number.isInteger(precision) || precision < 0 || precision > 15) {
+		throw new Error(`Precision must be a whole number from 0 to 15, got "${values.precision}"`);
+	}
+
+	const parameters: ParameterValues = {};
+	for (const assignment of values.param ?? []) {
+		parseParameter(assignment, parameters);
+	}
+
+	return {
+		matrices: positionals,
+		files: values.file ?? [],
+		format,
+		precision,
+		steps: values.steps === undefined ? [...REPORT_STEPS] : parseSteps(values.steps),
+		exact: values.exact,
+		parameters,
+		verbose: values.verbose,
+		help: values.help,
+	};
+}
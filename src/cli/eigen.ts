@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import { findEigenvalues } from "../lib/eigenStuffFinder";
+import { InvalidInputError } from "../lib/errors";
+import { setLogger } from "../lib/logger";
+import { parseMatrixText } from "../lib/matrixFormats";
+import {
+	DEFAULT_PARAMETER_VALUE,
+	evaluateEntry,
+	findParameters,
+	type ParameterValues,
+} from "../lib/symbolic";
+import { parseCliArgs, USAGE, type CliOptions } from "./args";
+import { formatReports, type MatrixReport } from "./report";
+
+/* ━━━━━━━━━━━━━━━━ Eigen CLI ━━━━━━━━━━━━━━━━ */
+// Headless entry point: read matrices, run findEigenvalues, print the reports.
+// Built with `npm run build:cli`, run with `node dist-cli/eigen.js`
+
+type MatrixInput = { source: string; read: () => string };
+
+/**
+ * Run the engine the same way the web app does: parameters are substituted
+ * for the numeric steps and kept in the symbolic ones
+ */
+function solve(source: string, text: string, options: CliOptions): MatrixReport {
+	const { entries } = parseMatrixText(text);
+
+	const names = findParameters(entries);
+	const parameters: ParameterValues = Object.fromEntries(
+		names.map((name) => [name, options.parameters[name] ?? DEFAULT_PARAMETER_VALUE])
+	);
+	const matrix = entries.map((row) =>
+		row.map((cell) => {
+			const value = evaluateEntry(cell, parameters);
+			if (isNaN(value)) throw new InvalidInputError(`Invalid entry "${cell}"`);
+			return value;
+		})
+	);
+
+	const result = findEigenvalues(matrix, {
+		exact: options.exact,
+		entries,
+		...(names.length > 0 && { parameters }),
+	});
+	return { source, entries, result };
+}
+
+function main(args: string[]): number {
+	let options: CliOptions;
+	try {
+		options = parseCliArgs(args);
+	} catch (error) {
+		process.stderr.write(`eigen-stuff: ${(error as Error).message}\n\n${USAGE}`);
+		return 2;
+	}
+	if (options.help) {
+		process.stdout.write(USAGE);
+		return 0;
+	}
+	// stdout only gets the report, the solver's logs go to stderr
+	if (options.verbose) {
+		const write = (...data: unknown[]) => console.error(...data);
+		setLogger({ debug: write, warn: write, error: write });
+	}
+
+	const inputs: MatrixInput[] = [
+		...options.matrices.map((text, index) => ({
+			source: `argument ${index + 1}`,
+			read: () => text,
+		})),
+		...options.files.map((file) => ({
+			source: file === "-" ? "stdin" : file,
+			read: () => readFileSync(file === "-" ? 0 : file, "utf8"),
+		})),
+	];
+	if (inputs.length === 0) {
+		inputs.push({ source: "stdin", read: () => readFileSync(0, "utf8") });
+	}
+
+	// A bad matrix is reported and skipped so the rest of a batch still comes out
+	const reports: MatrixReport[] = [];
+	let failed = false;
+	for (const input of inputs) {
+		try {
+			reports.push(solve(input.source, input.read(), options));
+		} catch (error) {
+			process.stderr.write(`eigen-stuff: ${input.source}: ${(error as Error).message}\n`);
+			failed = true;
+		}
+	}
+
+	if (reports.length > 0) {
+		process.stdout.write(`${formatReports(reports, options)}\n`);
+	}
+	return failed ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { findEigenvalues } from "../lib/eigenStuffFinder";
+import { formatReports, REPORT_STEPS, type MatrixReport } from "./report";
+
+function report(entries: string[][]): MatrixReport {
+	return {
+		source: "test",
+		entries,
+		result: findEigenvalues(entries.map((row) => row.map(Number))),
+	};
+}
+
+const symmetric = report([
+	["2", "1"],
+	["1", "2"],
+]);
+
+describe("formatReports", () => {
+	it("writes the requested steps as plain text", () => {
+		const text = formatReports([symmetric], {
+			format: "text",
+			precision: 4,
+			steps: ["eigenvalues", "eigenspaces"],
+		});
+		expect(text).toBe(
+			[
+				"Eigenvalues",
+				"  λ = 1",
+				"  λ = 3",
+				"",
+				"Eigenspaces",
+				"  λ = 1: dim 1, span{ (-1, 1) }",
+				"  λ = 3: dim 1, span{ (1, 1) }",
+			].join("\n")
+		);
+	});
+
+	it("rounds numbers in JSON and leaves out steps that weren't asked for", () => {
+		const json = JSON.parse(
+			formatReports([report([["0", "2"], ["1", "0"]])], {
+				format: "json",
+				precision: 3,
+				steps: ["eigenvalues", "eigenspaces"],
+			})
+		);
+		expect(json.eigenvalues.map(({ value }: { value: { re: number } }) => value.re)).toEqual([
+			-1.414, 1.414,
+		]);
+		expect(json).not.toHaveProperty("diagonalization");
+		expect(json.eigenspaces[0]).not.toHaveProperty("derivation");
+	});
+
+	it("gives a JSON array for several matrices", () => {
+		const json = JSON.parse(
+			formatReports([symmetric, symmetric], {
+				format: "json",
+				precision: 4,
+				steps: [...REPORT_STEPS],
+			})
+		);
+		expect(json).toHaveLength(2);
+		expect(json[0].diagonalization.diagonalizable).toBe(true);
+		expect(json[0].eigenspaces[0].derivation.steps.length).toBeGreaterThan(0);
+	});
+
+	it("writes LaTeX displays with the latexFormatter helpers", () => {
+		const latex = formatReports([symmetric], {
+			format: "latex",
+			precision: 2,
+			steps: ["matrix", "eigenvalues"],
+		});
+		expect(latex).toContain("\\[ A = \\begin{bmatrix} 2 & 1 \\\\ 1 & 2 \\end{bmatrix} \\]");
+		expect(latex).toContain("\\sigma(A) = \\{1.00, 3.00\\}");
+	});
+
+	it("keeps exact eigenvalues on the diagonal of D", () => {
+		const entries = [
+			["1/3", "1"],
+			["0", "1/2"],
+		];
+		const exact: MatrixReport = {
+			source: "test",
+			entries,
+			result: findEigenvalues(
+				[
+					[1 / 3, 1],
+					[0, 1 / 2],
+				],
+				{ exact: true, entries }
+			),
+		};
+		const text = formatReports([exact], {
+			format: "text",
+			precision: 4,
+			steps: ["diagonalization"],
+		});
+		expect(text).toContain("1/3");
+		expect(text).not.toContain("0.3333");
+		const latex = formatReports([exact], {
+			format: "latex",
+			precision: 4,
+			steps: ["diagonalization"],
+		});
+		expect(latex).toMatch(/D = \\begin\{bmatrix\} \\frac\{1\}\{3\} & 0/);
+	});
+});
@@ -0,0 +1,530 @@
+import type { EigenResult } from "../lib/eigenStuffFinder";
+import type { Complex, Eigenspace, MatrixWString } from "../lib/math";
+import { formatComplex, isRealValue } from "../lib/complex";
+import { formatMatrix } from "../lib/matrixOperations";
+import { displayDiagonal } from "../lib/diagonalization";
+import {
+	cleanExpressionLatex,
+	formatAugmentedMatrixLatex,
+	formatComplexLatex,
+	formatEigenvaluesLatex,
+	formatExpressionLatex,
+	formatMatrixLatex,
+	formatNumericMatrixLatex,
+	formatRowOperationLatex,
+	formatVectorLatex,
+	formatXIMinusAMatrix,
+} from "../lib/latexFormatter";
+
+/* ━━━━━━━━━━━━━━━━ CLI Reports ━━━━━━━━━━━━━━━━ */
+// Plain text, JSON or LaTeX write-up of an EigenResult, one section per step
+
+export type ReportFormat = "text" | "json" | "latex";
+
+export const REPORT_FORMATS: ReportFormat[] = ["text", "json", "latex"];
+
+// Sections of the report, in the order they are printed
+export const REPORT_STEPS = [
+	"matrix",
+	"polynomial",
+	"eigenvalues",
+	"eigenspaces",
+	// Row reductions behind the eigenspaces and P⁻¹
+	"derivations",
+	"diagonalization",
+	"jordan",
+	"summary",
+] as const;
+
+export type ReportStep = (typeof REPORT_STEPS)[number];
+
+export interface ReportOptions {
+	format: ReportFormat;
+	// Digits after the decimal point, exact values are always printed as fractions
+	precision: number;
+	steps: ReportStep[];
+}
+
+export interface MatrixReport {
+	// Where the matrix came from, e.g. a file name
+	source: string;
+	entries: string[][];
+	result: EigenResult;
+}
+
+function round(value: number, precision: number): number {
+	const rounded = parseFloat(value.toFixed(precision));
+	// Avoid printing "-0"
+	return rounded === 0 ? 0 : rounded;
+}
+
+function roundMatrix(matrix: MatrixWString, precision: number): MatrixWString {
+	return matrix.map((row) =>
+		row.map((value) => (typeof value === "number" ? round(value, precision) : value))
+	);
+}
+
+function indent(text: string, prefix: string = "  "): string {
+	return text
+		.trimEnd()
+		.split("\n")
+		.map((line) => prefix + line)
+		.join("\n");
+}
+
+function isDefective(result: EigenResult): boolean {
+	return result.eigenspaces.some(
+		(eigenspace) =>
+			(eigenspace.complexBasis?.length ?? eigenspace.basis.length) <
+			eigenspace.eigenvalue.multiplicity
+	);
+}
+
+function eigenspaceVectors(eigenspace: Eigenspace, precision: number): string[][] {
+	if (eigenspace.complexBasis) {
+		return eigenspace.complexBasis.map((vector) =>
+			vector.map((z) => formatComplex(z, precision))
+		);
+	}
+	return (
+		eigenspace.exactBasis ??
+		eigenspace.basis.map((vector) =>
+			vector.map((value) => round(value, precision).toString())
+		)
+	);
+}
+
+function eigenvalueText(
+	{ value, exact }: { value: Complex; exact?: string },
+	precision: number
+): string {
+	if (exact) return exact;
+	return isRealValue(value)
+		? round(value.re, precision).toString()
+		: formatComplex(value, precision);
+}
+
+/* ━━━━━━━━━━━━━━━━ Plain Text ━━━━━━━━━━━━━━━━ */
+
+function textReport({ entries, result }: MatrixReport, options: ReportOptions): string {
+	const { precision, steps } = options;
+	const include = (step: ReportStep) => steps.includes(step);
+	const matrix = (value: MatrixWString) =>
+		indent(formatMatrix(roundMatrix(value, precision)), "    ");
+	const sections: string[] = [];
+
+	if (include("matrix")) {
+		sections.push(`A =\n${indent(formatMatrix(entries))}`);
+	}
+
+	if (include("polynomial")) {
+		const symbolic = result.symbolic;
+		const lines = [
+			"Characteristic polynomial",
+			indent(formatXIMinusAMatrix(symbolic?.xIMinusA ?? result.xIMinusA)),
+		];
+		if (result.expansionCollapsed && !symbolic) {
+			lines.push(
+				"  The cofactor expansion is collapsed, the coefficients come from Faddeev–LeVerrier"
+			);
+		}
+		lines.push(
+			`  det(xI - A) = ${cleanExpressionLatex(
+				symbolic?.determinantExpression ?? result.determinantExpression
+			)}`
+		);
+		if (symbolic) {
+			if (symbolic.polynomial) lines.push(`  ${symbolic.polynomial} = 0`);
+			const substitution = Object.entries(symbolic.parameters)
+				.map(([name, value]) => `${name} = ${value}`)
+				.join(", ");
+			lines.push(`  With ${substitution}:`);
+		}
+		lines.push(`  ${result.characteristicPolynomial}`);
+		sections.push(lines.join("\n"));
+	}
+
+	if (include("eigenvalues")) {
+		sections.push(
+			[
+				"Eigenvalues",
+				...result.eigenvalues.map(
+					(eigenvalue) =>
+						`  λ = ${eigenvalueText(eigenvalue, precision)}${
+							eigenvalue.multiplicity > 1
+								? ` (multiplicity ${eigenvalue.multiplicity})`
+								: ""
+						}`
+				),
+			].join("\n")
+		);
+	}
+
+	if (include("eigenspaces")) {
+		const lines = ["Eigenspaces"];
+		for (const eigenspace of result.eigenspaces) {
+			const vectors = eigenspaceVectors(eigenspace, precision);
+			lines.push(
+				`  λ = ${eigenvalueText(eigenspace.eigenvalue, precision)}: dim ${
+					vectors.length
+				}, span{ ${vectors.map((vector) => `(${vector.join(", ")})`).join(", ")} }`
+			);
+
+			const derivation = eigenspace.derivation;
+			if (include("derivations") && derivation) {
+				lines.push(indent(`λI - A =\n${matrix(derivation.start)}`, "    "));
+				for (const step of derivation.steps) {
+					lines.push(indent(`${step.operation}\n${matrix(step.matrix)}`, "    "));
+				}
+			}
+		}
+		sections.push(lines.join("\n"));
+	}
+
+	if (include("diagonalization")) {
+		const diagonalization = result.diagonalization;
+		if (!diagonalization.diagonalizable) {
+			sections.push(
+				`Diagonalization\n  A is not diagonalizable. ${diagonalization.reason}`
+			);
+		} else {
+			const lines = [
+				"Diagonalization A = PDP⁻¹",
+				`  P =\n${matrix(diagonalization.P)}`,
+				`  D =\n${matrix(displayDiagonal(diagonalization.D, result.eigenspaces))}`,
+			];
+			if (include("derivations")) {
+				lines.push(`  [P | I] =\n${matrix(diagonalization.start)}`);
+				for (const step of diagonalization.reduction) {
+					lines.push(`  ${step.operation}\n${matrix(step.matrix)}`);
+				}
+			}
+			lines.push(`  P⁻¹ =\n${matrix(diagonalization.PInverse)}`);
+			sections.push(lines.join("\n"));
+		}
+	}
+
+	if (include("jordan") && isDefective(result)) {
+		const jordan = result.jordanForm;
+		if (!jordan) {
+			sections.push(
+				"Jordan form\n  Only built for matrices whose eigenvalues are all real."
+			);
+		} else {
+			sections.push(
+				[
+					"Jordan form A = PJP⁻¹",
+					...jordan.chains
+						.filter((chain) => chain.vectors.length > 1)
+						.map(
+							(chain) =>
+								`  Chain for λ = ${eigenvalueText(chain.eigenvalue, precision)}: ${chain.vectors
+									.map(
+										(vector) =>
+											`(${vector.map((value) => round(value, precision)).join(", ")})`
+									)
+									.join(" → ")}`
+						),
+					`  J =\n${matrix(jordan.J)}`,
+					`  P =\n${matrix(jordan.P)}`,
+					`  P⁻¹ =\n${matrix(jordan.PInverse)}`,
+				].join("\n")
+			);
+		}
+	}
+
+	if (include("summary")) {
+		const lines = [
+			"Summary",
+			`  Trace: ${round(result.trace, precision)}`,
+			`  All eigenvalues are real: ${result.isReal}`,
+			`  Method: ${
+				result.diagnostics.method === "roots"
+					? "roots of the characteristic polynomial"
+					: "shifted QR algorithm"
+			}`,
+		];
+		if (result.exact) lines.push("  Computed with exact rational arithmetic");
+		if (result.qrStatus) {
+			lines.push(
+				`  Shifted QR: ${result.qrStatus.iterations} iterations, ${
+					result.qrStatus.converged ? "converged" : "did not converge"
+				}`
+			);
+		}
+		for (const warning of result.diagnostics.warnings) {
+			lines.push(`  Warning: ${warning}`);
+		}
+		sections.push(lines.join("\n"));
+	}
+
+	return sections.join("\n\n");
+}
+
+/* ━━━━━━━━━━━━━━━━ LaTeX ━━━━━━━━━━━━━━━━ */
+// A fragment meant to be \input into a document (amsmath), one display per line
+
+function latexReport({ entries, result }: MatrixReport, options: ReportOptions): string {
+	const { precision, steps } = options;
+	const include = (step: ReportStep) => steps.includes(step);
+	const display = (latex: string) => `\\[ ${latex} \\]`;
+	const matrix = (value: MatrixWString) => formatNumericMatrixLatex(value, precision);
+	const sections: string[] = [];
+
+	if (include("matrix")) {
+		sections.push(display(`A = ${formatMatrixLatex(entries)}`));
+	}
+
+	if (include("polynomial")) {
+		const symbolic = result.symbolic;
+		const lines = [
+			"% Characteristic polynomial",
+			display(`xI - A = ${formatMatrixLatex(symbolic?.xIMinusA ?? result.xIMinusA)}`),
+			display(
+				`\\det(xI - A) = ${formatExpressionLatex(
+					symbolic?.determinantExpression ?? result.determinantExpression
+				)}`
+			),
+		];
+		if (symbolic) {
+			if (symbolic.polynomial) {
+				lines.push(display(`${formatExpressionLatex(symbolic.polynomial)} = 0`));
+			}
+			const substitution = Object.entries(symbolic.parameters)
+				.map(([name, value]) => `${formatExpressionLatex(name)} = ${value}`)
+				.join(",\\ ");
+			lines.push(`With $${substitution}$:`);
+		}
+		lines.push(display(formatExpressionLatex(result.characteristicPolynomial)));
+		sections.push(lines.join("\n"));
+	}
+
+	if (include("eigenvalues")) {
+		sections.push(
+			`% Eigenvalues\n${display(formatEigenvaluesLatex(result.eigenvalues, precision))}`
+		);
+	}
+
+	if (include("eigenspaces")) {
+		const lines = ["% Eigenspaces"];
+		for (const eigenspace of result.eigenspaces) {
+			const { exact, value } = eigenspace.eigenvalue;
+			const lambda = exact ? formatExpressionLatex(exact) : formatComplexLatex(value, precision);
+			const vectors = eigenspace.complexBasis
+				? eigenspace.complexBasis.map((vector) =>
+						formatMatrixLatex(vector.map((z) => [formatComplexLatex(z, precision)]))
+				  )
+				: (eigenspace.exactBasis ?? eigenspace.basis).map((vector) =>
+						formatVectorLatex(vector, precision)
+				  );
+			lines.push(
+				display(
+					`\\lambda = ${lambda}:\\quad E_\\lambda = \\operatorname{span}\\left\\{ ${vectors.join(
+						", "
+					)} \\right\\}`
+				)
+			);
+
+			const derivation = eigenspace.derivation;
+			if (include("derivations") && derivation) {
+				lines.push(display(`${lambda}I - A = ${matrix(derivation.start)}`));
+				for (const step of derivation.steps) {
+					lines.push(
+						display(
+							`\\xrightarrow{${formatRowOperationLatex(step.operation)}} ${matrix(
+								step.matrix
+							)}`
+						)
+					);
+				}
+			}
+		}
+		sections.push(lines.join("\n"));
+	}
+
+	if (include("diagonalization")) {
+		const diagonalization = result.diagonalization;
+		if (!diagonalization.diagonalizable) {
+			sections.push(
+				`% Diagonalization\n$A$ is not diagonalizable. ${diagonalization.reason}`
+			);
+		} else {
+			const n = diagonalization.P.length;
+			const lines = [
+				"% Diagonalization",
+				display(
+					`P = ${matrix(diagonalization.P)},\\quad D = ${matrix(
+						displayDiagonal(diagonalization.D, result.eigenspaces)
+					)}`
+				),
+			];
+			if (include("derivations")) {
+				lines.push(
+					display(formatAugmentedMatrixLatex(diagonalization.start, n, precision))
+				);
+				for (const step of diagonalization.reduction) {
+					lines.push(
+						display(
+							`\\xrightarrow{${formatRowOperationLatex(
+								step.operation
+							)}} ${formatAugmentedMatrixLatex(step.matrix, n, precision)}`
+						)
+					);
+				}
+			}
+			lines.push(display(`P^{-1} = ${matrix(diagonalization.PInverse)}`));
+			sections.push(lines.join("\n"));
+		}
+	}
+
+	if (include("jordan") && isDefective(result)) {
+		const jordan = result.jordanForm;
+		if (!jordan) {
+			sections.push(
+				"% Jordan form\nThe Jordan form is only built for matrices whose eigenvalues are all real."
+			);
+		} else {
+			sections.push(
+				[
+					"% Jordan form",
+					...jordan.chains
+						.filter((chain) => chain.vectors.length > 1)
+						.map((chain) =>
+							display(
+								`\\lambda = ${formatComplexLatex(
+									chain.eigenvalue.value,
+									precision
+								)}:\\quad ${chain.vectors
+									.map(
+										(vector, j) =>
+											`v_{${j + 1}} = ${formatVectorLatex(vector, precision)}`
+									)
+									.join(",\\ ")}`
+							)
+						),
+					display(
+						`J = ${matrix(jordan.J)},\\quad P = ${matrix(
+							jordan.P
+						)},\\quad P^{-1} = ${matrix(jordan.PInverse)}`
+					),
+				].join("\n")
+			);
+		}
+	}
+
+	if (include("summary")) {
+		sections.push(
+			`% Summary\n${display(
+				`\\operatorname{tr}(A) = ${round(result.trace, precision)}`
+			)}`
+		);
+	}
+
+	return sections.join("\n\n");
+}
+
+/* ━━━━━━━━━━━━━━━━ JSON ━━━━━━━━━━━━━━━━ */
+
+/**
+ * Round every number to the precision, except residuals which are tiny on purpose
+ */
+function roundNumbers(value: unknown, precision: number): unknown {
+	if (typeof value === "number") return round(value, precision);
+	if (Array.isArray(value)) return value.map((item) => roundNumbers(item, precision));
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				key,
+				key === "residual" ? item : roundNumbers(item, precision),
+			])
+		);
+	}
+	return value;
+}
+
+function jsonReport({ source, entries, result }: MatrixReport, options: ReportOptions) {
+	const { steps, precision } = options;
+	const include = (step: ReportStep) => steps.includes(step);
+	const diagonalization = result.diagonalization;
+
+	const report = {
+		source,
+		...(include("matrix") && { matrix: entries }),
+		...(include("polynomial") && {
+			xIMinusA: result.xIMinusA,
+			determinantExpression: cleanExpressionLatex(result.determinantExpression),
+			characteristicPolynomial: result.characteristicPolynomial,
+			expansionCollapsed: result.expansionCollapsed,
+			...(result.symbolic && {
+				symbolic: {
+					...result.symbolic,
+					determinantExpression: cleanExpressionLatex(
+						result.symbolic.determinantExpression
+					),
+				},
+			}),
+		}),
+		...(include("eigenvalues") && {
+			eigenvalues: result.eigenvalues,
+			isReal: result.isReal,
+		}),
+		...(include("eigenspaces") && {
+			eigenspaces: result.eigenspaces.map(({ derivation, ...eigenspace }) =>
+				include("derivations") && derivation ? { ...eigenspace, derivation } : eigenspace
+			),
+		}),
+		...(include("diagonalization") && {
+			diagonalization:
+				diagonalization.diagonalizable && !include("derivations")
+					? {
+							diagonalizable: true,
+							P: diagonalization.P,
+							D: diagonalization.D,
+							PInverse: diagonalization.PInverse,
+							residual: diagonalization.residual,
+					  }
+					: diagonalization,
+		}),
+		...(include("jordan") && { jordanForm: result.jordanForm }),
+		...(include("summary") && {
+			trace: result.trace,
+			exact: result.exact,
+			...(result.qrStatus && { qrStatus: result.qrStatus }),
+		}),
+	};
+
+	// The diagnostics are about tiny determinants and residuals, they stay as they are
+	return {
+		...(roundNumbers(report, precision) as typeof report),
+		...(include("summary") && { diagnostics: result.diagnostics }),
+	};
+}
+
+/**
+ * Write the reports in the requested format
+ * Several matrices give a JSON array, or sections headed by their source
+ */
+export function formatReports(reports: MatrixReport[], options: ReportOptions): string {
+	switch (options.format) {
+		case "json": {
+			const json = reports.map((report) => jsonReport(report, options));
+			return JSON.stringify(json.length === 1 ? json[0] : json, null, 2);
+		}
+		case "latex":
+			return reports
+				.map((report) =>
+					reports.length > 1
+						? `% ${report.source}\n${latexReport(report, options)}`
+						: latexReport(report, options)
+				)
+				.join("\n\n");
+		case "text":
+			return reports
+				.map((report) =>
+					reports.length > 1
+						? `=== ${report.source} ===\n\n${textReport(report, options)}`
+						: textReport(report, options)
+				)
+				.join("\n\n");
+	}
+}
@@ -0,0 +1,70 @@
+import React from "react";
+import "./CameraControls.scss";
+import { CAMERA_PRESETS, type CameraPreset, type CameraProjection } from "../lib/cameraViews";
+
+// A real eigenvector the camera can look down
+export type EigenvectorView = {
+	label: string;
+	// Eigenvalue it belongs to, shown as a tooltip
+	eigenvalue: string;
+	color: string;
+};
+
+interface CameraControlsProps {
+	// Presets only make sense for the 3D scene, 2D gets reset and projection
+	is2D: boolean;
+	projection: CameraProjection;
+	onProjectionChange: (projection: CameraProjection) => void;
+	eigenvectors: EigenvectorView[];
+	onReset: () => void;
+	onPreset: (preset: CameraPreset) => void;
+	onLookDown: (index: number) => void;
+}
+
+/**
+ * Preset views, looking down an eigenvector and the projection of the camera
+ */
+const CameraControls: React.FC<CameraControlsProps> = ({
+	is2D,
+	projection,
+	onProjectionChange,
+	eigenvectors,
+	onReset,
+	onPreset,
+	onLookDown,
+}) => (
+	<div className="camera-controls">
+		<button type="button" onClick={onReset}>
+			Reset view
+		</button>
+		{!is2D &&
+			CAMERA_PRESETS.map(({ preset, label }) => (
+				<button key={preset} type="button" onClick={() => onPreset(preset)}>
+					{label}
+				</button>
+			))}
+		{!is2D &&
+			eigenvectors.map(({ label, eigenvalue, color }, index) => (
+				<button
+					key={label}
+					type="button"
+					className="camera-eigenvector"
+					style={{ borderColor: color, color }}
+					title={`Look down ${label} (λ = ${eigenvalue})`}
+					onClick={() => onLookDown(index)}
+				>
+					↓ {label}
+				</button>
+			))}
+		<label>
+			<input
+				type="checkbox"
+				checked={projection === "orthographic"}
+				onChange={(e) => onProjectionChange(e.target.checked ? "orthographic" : "perspective")}
+			/>
+			Orthographic
+		</label>
+	</div>
+);
+
+export default CameraControls;
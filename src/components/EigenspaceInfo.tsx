@@ -1,22 +1,51 @@
 import React from "react";
 import "./EigenspaceInfo.scss";
-import { type Eigenspace } from "../lib/math";
+import { type Complex, type Eigenspace } from "../lib/math";
+import { formatComplex, isRealValue } from "../lib/complex";
+import {
+	formatFractionsLatex,
+	formatNumericMatrixLatex,
+	formatRowOperationLatex,
+	formatVectorLatex,
+} from "../lib/latexFormatter";
 import MathDisplay from "./util/MathDisplay";
 
 interface EigenspaceInfoProps {
 	eigenspaces: Eigenspace[];
+	// Same colors as the eigenspaces in the scene, from the selected palette
+	colors: string[];
 }
 
-const EigenspaceInfo: React.FC<EigenspaceInfoProps> = ({ eigenspaces }) => {
+const EigenspaceInfo: React.FC<EigenspaceInfoProps> = ({ eigenspaces, colors }) => {
 	const formatVector = (vec: number[]) =>
 		`[${vec.map((n) => n.toFixed(5)).join(", ")}]`;
 
-	const formatEigenvalue = (eigenvalue: number) => {
-		return eigenvalue.toFixed(5);
+	const formatExactVector = (vec: string[]) =>
+		formatFractionsLatex(`\\left[${vec.join(", ")}\\right]`);
+
+	const formatComplexVector = (vec: Complex[]) =>
+		`[${vec.map((z) => formatComplex(z, 5)).join(", ")}]`;
+
+	// a - bi is shown together with a + bi, its eigenvectors are just the conjugates
+	const hasConjugate = (eigenspace: Eigenspace) =>
+		!isRealValue(eigenspace.eigenvalue.value) &&
+		eigenspaces.some(
+			(other) =>
+				other.eigenvalue.value.re === eigenspace.eigenvalue.value.re &&
+				other.eigenvalue.value.im === -eigenspace.eigenvalue.value.im
+		);
+
+	const formatEigenvalue = (eigenspace: Eigenspace) => {
+		if (eigenspace.eigenvalue.exact) return eigenspace.eigenvalue.exact;
+		return formatComplex(
+			eigenspace.eigenvalue.value,
+			5,
+			hasConjugate(eigenspace)
+		);
 	};
 
 	const getEigenspaceDimension = (eigenspace: Eigenspace) => {
-		return eigenspace.basis.length;
+		return eigenspace.complexBasis?.length ?? eigenspace.basis.length;
 	};
 
 	const getEigenspaceType = (dimension: number) => {
@@ -32,11 +61,60 @@ const EigenspaceInfo: React.FC<EigenspaceInfoProps> = ({ eigenspaces }) => {
 		}
 	};
 
-	const getEigenspaceColor = (index: number) => {
-		const colors = ["#af00af", "#00afaf", "#afaf00", "#ff8000", "#8000ff"];
-		return colors[index % colors.length];
+	// Row reduction of λI - A followed by the solution in terms of the free variables
+	const renderDerivation = (eigenspace: Eigenspace) => {
+		const derivation = eigenspace.derivation;
+		if (!derivation) return null;
+
+		// Derivations only exist for real eigenvalues
+		const lambda = formatFractionsLatex(
+			eigenspace.eigenvalue.exact ??
+				parseFloat(eigenspace.eigenvalue.value.re.toFixed(4)).toString()
+		);
+		const vectors = eigenspace.exactBasis ?? eigenspace.basis;
+		const freeNames = derivation.freeVariables.map((col) => `x_{${col + 1}}`);
+		const solution =
+			vectors.length === 0
+				? "\\mathbf{x} = \\mathbf{0}"
+				: `\\mathbf{x} = ${vectors
+						.map((vector, i) => `${freeNames[i] ?? ""}${formatVectorLatex(vector)}`)
+						.join(" + ")},\\quad ${freeNames.join(", ")} \\in \\mathbb{R}`;
+
+		return (
+			<details className="eigenspace-derivation">
+				<summary>
+					Row reduction of <MathDisplay latex={`${lambda}I - A`} />
+				</summary>
+				<MathDisplay
+					latex={`${lambda}I - A = ${formatNumericMatrixLatex(derivation.start)}`}
+					block
+				/>
+				{derivation.steps.map((step, stepIndex) => (
+					<MathDisplay
+						key={stepIndex}
+						latex={`\\xrightarrow{${formatRowOperationLatex(
+							step.operation
+						)}} ${formatNumericMatrixLatex(step.matrix)}`}
+						block
+					/>
+				))}
+				<span className="basis-label">
+					{freeNames.length > 0 ? (
+						<>
+							Free variables:{" "}
+							<MathDisplay latex={freeNames.join(", ")} />
+						</>
+					) : (
+						"No free variables"
+					)}
+				</span>
+				<MathDisplay latex={solution} block />
+			</details>
+		);
 	};
 
+	const getEigenspaceColor = (index: number) => colors[index % colors.length];
+
 	return (
 		<div id="eigenspaces-info" className="eigenspace-info">
 			<h3>Eigenspaces Analysis</h3>
@@ -46,6 +124,10 @@ const EigenspaceInfo: React.FC<EigenspaceInfoProps> = ({ eigenspaces }) => {
 			) : (
 				<div className="eigenspace-list">
 					{eigenspaces.map((eigenspace, index) => {
+						if (eigenspace.eigenvalue.value.im < 0 && hasConjugate(eigenspace)) {
+							return null;
+						}
+
 						const dimension = getEigenspaceDimension(eigenspace);
 						const eigenspaceType = getEigenspaceType(dimension);
 						const color = getEigenspaceColor(index);
@@ -59,7 +141,7 @@ const EigenspaceInfo: React.FC<EigenspaceInfoProps> = ({ eigenspaces }) => {
 										style={{ backgroundColor: color }}
 									></div>
 									<span className="eigenvalue-label">
-										λ = {formatEigenvalue(eigenspace.eigenvalue.value)}
+										λ = {formatEigenvalue(eigenspace)}
 									</span>
 									<span className="eigenspace-type">{eigenspaceType}</span>
 									{/* // if dimension < multiplicity, label as "Defective Eigenspace" */}
@@ -75,18 +157,37 @@ const EigenspaceInfo: React.FC<EigenspaceInfoProps> = ({ eigenspaces }) => {
 								<div className="eigenspace-basis">
 									<span className="basis-label">Basis vectors:</span>
 									<div className="basis-vectors">
-										{eigenspace.basis.map((vector, vectorIndex) => (
+										{eigenspace.complexBasis?.map((vector, vectorIndex) => (
+											<div key={vectorIndex} className="basis-vector">
+												{formatComplexVector(vector)}
+											</div>
+										))}
+										{eigenspace.exactBasis?.map((vector, vectorIndex) => (
 											<div key={vectorIndex} className="basis-vector">
-												{formatVector(
-													vector.map((v) =>
-														typeof v === "number"
-															? v
-															: parseFloat(v as string) || 0
-													)
-												)}
+												<MathDisplay latex={formatExactVector(vector)} />
 											</div>
 										))}
+										{!eigenspace.exactBasis &&
+											eigenspace.basis.map((vector, vectorIndex) => (
+												<div key={vectorIndex} className="basis-vector">
+													{formatVector(
+														vector.map((v) =>
+															typeof v === "number"
+																? v
+																: parseFloat(v as string) || 0
+														)
+													)}
+												</div>
+											))}
 									</div>
+									{renderDerivation(eigenspace)}
+									{hasConjugate(eigenspace) && (
+										<span className="eigenspace-type">
+											For <MathDisplay latex="\bar{\lambda}" /> the basis
+											vectors are the complex conjugates{" "}
+											<MathDisplay latex="\bar{v}" />
+										</span>
+									)}
 								</div>
 							</div>
 						);
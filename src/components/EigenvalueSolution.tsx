@@ -1,73 +1,145 @@
-import React, { memo, useMemo, useEffect } from "react";
-import { findEigenvalues } from "../lib/eigenStuffFinder";
-import { type Eigenspace } from "../lib/math";
+import React, { memo, useMemo, useEffect, useState } from "react";
+import {
+	type EigenOptions,
+	type EigenResult,
+	type EigenStage,
+} from "../lib/eigenStuffFinder";
+import { computeEigenResult } from "../lib/worker/client";
+import { type ParameterValues } from "../lib/symbolic";
+import { formatEigenResultText } from "../lib/matrixFormats";
+import { displayDiagonal } from "../lib/diagonalization";
+import ExportMenu from "./ExportMenu";
 import "./EigenvalueSolution.scss";
 import MathDisplay from "./util/MathDisplay";
 import {
 	formatMatrixLatex,
 	formatExpressionLatex,
 	formatEigenvaluesLatex,
+	formatComplexLatex,
+	formatNumericMatrixLatex,
+	formatAugmentedMatrixLatex,
+	formatRowOperationLatex,
+	formatVectorLatex,
 	splitLatexByOperators,
 } from "../lib/latexFormatter";
+import { type Eigenspace } from "../lib/math";
+import { complexAbs, formatComplex } from "../lib/complex";
+import { describeError } from "../lib/errors";
 
 interface EigenvalueSolutionProps {
 	matrix: number[][];
+	// Raw cell strings and exact mode flag, see EigenOptions
+	entries?: string[][];
+	exact?: boolean;
+	// Values substituted into symbolic entries, see EigenOptions
+	parameters?: ParameterValues;
 	onEigenspacesCalculated?: (eigenspaces: Eigenspace[]) => void;
 }
 
+// Outcome of a worker job together with the inputs it was computed for,
+// a state whose inputs differ from the current props is stale
+type SolutionState = {
+	matrix: number[][];
+	options: EigenOptions;
+	result: EigenResult | null;
+	error: Error | null;
+};
+
+type ProgressState = {
+	matrix: number[][];
+	options: EigenOptions;
+	stage: EigenStage;
+};
+
+const STAGE_LABELS: Record<EigenStage, string> = {
+	polynomial: "characteristic polynomial",
+	eigenvalues: "eigenvalues",
+	eigenspaces: "eigenspaces",
+	diagonalization: "diagonalization",
+	jordanForm: "Jordan form",
+};
+
 const EigenvalueSolution: React.FC<EigenvalueSolutionProps> = memo(
-	({ matrix, onEigenspacesCalculated }) => {
-		// Memoize the solution calculation to avoid recalculating on every render
-		const { solution, eigenspaces } = useMemo(() => {
-			if (!matrix || matrix.length === 0) {
-				// You can return null, or a placeholder message.
-				return {
-					solution: null,
-					eigenspaces: [],
-				};
-			}
+	({ matrix, entries, exact = false, parameters, onEigenspacesCalculated }) => {
+		const options = useMemo<EigenOptions>(
+			() => ({ exact, entries, parameters }),
+			[exact, entries, parameters]
+		);
+		const [state, setState] = useState<SolutionState | null>(null);
+		const [progress, setProgress] = useState<ProgressState | null>(null);
 
-			// try {
-				const result = findEigenvalues(matrix);
-
-				return {
-					solution: displayStepByStep(matrix),
-					eigenspaces: result.eigenspaces,
-				};
-			// } catch (error) {
-			// 	return {
-			// 		solution: (
-			// 			<div className="error">
-			// 				Error calculating eigenvalues: {(error as Error).message}
-			// 				{(error as Error).stack}
-			// 			</div>
-			// 		),
-			// 		eigenspaces: [],
-			// 	};
-			// }
-		}, [matrix]);
+		const isValidMatrix =
+			!!matrix && matrix.length > 0 && !!matrix[0] && matrix[0].length > 0;
+
+		// The worker computes the result, typing again cancels the job in flight
+		useEffect(() => {
+			if (!isValidMatrix) return;
+			let active = true;
+			computeEigenResult(matrix, options, (stage) => {
+				if (active) setProgress({ matrix, options, stage });
+			})
+				.then((result) => {
+					if (active && result) setState({ matrix, options, result, error: null });
+				})
+				.catch((error: Error) => {
+					if (active) {
+						setState({ matrix, options, result: null, error });
+					}
+				});
+			return () => {
+				active = false;
+			};
+		}, [matrix, options, isValidMatrix]);
+
+		const computing =
+			!state || state.matrix !== matrix || state.options !== options;
+		const stage =
+			progress && progress.matrix === matrix && progress.options === options
+				? progress.stage
+				: null;
+		// The previous result stays on screen (dimmed) while the next one computes
+		const result = state?.result ?? null;
+		const solution = useMemo(
+			() => (result ? displayStepByStep(result) : null),
+			[result]
+		);
 
 		// Notify parent component about eigenspaces when they change
 		useEffect(() => {
-			if (onEigenspacesCalculated /* && eigenspaces.length > 0 */) {
-				onEigenspacesCalculated(eigenspaces);
+			if (onEigenspacesCalculated) {
+				onEigenspacesCalculated(result?.eigenspaces ?? []);
 			}
-		}, [eigenspaces, onEigenspacesCalculated]);
+		}, [result, onEigenspacesCalculated]);
 
 		// Don't render anything for invalid matrices
-		if (
-			!matrix ||
-			matrix.length === 0 ||
-			!matrix[0] ||
-			matrix[0].length === 0
-		) {
+		if (!isValidMatrix) {
 			return null;
 		}
 
 		return (
-			<div id="eigenvalue-solution" className="eigenvalue-solution">
+			<div
+				id="eigenvalue-solution"
+				className={`eigenvalue-solution ${computing ? "computing" : ""}`}
+			>
 				<h3>Eigenvalue Calculation Steps</h3>
+				{computing && (
+					<p className="computing-status" role="status">
+						Computing{stage ? ` ${STAGE_LABELS[stage]}` : ""}…
+					</p>
+				)}
+				{!computing && state?.error && (
+					<div className="error" role="alert">
+						{describeError(state.error)}
+					</div>
+				)}
 				{solution}
+				{result && (
+					<ExportMenu
+						label="Export results"
+						filename="eigen-result"
+						getText={(format) => formatEigenResultText(result, format)}
+					/>
+				)}
 			</div>
 		);
 	}
@@ -82,16 +154,173 @@ export default EigenvalueSolution;
 /**
  * Helper function to display step-by-step solution
  */
-function displayStepByStep(inputMatrix: number[][]): React.JSX.Element {
-	const result = findEigenvalues(inputMatrix);
+function displayStepByStep(result: EigenResult): React.JSX.Element {
+	const n = result.xIMinusA.length;
 
 	return (
 		<div className="eigenvalue-solution card">
+			{result.symbolic ? (
+				displaySymbolicSteps(result)
+			) : (
+				<>
+					<div>
+						<h4>
+							Step 1: Create <MathDisplay latex="xI - A"></MathDisplay> matrix
+						</h4>
+						<MathDisplay latex={formatMatrixLatex(result.xIMinusA)} block />
+					</div>
+					<div className="dynamix-latex">
+						<h4>
+							Step 2: Calculate <MathDisplay latex="\det(xI - A)"></MathDisplay>
+						</h4>
+						{result.expansionCollapsed && (
+							<p>
+								The cofactor expansion of a {n}×{n} determinant has {n}! terms,
+								so it is collapsed here. The coefficients were computed with the
+								Faddeev–LeVerrier algorithm instead.
+							</p>
+						)}
+						<MathDisplay
+							latex={`\\det(xI - A) = ${splitLatexByOperators(
+								formatExpressionLatex(result.determinantExpression)
+							)}`}
+							block
+						/>
+					</div>
+					<div className="dynamix-latex">
+						<h4>Step 3: Characteristic Polynomial</h4>
+						<MathDisplay
+							latex={formatExpressionLatex(result.characteristicPolynomial)}
+							block
+						/>
+					</div>
+				</>
+			)}
+			<div className="dynamix-latex">
+				<h4>
+					Step 4: Eigenvalues <MathDisplay latex="σ(A)"></MathDisplay>
+				</h4>
+				<MathDisplay latex={formatEigenvaluesLatex(result.eigenvalues)} block />
+			</div>
+			{displayDiagonalization(result)}
+			{displayJordanForm(result)}
+			<div className="summary">
+				<h4>Summary</h4>
+				<MathDisplay
+					latex={`\\text{All eigenvalues are real: } ${result.isReal}\\newline\\text{Trace: } \\operatorname{tr}(A) = ${result.trace}${
+						result.exact
+							? "\\newline\\text{Computed with exact rational arithmetic}"
+							: ""
+					}${
+						result.qrStatus
+							? `\\newline\\text{Shifted QR: ${result.qrStatus.iterations} iterations, ${
+									result.qrStatus.converged ? "converged" : "did not converge"
+							  }}`
+							: ""
+					}`}
+					block
+				/>
+			</div>
+			{displaySolverReport(result)}
+		</div>
+	);
+}
+
+/**
+ * Collapsible report of how the eigenvalues were found and how well they check out
+ */
+function displaySolverReport(result: EigenResult): React.JSX.Element {
+	const { method, tolerance, eigenvalueChecks, residuals, warnings } =
+		result.diagnostics;
+
+	return (
+		<details className="solver-report">
+			<summary>
+				Solver report
+				{warnings.length > 0 && (
+					<span className="warning-count">
+						{" "}
+						({warnings.length} warning{warnings.length > 1 ? "s" : ""})
+					</span>
+				)}
+			</summary>
+			<p>
+				{method === "roots"
+					? "The eigenvalues are the roots of the characteristic polynomial (Newton–Raphson with deflation)."
+					: `The eigenvalues come from the shifted QR algorithm on the Hessenberg form of A${
+							result.qrStatus ? ` (${result.qrStatus.iterations} iterations)` : ""
+					  }.`}
+				{result.exact && " Rational roots were replaced by their exact values."}{" "}
+				Relative tolerance: {tolerance.toExponential(0)}.
+			</p>
+			{warnings.length > 0 && (
+				<ul className="solver-warnings">
+					{warnings.map((warning, index) => (
+						<li key={`warning-${index}`}>{warning}</li>
+					))}
+				</ul>
+			)}
+			<table>
+				<caption>Validation of the candidate eigenvalues</caption>
+				<thead>
+					<tr>
+						<th>λ</th>
+						<th>|det(A − λI)|</th>
+						<th>Threshold</th>
+						<th>Accepted</th>
+					</tr>
+				</thead>
+				<tbody>
+					{eigenvalueChecks.map((check, index) => (
+						<tr key={`check-${index}`}>
+							<td>{formatComplex(check.eigenvalue)}</td>
+							<td>{complexAbs(check.determinant).toExponential(2)}</td>
+							<td>{check.threshold.toExponential(2)}</td>
+							<td>{check.accepted ? "✓" : "✗"}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+			<table>
+				<caption>Eigenvector residuals ‖Av − λv‖ / (‖A‖‖v‖)</caption>
+				<thead>
+					<tr>
+						<th>λ</th>
+						<th>Largest residual</th>
+					</tr>
+				</thead>
+				<tbody>
+					{residuals.map(({ eigenvalue, residual }, index) => (
+						<tr key={`residual-${index}`}>
+							<td>{eigenvalue.exact ?? formatComplex(eigenvalue.value)}</td>
+							<td>{residual.toExponential(2)}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</details>
+	);
+}
+
+/**
+ * Steps 1-3 for symbolic entries: the determinant is expanded in terms of the
+ * parameters, then the slider values are substituted
+ */
+function displaySymbolicSteps(result: EigenResult): React.JSX.Element | null {
+	const symbolic = result.symbolic;
+	if (!symbolic) return null;
+
+	const substitution = Object.entries(symbolic.parameters)
+		.map(([name, value]) => `${formatExpressionLatex(name)} = ${value}`)
+		.join(",\\ ");
+
+	return (
+		<>
 			<div>
 				<h4>
 					Step 1: Create <MathDisplay latex="xI - A"></MathDisplay> matrix
 				</h4>
-				<MathDisplay latex={formatMatrixLatex(result.xIMinusA)} block />
+				<MathDisplay latex={formatMatrixLatex(symbolic.xIMinusA)} block />
 			</div>
 			<div className="dynamix-latex">
 				<h4>
@@ -99,31 +328,174 @@ function displayStepByStep(inputMatrix: number[][]): React.JSX.Element {
 				</h4>
 				<MathDisplay
 					latex={`\\det(xI - A) = ${splitLatexByOperators(
-						formatExpressionLatex(result.determinantExpression)
+						formatExpressionLatex(symbolic.determinantExpression)
 					)}`}
 					block
 				/>
 			</div>
 			<div className="dynamix-latex">
 				<h4>Step 3: Characteristic Polynomial</h4>
+				{symbolic.polynomial ? (
+					<MathDisplay
+						latex={`${formatExpressionLatex(symbolic.polynomial)} = 0`}
+						block
+					/>
+				) : (
+					<p>
+						The determinant is not a polynomial in the parameters (or the
+						matrix is too big to expand), so only the substituted polynomial
+						is shown.
+					</p>
+				)}
+				<p>
+					With <MathDisplay latex={substitution} />:
+				</p>
 				<MathDisplay
 					latex={formatExpressionLatex(result.characteristicPolynomial)}
 					block
 				/>
 			</div>
+		</>
+	);
+}
+
+/**
+ * Step 5: A = PDP⁻¹ with the row reduction of [P | I], or why it's not possible
+ */
+function displayDiagonalization(result: EigenResult): React.JSX.Element {
+	const diagonalization = result.diagonalization;
+	if (!diagonalization.diagonalizable) {
+		return (
 			<div className="dynamix-latex">
-				<h4>
-					Step 4: Eigenvalues <MathDisplay latex="σ(A)"></MathDisplay>
-				</h4>
-				<MathDisplay latex={formatEigenvaluesLatex(result.eigenvalues)} block />
+				<h4>Step 5: Diagonalization</h4>
+				<p>A is not diagonalizable. {diagonalization.reason}</p>
 			</div>
-			<div className="summary">
-				<h4>Summary</h4>
+		);
+	}
+
+	const n = diagonalization.P.length;
+	return (
+		<div className="dynamix-latex">
+			<h4>
+				Step 5: Diagonalization <MathDisplay latex="A = PDP^{-1}" />
+			</h4>
+			<p>
+				The eigenspace bases are the columns of P and the matching eigenvalues
+				go on the diagonal of D:
+			</p>
+			<MathDisplay
+				latex={`P = ${formatNumericMatrixLatex(
+					diagonalization.P
+				)},\\quad D = ${formatNumericMatrixLatex(
+					displayDiagonal(diagonalization.D, result.eigenspaces)
+				)}`}
+				block
+			/>
+			<p>
+				Row reduce <MathDisplay latex="[P \mid I]" /> to{" "}
+				<MathDisplay latex="[I \mid P^{-1}]" />:
+			</p>
+			<MathDisplay latex={formatAugmentedMatrixLatex(diagonalization.start, n)} block />
+			{diagonalization.reduction.map((step, index) => (
 				<MathDisplay
-					latex={`\\text{All eigenvalues are real: } ${result.isReal}\\newline\\text{Trace: } \\operatorname{tr}(A) = ${result.trace}`}
+					key={`reduction-${index}`}
+					latex={`\\xrightarrow{${formatRowOperationLatex(
+						step.operation
+					)}} ${formatAugmentedMatrixLatex(step.matrix, n)}`}
 					block
 				/>
+			))}
+			<MathDisplay
+				latex={`P^{-1} = ${formatNumericMatrixLatex(diagonalization.PInverse)}`}
+				block
+			/>
+			<MathDisplay
+				latex={`PDP^{-1} = A \\quad (\\max |PDP^{-1} - A| = ${diagonalization.residual.toExponential(
+					1
+				)})`}
+				block
+			/>
+		</div>
+	);
+}
+
+/**
+ * Step 6 for defective matrices: Jordan chains and A = PJP⁻¹
+ * Nothing is shown when every eigenspace is complete
+ */
+function displayJordanForm(result: EigenResult): React.JSX.Element | null {
+	const isDefective = result.eigenspaces.some(
+		(eigenspace) =>
+			(eigenspace.complexBasis?.length ?? eigenspace.basis.length) <
+			eigenspace.eigenvalue.multiplicity
+	);
+	if (!isDefective) return null;
+
+	const jordan = result.jordanForm;
+	if (!jordan) {
+		return (
+			<div className="dynamix-latex">
+				<h4>Step 6: Jordan Canonical Form</h4>
+				<p>
+					The matrix is defective, but the Jordan form is only built for
+					matrices whose eigenvalues are all real.
+				</p>
 			</div>
+		);
+	}
+
+	const lambda = (index: number) =>
+		formatComplexLatex(jordan.kernelDimensions[index].eigenvalue.value);
+
+	return (
+		<div className="dynamix-latex">
+			<h4>Step 6: Jordan Canonical Form</h4>
+			<p>
+				Some eigenspace is smaller than the multiplicity of its eigenvalue, so
+				the eigenvectors are completed with generalized eigenvectors from the
+				null spaces of <MathDisplay latex="(A - \lambda I)^k" />.
+			</p>
+			{jordan.kernelDimensions.map(({ dimensions }, index) => (
+				<MathDisplay
+					key={`kernel-${index}`}
+					latex={dimensions
+						.map(
+							(dimension, k) =>
+								`\\dim \\operatorname{null}(A - ${lambda(index)}I)^{${k + 1}} = ${dimension}`
+						)
+						.join(",\\quad ")}
+					block
+				/>
+			))}
+			<p>
+				Each chain starts from a vector <MathDisplay latex="v_k" /> of the
+				highest null space and walks down with{" "}
+				<MathDisplay latex="v_{j-1} = (A - \lambda I)v_j" /> until it reaches
+				an eigenvector <MathDisplay latex="v_1" />:
+			</p>
+			{jordan.chains
+				.filter((chain) => chain.vectors.length > 1)
+				.map((chain, index) => (
+					<MathDisplay
+						key={`chain-${index}`}
+						latex={`\\lambda = ${formatComplexLatex(chain.eigenvalue.value)}:\\quad ${chain.vectors
+							.map((vector, j) => `v_{${j + 1}} = ${formatVectorLatex(vector)}`)
+							.join(",\\ ")}`}
+						block
+					/>
+				))}
+			<MathDisplay
+				latex={`J = ${formatNumericMatrixLatex(jordan.J)},\\quad P = ${formatNumericMatrixLatex(
+					jordan.P
+				)},\\quad P^{-1} = ${formatNumericMatrixLatex(jordan.PInverse)}`}
+				block
+			/>
+			<MathDisplay
+				latex={`PJP^{-1} = A \\quad (\\max |PJP^{-1} - A| = ${jordan.residual.toExponential(
+					1
+				)})`}
+				block
+			/>
 		</div>
 	);
 }
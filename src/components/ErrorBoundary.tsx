@@ -0,0 +1,62 @@
+import React from "react";
+import "./ErrorBoundary.scss";
+import { describeError } from "../lib/errors";
+import { logger } from "../lib/logger";
+
+interface ErrorBoundaryProps {
+	// Name of the panel in the message, e.g. "step-by-step solution"
+	panel: string;
+	// The panel is retried as soon as one of these changes (e.g. the matrix)
+	resetKeys: unknown[];
+	children: React.ReactNode;
+}
+
+interface ErrorBoundaryState {
+	error: Error | null;
+}
+
+/**
+ * Replaces a crashed panel with a message instead of blanking the whole app,
+ * so the matrix input stays usable. Error boundaries have to be class components
+ */
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+	state: ErrorBoundaryState = { error: null };
+
+	static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+		return { error };
+	}
+
+	componentDidCatch(error: Error, info: React.ErrorInfo) {
+		logger.error(`The ${this.props.panel} crashed:`, error, info.componentStack);
+	}
+
+	componentDidUpdate(previous: ErrorBoundaryProps) {
+		const { resetKeys } = this.props;
+		if (
+			this.state.error &&
+			(resetKeys.length !== previous.resetKeys.length ||
+				resetKeys.some((key, index) => !Object.is(key, previous.resetKeys[index])))
+		) {
+			this.setState({ error: null });
+		}
+	}
+
+	render() {
+		const { error } = this.state;
+		if (!error) return this.props.children;
+
+		return (
+			<div className="error-boundary" role="alert">
+				<p>
+					<strong>The {this.props.panel} couldn't be shown.</strong>
+				</p>
+				<p>{describeError(error)}</p>
+				<button type="button" onClick={() => this.setState({ error: null })}>
+					Try again
+				</button>
+			</div>
+		);
+	}
+}
+
+export default ErrorBoundary;
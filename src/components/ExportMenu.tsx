@@ -0,0 +1,68 @@
+import React, { useState } from "react";
+import "./ExportMenu.scss";
+import { MATRIX_FORMATS, type MatrixFormat } from "../lib/matrixFormats";
+import { logger } from "../lib/logger";
+
+interface ExportMenuProps {
+	label: string;
+	// File name without the extension, e.g. "matrix"
+	filename: string;
+	getText: (format: MatrixFormat) => string;
+}
+
+/**
+ * Format picker with copy to clipboard and download buttons
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ label, filename, getText }) => {
+	const [format, setFormat] = useState<MatrixFormat>("json");
+	const [copied, setCopied] = useState<boolean>(false);
+
+	const handleCopy = async () => {
+		try {
+			await navigator.clipboard.writeText(getText(format));
+			setCopied(true);
+			setTimeout(() => setCopied(false), 2000);
+		} catch (error) {
+			logger.warn("Couldn't copy the export:", error);
+		}
+	};
+
+	const handleDownload = () => {
+		const extension =
+			MATRIX_FORMATS.find((entry) => entry.format === format)?.extension ?? "txt";
+		const url = URL.createObjectURL(
+			new Blob([getText(format)], { type: "text/plain" })
+		);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `${filename}.${extension}`;
+		link.click();
+		URL.revokeObjectURL(url);
+	};
+
+	return (
+		<div className="export-menu">
+			<label>
+				{label}:{" "}
+				<select
+					value={format}
+					onChange={(e) => setFormat(e.target.value as MatrixFormat)}
+				>
+					{MATRIX_FORMATS.map((entry) => (
+						<option key={entry.format} value={entry.format}>
+							{entry.label}
+						</option>
+					))}
+				</select>
+			</label>
+			<button type="button" onClick={handleCopy}>
+				{copied ? "Copied!" : "Copy"}
+			</button>
+			<button type="button" onClick={handleDownload}>
+				Download
+			</button>
+		</div>
+	);
+};
+
+export default ExportMenu;
@@ -1,12 +1,64 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-
+import { Line2 } from "three/examples/jsm/lines/Line2.js";
+import { LineGeometry } from "three/examples/jsm/lines/LineGeometry.js";
+import { LineMaterial } from "three/examples/jsm/lines/LineMaterial.js";
+import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2.js";
+import { LineSegmentsGeometry } from "three/examples/jsm/lines/LineSegmentsGeometry.js";
+import "./GraphAnimate.scss";
+import TestVectorControls from "./TestVectorControls";
+import PowerIterationPanel, { type PowerIterationSettings } from "./PowerIterationPanel";
+import PhasePortraitPanel, { type PhasePortraitSettings } from "./PhasePortraitPanel";
+import RotationScalingInfo from "./RotationScalingInfo";
+import CameraControls, { type EigenvectorView } from "./CameraControls";
+import SceneExportMenu from "./SceneExportMenu";
+import {
+	GIF_FPS,
+	VIDEO_FPS,
+	exportSize,
+	recordAnimation,
+	renderToCanvas,
+	sceneToSvg,
+	type SceneExportFormat,
+	type SceneResolution,
+} from "./util/sceneExport";
+import {
+	DEFAULT_LAYERS,
+	DEFAULT_SCENE_STYLE,
+	sceneColors,
+	type SceneColors,
+	type SceneLayer,
+	type SceneLayers,
+	type SceneStyle,
+} from "./util/sceneStyle";
+
+import {
+	CAMERA_DISTANCE,
+	cameraViewKey,
+	defaultCameraView,
+	loadCameraView,
+	lookDownView,
+	presetCameraView,
+	saveCameraView,
+	type CameraProjection,
+	type CameraView,
+} from "../lib/cameraViews";
 import { type Eigenspace } from "../lib/math";
+import { multiplyMatrixVector } from "../lib/matrixOperations";
+import { isRealValue } from "../lib/complex";
+import { classifyEquilibrium, trajectory, vectorField } from "../lib/phasePortrait";
+import { powerIteration } from "../lib/powerIteration";
+import { rotationScalingPlanes } from "../lib/rotationScaling";
+import { singularValueDecomposition } from "../lib/singularValues";
+import { SNAP_ANGLE, nearestEigenspace } from "../lib/vectorGeometry";
 
 interface MathBoxSceneProps {
 	transformationMatrix?: number[][];
 	eigenspaces?: Eigenspace[];
+	// Groups of objects shown, toggled from the legend
+	layers?: SceneLayers;
+	sceneStyle?: SceneStyle;
 }
 
 let isAndroidNonFirefox: boolean = true;
@@ -23,32 +75,97 @@ const renderer = new THREE.WebGLRenderer({
 	preserveDrawingBuffer: isAndroidNonFirefox,
 });
 
-// Create materials
-const lineMaterial = (color: number, linewidth: number = 1) =>
-	new THREE.LineBasicMaterial({
+/* ━━━━━━━━━━━━━━━━ Camera ━━━━━━━━━━━━━━━━ */
+// Both cameras show the views of lib/cameraViews. The orthographic one keeps a
+// fixed frustum and zooms to show what the perspective one would
+
+const CAMERA_FOV = 75;
+const FOV_TANGENT = Math.tan(THREE.MathUtils.degToRad(CAMERA_FOV / 2));
+// Half the height of the orthographic frustum at zoom 1
+const ORTHO_HALF_HEIGHT = CAMERA_DISTANCE * FOV_TANGENT;
+// Far enough back that no part of the scene ends up behind the camera
+const ORTHO_DISTANCE = 100;
+
+type SceneCamera = THREE.PerspectiveCamera | THREE.OrthographicCamera;
+
+const setAspect = (camera: SceneCamera, aspect: number) => {
+	if (camera instanceof THREE.PerspectiveCamera) {
+		camera.aspect = aspect;
+	} else {
+		camera.left = -ORTHO_HALF_HEIGHT * aspect;
+		camera.right = ORTHO_HALF_HEIGHT * aspect;
+		camera.top = ORTHO_HALF_HEIGHT;
+		camera.bottom = -ORTHO_HALF_HEIGHT;
+	}
+	camera.updateProjectionMatrix();
+};
+
+// Distance a perspective camera would need to show what this zoom shows
+const orthoDistance = (camera: THREE.OrthographicCamera) =>
+	ORTHO_HALF_HEIGHT / (camera.zoom * FOV_TANGENT);
+
+/**
+ * Move the camera to the view, target is the orbit target of the controls
+ */
+const applyCameraView = (camera: SceneCamera, target: THREE.Vector3, view: CameraView) => {
+	target.fromArray(view.target);
+	const offset = new THREE.Vector3().fromArray(view.position).sub(target);
+	if (camera instanceof THREE.OrthographicCamera) {
+		camera.zoom = ORTHO_HALF_HEIGHT / (offset.length() * FOV_TANGENT);
+		camera.updateProjectionMatrix();
+		offset.setLength(ORTHO_DISTANCE);
+	}
+	camera.position.copy(target).add(offset);
+	camera.lookAt(target);
+};
+
+const readCameraView = (camera: SceneCamera, target: THREE.Vector3): CameraView => {
+	const offset = camera.position.clone().sub(target);
+	if (camera instanceof THREE.OrthographicCamera) offset.setLength(orthoDistance(camera));
+	return { position: target.clone().add(offset).toArray(), target: target.toArray() };
+};
+
+// Create materials. Widths and sizes are in pixels, times the line width
+// setting of the scene (scale)
+const lineMaterial = (color: number, linewidth: number = 1, scale: number = 1) =>
+	new LineMaterial({
 		color: color,
-		linewidth: isAndroidNonFirefox ? Math.max(linewidth, 2) : linewidth,
+		linewidth: (isAndroidNonFirefox ? Math.max(linewidth, 2) : linewidth) * scale,
+		transparent: true,
 	});
 
-const pointMaterial = (color: number, size: number = 1) =>
+const pointMaterial = (color: number, size: number = 1, scale: number = 1) =>
 	new THREE.PointsMaterial({
 		color: color,
-		size: isAndroidNonFirefox ? size * 1.5 : size,
+		size: (isAndroidNonFirefox ? size * 1.5 : size) * scale,
 		sizeAttenuation: false,
 	});
 
+// WebGL draws plain lines 1px wide whatever their linewidth, so lines are
+// Line2 meshes. Their width is in pixels of what they are drawn to: the
+// canvas, or the render target of an export
+const trackResolution = <T extends LineSegments2>(line: T) => {
+	line.onBeforeRender = (renderer) => {
+		const target = renderer.getRenderTarget();
+		if (target) {
+			line.material.resolution.set(target.width, target.height);
+		} else {
+			renderer.getSize(line.material.resolution);
+		}
+	};
+	return line;
+};
+
 // Helper function to create line geometry
 const createLine = (
 	points: number[][],
 	color: number,
 	linewidth: number = 1,
-	opacity?: number
+	opacity?: number,
+	scale: number = 1
 ) => {
-	const geometry = new THREE.BufferGeometry().setFromPoints(
-		points.map((p) => new THREE.Vector3(p[0], p[1], p[2]))
-	);
-	const line = new THREE.Line(geometry, lineMaterial(color, linewidth));
-	line.material.transparent = true;
+	const geometry = new LineGeometry().setPositions(points.flat());
+	const line = trackResolution(new Line2(geometry, lineMaterial(color, linewidth, scale)));
 	line.material.opacity =
 		opacity !== undefined ? opacity : isAndroid ? 0.2 : 0.8;
 
@@ -56,11 +173,16 @@ const createLine = (
 };
 
 // Helper function to create points
-const createPoints = (points: number[][], color: number, size: number = 1) => {
+const createPoints = (
+	points: number[][],
+	color: number,
+	size: number = 1,
+	scale: number = 1
+) => {
 	const geometry = new THREE.BufferGeometry().setFromPoints(
 		points.map((p) => new THREE.Vector3(p[0], p[1], p[2]))
 	);
-	const pointsObj = new THREE.Points(geometry, pointMaterial(color, size));
+	const pointsObj = new THREE.Points(geometry, pointMaterial(color, size, scale));
 	return pointsObj;
 };
 
@@ -108,14 +230,193 @@ const createTextLabel = (
 	const sprite = new THREE.Sprite(material);
 	sprite.position.copy(position);
 	sprite.renderOrder = 1000; // Render labels on top of everything else
+	// Kept for the SVG export, which writes the label as text
+	sprite.userData = { text, color };
 
 	// Make text labels much bigger
 	const screenScale = isAndroidNonFirefox ? 0.4 : 0.5;
 	sprite.scale.set(screenScale, screenScale * 0.5, 1);
+	// Orthographic cameras don't scale sprites by their depth, so the label is
+	// sized by hand to what it would be in perspective
+	sprite.onBeforeRender = (_renderer, _scene, camera) => {
+		const factor = camera instanceof THREE.OrthographicCamera ? orthoDistance(camera) : 1;
+		if (sprite.scale.x === screenScale * factor) return;
+		sprite.scale.set(screenScale * factor, screenScale * factor * 0.5, 1);
+		sprite.updateMatrixWorld();
+	};
 
 	return sprite;
 };
 
+/* ━━━━━━━━━━━━━━━━ Morph ━━━━━━━━━━━━━━━━ */
+// The transformed objects are drawn with M(t) = (1−t)I + tA, so the grid slides
+// from the identity (t = 0) to A (t = 1)
+
+// How long "Play" takes to go from I to A
+const MORPH_DURATION_MS = 3000;
+// Recorded animations stay on A for a moment before they loop
+const EXPORT_HOLD_MS = 1000;
+
+// A scene object whose points (and label position) follow M(t)
+type MorphTarget = {
+	object: Line2 | THREE.Points | THREE.Sprite;
+	points: number[][];
+	// Added after the transformation, keeps labels next to their arrow
+	offset?: number[];
+};
+
+const morphMatrix = (matrix: number[][], t: number) =>
+	matrix.map((row, i) => row.map((entry, j) => (1 - t) * (i === j ? 1 : 0) + t * entry));
+
+// 2×2 matrices act on the XY plane and leave z alone
+const transformPoint = (matrix: number[][], point: number[]) =>
+	matrix.length === 2
+		? [
+				matrix[0][0] * point[0] + matrix[0][1] * point[1],
+				matrix[1][0] * point[0] + matrix[1][1] * point[1],
+				point[2],
+			]
+		: matrix.map((row) => row[0] * point[0] + row[1] * point[1] + row[2] * point[2]);
+
+// Move the vertices of a line/points object, or a label to the first point
+const placeObject = (
+	object: Line2 | THREE.Points | THREE.Sprite,
+	points: number[][],
+	offset?: number[]
+) => {
+	if (object instanceof THREE.Sprite) {
+		const [x, y, z] = points[0];
+		object.position.set(x + (offset?.[0] ?? 0), y + (offset?.[1] ?? 0), z + (offset?.[2] ?? 0));
+		return;
+	}
+	if (object instanceof Line2) {
+		// Line2 stores segments, [start, end] for each pair of neighboring points
+		const start = object.geometry.getAttribute("instanceStart") as THREE.InterleavedBufferAttribute;
+		const segments = start.data.array as Float32Array;
+		points.slice(1).forEach((end, index) => segments.set([...points[index], ...end], index * 6));
+		start.data.needsUpdate = true;
+		// The sphere is centered on the cached box, so both are redone
+		object.geometry.computeBoundingBox();
+		object.geometry.computeBoundingSphere();
+		return;
+	}
+
+	const position = object.geometry.getAttribute("position") as THREE.BufferAttribute;
+	points.forEach(([x, y, z], index) => position.setXYZ(index, x, y, z));
+	position.needsUpdate = true;
+	object.geometry.computeBoundingSphere();
+};
+
+const updateMorphTarget = ({ object, points, offset }: MorphTarget, matrix: number[][]) =>
+	placeObject(
+		object,
+		points.map((point) => transformPoint(matrix, point)),
+		offset
+	);
+
+/* ━━━━━━━━━━━━━━━━ Test Vector ━━━━━━━━━━━━━━━━ */
+// A vector v the user moves around (dragged in 2D, typed in 3D), drawn with Av
+// so eigenvectors can be found by hand
+
+const TEST_VECTOR_COLOR = 0x333333;
+const TEST_IMAGE_COLOR = 0x888888;
+const DEFAULT_TEST_VECTOR = [2, 1, 1];
+// How close (in world units) a press must be to the tip of v to grab it
+const GRAB_RADIUS = 0.4;
+// v is shown as an eigenvector this close to an eigenspace, typed-in
+// components are rarely exact
+const EIGENVECTOR_ANGLE = 0.5;
+
+/* ━━━━━━━━━━━━━━━━ Unit Circle ━━━━━━━━━━━━━━━━ */
+// The unit circle (sphere) and its image under A, an ellipse (ellipsoid) with
+// semi-axes σᵢuᵢ. The right singular vectors vᵢ are the points of the circle
+// that land on those axes, compare them with the eigenvectors
+
+const UNIT_BALL_COLOR = 0x555555;
+const ELLIPSE_COLOR = 0x0077cc;
+const SUBSCRIPTS = ["₁", "₂", "₃"];
+
+/* ━━━━━━━━━━━━━━━━ Power Iteration ━━━━━━━━━━━━━━━━ */
+// v, Av, ..., Aᵏv from the test vector, fading in so the last one stands out
+
+const POWER_ITERATION_COLOR = 0x00897b;
+// Normalized iterates are unit vectors, drawn this long to be visible
+const POWER_DISPLAY_LENGTH = 3;
+const DEFAULT_POWER_ITERATION: PowerIterationSettings = {
+	enabled: false,
+	steps: 8,
+	normalize: true,
+};
+const SUPERSCRIPTS = ["⁰", "¹", "²", "³", "⁴", "⁵", "⁶", "⁷", "⁸", "⁹"];
+
+const superscript = (n: number) =>
+	String(n)
+		.split("")
+		.map((digit) => SUPERSCRIPTS[Number(digit)])
+		.join("");
+
+// Remove and dispose everything in a group that is redrawn from scratch
+const clearGroup = (group: THREE.Group) => {
+	group.traverse((object) => {
+		if (object instanceof LineSegments2 || object instanceof THREE.Points) {
+			object.geometry.dispose();
+			(object.material as THREE.Material).dispose();
+		} else if (object instanceof THREE.Sprite) {
+			// Sprites share one geometry, only their material and texture are theirs
+			object.material.map?.dispose();
+			object.material.dispose();
+		}
+	});
+	group.clear();
+};
+
+/* ━━━━━━━━━━━━━━━━ Phase Portrait ━━━━━━━━━━━━━━━━ */
+// 2×2 only: A as x' = Ax or x_{k+1} = Ax_k, with the vector field, trajectories
+// from seed points and the eigen-directions as invariant lines. The
+// transformed grid is hidden meanwhile, it means something else here
+
+const PHASE_FIELD_COLOR = 0x7a7a7a;
+const PHASE_TRAJECTORY_COLOR = 0x6a1b9a;
+const PHASE_FIELD_EXTENT = 4;
+// Field arrows all get this length, only their direction matters
+const PHASE_ARROW_LENGTH = 0.4;
+// A press that moves less than this (in pixels) is a click, not a pan
+const CLICK_DISTANCE = 5;
+
+const DEFAULT_PHASE_PORTRAIT: PhasePortraitSettings = {
+	enabled: false,
+	mode: "continuous",
+};
+// Eight seeds around the origin so the portrait isn't empty at first
+const DEFAULT_SEEDS = Array.from({ length: 8 }, (_, k) => [
+	3 * Math.cos((k * Math.PI) / 4),
+	3 * Math.sin((k * Math.PI) / 4),
+]);
+
+// What the scene draws for the phase portrait, in scene coordinates
+type PhasePortraitScene = {
+	arrows: number[][][];
+	trajectories: number[][][];
+	// Draw the iterates of the map as dots
+	discrete: boolean;
+	invariantLines: { direction: number[]; color: number; label: string }[];
+};
+
+/* ━━━━━━━━━━━━━━━━ Rotation-Scaling ━━━━━━━━━━━━━━━━ */
+// Complex eigenvalues a ± bi: the invariant plane of Re v and Im v, with an
+// arrow that turns by t·arg(λ) and grows by |λ|^t as the morph plays
+
+// The longer of Re v and Im v is drawn this long
+const ROTATION_DISPLAY_LENGTH = 2.5;
+// Vertices of the trail behind the turning arrow
+const ROTATION_TRAIL_POINTS = 64;
+
+const eigenspaceColor = (colors: SceneColors, index: number) =>
+	parseInt(colors.eigenspaces[index % colors.eigenspaces.length].replace("#", ""), 16);
+
+// Scene coordinates always have a z, 2D vectors sit in the XY plane
+const toScenePoint = (vector: number[]) => [vector[0], vector[1], vector[2] ?? 0];
+
 const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 	transformationMatrix = [
 		[3, 1, 0],
@@ -123,8 +424,134 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 		[0, 0, 3],
 	],
 	eigenspaces = [],
+	layers = DEFAULT_LAYERS,
+	sceneStyle = DEFAULT_SCENE_STYLE,
 }) => {
 	const containerRef = useRef<HTMLDivElement>(null);
+	const colors = useMemo(() => sceneColors(sceneStyle), [sceneStyle]);
+	const layersRef = useRef(layers);
+	// Set by the scene, one group of objects per layer
+	const layerGroupsRef = useRef<Record<SceneLayer, THREE.Group> | null>(null);
+	// Morph position, starts on A so the scene opens on the transformation itself
+	const [t, setT] = useState(1);
+	const [playing, setPlaying] = useState(false);
+	const tRef = useRef(1);
+	// Set by the scene, moves every morphing object to M(t)
+	const applyMorphRef = useRef<((t: number) => void) | null>(null);
+	const [projection, setProjection] = useState<CameraProjection>("perspective");
+	const projectionRef = useRef<CameraProjection>("perspective");
+	// Set by the scene, move the camera to a view and swap the camera
+	const showCameraViewRef = useRef<((view: CameraView) => void) | null>(null);
+	const setProjectionRef = useRef<((projection: CameraProjection) => void) | null>(null);
+	// Set by the scene, renders it offscreen into a file
+	const exportSceneRef = useRef<
+		((format: SceneExportFormat, width: number, height: number) => Promise<Blob>) | null
+	>(null);
+
+	const [showUnitBall, setShowUnitBall] = useState(false);
+	const showUnitBallRef = useRef(false);
+	const unitBallRef = useRef<THREE.Group | null>(null);
+
+	const [testVector, setTestVector] = useState(DEFAULT_TEST_VECTOR);
+	const testVectorRef = useRef(DEFAULT_TEST_VECTOR);
+	// Set by the scene, redraws v and Av (in the eigenspace's color when v is on one)
+	const placeTestVectorRef = useRef<
+		((vector: number[], image: number[], color: number | null) => void) | null
+	>(null);
+
+	const [powerSettings, setPowerSettings] =
+		useState<PowerIterationSettings>(DEFAULT_POWER_ITERATION);
+	// Scene coordinates of the iterates, drawn by the scene
+	const powerPathRef = useRef<number[][]>([]);
+	const drawPowerPathRef = useRef<((path: number[][]) => void) | null>(null);
+
+	const [phaseSettings, setPhaseSettings] =
+		useState<PhasePortraitSettings>(DEFAULT_PHASE_PORTRAIT);
+	const [seeds, setSeeds] = useState(DEFAULT_SEEDS);
+	// Read by the click handler of the scene, only clicks in phase mode add seeds
+	const phaseEnabledRef = useRef(false);
+	const phasePortraitRef = useRef<PhasePortraitScene | null>(null);
+	const drawPhasePortraitRef = useRef<((portrait: PhasePortraitScene | null) => void) | null>(
+		null
+	);
+
+	const dimension = transformationMatrix.length;
+	const rotationPlanes = useMemo(() => rotationScalingPlanes(eigenspaces), [eigenspaces]);
+	const vector = testVector.slice(0, dimension);
+	const image = multiplyMatrixVector(transformationMatrix, vector);
+	const match = nearestEigenspace(vector, eigenspaces, EIGENVECTOR_ANGLE);
+
+	const iterates = useMemo(
+		() =>
+			powerSettings.enabled
+				? powerIteration(
+						transformationMatrix,
+						testVector.slice(0, transformationMatrix.length),
+						powerSettings.steps,
+						powerSettings
+					)
+				: [],
+		[transformationMatrix, testVector, powerSettings]
+	);
+	const showPhasePortrait = phaseSettings.enabled && dimension === 2;
+	const equilibrium = useMemo(
+		() =>
+			transformationMatrix.length === 2
+				? classifyEquilibrium(transformationMatrix, phaseSettings.mode)
+				: null,
+		[transformationMatrix, phaseSettings.mode]
+	);
+	const phasePortrait = useMemo((): PhasePortraitScene | null => {
+		if (!showPhasePortrait) return null;
+		const { mode } = phaseSettings;
+
+		const arrows = vectorField(transformationMatrix, mode, PHASE_FIELD_EXTENT, 1)
+			.filter(({ direction }) => Math.hypot(...direction) > 1e-9)
+			.map(({ point, direction }) => {
+				const scale = PHASE_ARROW_LENGTH / Math.hypot(...direction);
+				return [
+					toScenePoint(point),
+					toScenePoint(point.map((x, i) => x + scale * direction[i])),
+				];
+			});
+
+		const invariantLines = eigenspaces.flatMap((eigenspace, index) => {
+			// A = λI makes every line invariant, there is nothing to single out
+			if (eigenspace.basis.length !== 1 || !isRealValue(eigenspace.eigenvalue.value)) {
+				return [];
+			}
+			const [direction] = eigenspace.basis;
+			const length = Math.hypot(...direction);
+			return [
+				{
+					direction: toScenePoint(direction.map((x) => x / length)),
+					color: eigenspaceColor(colors, index),
+					label: `invariant, λ=${eigenspace.eigenvalue.value.re.toFixed(2)}`,
+				},
+			];
+		});
+
+		return {
+			arrows,
+			trajectories: seeds.map((seed) =>
+				trajectory(transformationMatrix, seed, mode).map(toScenePoint)
+			),
+			discrete: mode === "discrete",
+			invariantLines,
+		};
+	}, [showPhasePortrait, phaseSettings, transformationMatrix, eigenspaces, seeds, colors]);
+
+	const powerPath = useMemo(
+		() =>
+			iterates.map(({ vector }) =>
+				toScenePoint(
+					powerSettings.normalize
+						? vector.map((x) => x * POWER_DISPLAY_LENGTH)
+						: vector
+				)
+			),
+		[iterates, powerSettings.normalize]
+	);
 
 	useEffect(() => {
 		if (!containerRef.current) return;
@@ -134,6 +561,13 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 		// Detect if Android device
 		isAndroid = /Android/i.test(navigator.userAgent);
 
+		// Every line and point of this scene, at the line width of the style
+		const widthScale = sceneStyle.lineWidth;
+		const drawLine = (points: number[][], color: number, linewidth?: number, opacity?: number) =>
+			createLine(points, color, linewidth, opacity, widthScale);
+		const drawPoints = (points: number[][], color: number, size?: number) =>
+			createPoints(points, color, size, widthScale);
+
 		// Determine matrix dimensions and create appropriate transformation
 		const matrixSize = transformationMatrix.length;
 		const is2D = matrixSize === 2;
@@ -142,25 +576,16 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 		const scene = new THREE.Scene();
 		scene.background = new THREE.Color(0xffffff);
 
-		// Setup camera
-		const camera = new THREE.PerspectiveCamera(
-			75,
-			container.clientWidth / container.clientHeight,
-			0.1,
-			1000
-		);
-
-		if (is2D) {
-			camera.position.set(0, 0, 8); // Top-down view for 2D
-		} else {
-			camera.position.set(8, 8, 10); // Angled view for 3D with Z as upright axis
-		}
-		camera.lookAt(0, 0, 0);
-
-		// Set camera up vector to make Z upright in 3D
-		if (!is2D) {
-			camera.up.set(0, 0, 1); // Z is the up direction
-		}
+		// Setup cameras, the controls drive whichever one is shown
+		const perspectiveCamera = new THREE.PerspectiveCamera(CAMERA_FOV, 1, 0.1, 1000);
+		const orthographicCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 1000);
+		[perspectiveCamera, orthographicCamera].forEach((sceneCamera) => {
+			setAspect(sceneCamera, container.clientWidth / container.clientHeight);
+			// Set camera up vector to make Z upright in 3D
+			if (!is2D) sceneCamera.up.set(0, 0, 1);
+		});
+		let camera: SceneCamera =
+			projectionRef.current === "orthographic" ? orthographicCamera : perspectiveCamera;
 
 		renderer.setSize(container.clientWidth, container.clientHeight);
 		renderer.setPixelRatio(
@@ -182,423 +607,211 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 		controls.enablePan = true;
 		controls.enableRotate = true;
 
-		// 1. Draw coordinate axes
-		const axisLength = 5;
-		const axisLineWidth = isAndroidNonFirefox ? 5 : 3;
+		// Each matrix opens on the view it was left in
+		const viewKey = cameraViewKey(transformationMatrix);
+		const saveView = () =>
+			saveCameraView(localStorage, viewKey, readCameraView(camera, controls.target));
+		const showView = (view: CameraView) => {
+			applyCameraView(camera, controls.target, view);
+			controls.update();
+		};
+		showView(loadCameraView(localStorage, viewKey) ?? defaultCameraView(is2D));
+		controls.addEventListener("end", saveView);
 
-		// X-axis (red)
-		scene.add(
-			createLine(
-				[
-					[-axisLength, 0, 0],
-					[axisLength, 0, 0],
-				],
-				0xff0000,
-				axisLineWidth
-			)
-		);
-		scene.add(createTextLabel("X", new THREE.Vector3(5.5, 0, 0), 0xff0000));
-
-		// Y-axis (green)
-		scene.add(
-			createLine(
-				[
-					[0, -axisLength, 0],
-					[0, axisLength, 0],
-				],
-				0x00ff00,
-				axisLineWidth
-			)
-		);
-		scene.add(createTextLabel("Y", new THREE.Vector3(0, 5.5, 0), 0x00ff00));
+		showCameraViewRef.current = (view) => {
+			showView(view);
+			saveView();
+		};
+		setProjectionRef.current = (projection) => {
+			const view = readCameraView(camera, controls.target);
+			camera = projection === "orthographic" ? orthographicCamera : perspectiveCamera;
+			controls.object = camera;
+			showView(view);
+		};
 
-		// Z-axis (blue) - only for 3D
-		if (!is2D) {
-			scene.add(
-				createLine(
-					[
-						[0, 0, -axisLength],
-						[0, 0, axisLength],
-					],
-					0x0000ff,
-					axisLineWidth
+		// Every group of objects is a layer the legend can hide
+		const layerGroups = Object.fromEntries(
+			(Object.keys(layersRef.current) as SceneLayer[]).map((layer) => {
+				const group = new THREE.Group();
+				group.visible = layersRef.current[layer];
+				scene.add(group);
+				return [layer, group];
+			})
+		) as Record<SceneLayer, THREE.Group>;
+		layerGroupsRef.current = layerGroups;
+
+		// 1. Draw coordinate axes, as far as the grid goes
+		const axisLength = sceneStyle.gridSize / 2;
+		const axisLineWidth = isAndroidNonFirefox ? 5 : 3;
+		const axisNames = is2D ? ["X", "Y"] : ["X", "Y", "Z"];
+		const unitVector = (axis: number) => [0, 1, 2].map((i) => (i === axis ? 1 : 0));
+
+		axisNames.forEach((name, axis) => {
+			const end = unitVector(axis).map((x) => x * axisLength);
+			layerGroups.axes.add(
+				drawLine([end.map((x) => -x), end], colors.axes[axis], axisLineWidth)
+			);
+			layerGroups.axes.add(
+				createTextLabel(
+					name,
+					new THREE.Vector3(...unitVector(axis).map((x) => x * (axisLength + 0.5))),
+					colors.axes[axis]
 				)
 			);
-			scene.add(createTextLabel("Z", new THREE.Vector3(0, 0, 5.5), 0x0000ff));
-		}
-
-		// 2. Draw grid
-		const gridSize = 10;
-		const gridStep = 1;
-		const gridLines: [number[][], number][] = [];
-
-		// Additional grids for 3D (lighter and fewer lines for performance)
-		for (let i = -gridSize / 2; i <= gridSize / 2; i++) {
-			// XY plane grid (light gray)
-			if (i !== 0) {
-				// Don't draw over axes
-				gridLines.push([
-					[
-						[-gridSize / 2, i * gridStep, 0],
-						[gridSize / 2, i * gridStep, 0],
-					],
-					0xff0000,
-				]);
-				gridLines.push([
-					[
-						[i * gridStep, -gridSize / 2, 0],
-						[i * gridStep, gridSize / 2, 0],
-					],
-					0xff0000,
-				]);
-			}
-
-			if (!is2D && !isAndroidNonFirefox) {
-				// XZ plane
-				if (i !== 0) {
-					gridLines.push([
-						[
-							[-gridSize / 2, 0, i * gridStep],
-							[gridSize / 2, 0, i * gridStep],
-						],
-						0x00ff00,
-					]);
-					gridLines.push([
-						[
-							[i * gridStep, 0, -gridSize / 2],
-							[i * gridStep, 0, gridSize / 2],
-						],
-						0x00ff00,
-					]);
+		});
+
+		// 2. Draw grid. Lines come as [points, plane] for the XY, XZ and YZ planes
+		const gridPlanes = [
+			[0, 1],
+			[0, 2],
+			[1, 2],
+		];
+		const halfGrid = sceneStyle.gridSize / 2;
+		const gridCount = Math.floor(halfGrid / sceneStyle.gridStep + 1e-9);
+		const gridLines = (planeCount: number) => {
+			const lines: [number[][], number][] = [];
+			gridPlanes.slice(0, planeCount).forEach(([u, v], plane) => {
+				const point = (a: number, b: number) => {
+					const p = [0, 0, 0];
+					p[u] = a;
+					p[v] = b;
+					return p;
+				};
+				for (let k = -gridCount; k <= gridCount; k++) {
+					// Don't draw over axes
+					if (k === 0) continue;
+					const offset = k * sceneStyle.gridStep;
+					lines.push([[point(-halfGrid, offset), point(halfGrid, offset)], plane]);
+					lines.push([[point(offset, -halfGrid), point(offset, halfGrid)], plane]);
 				}
-
-				// YZ plane
-				if (i !== 0) {
-					gridLines.push([
-						[
-							[0, -gridSize / 2, i * gridStep],
-							[0, gridSize / 2, i * gridStep],
-						],
-						0x0000ff,
-					]);
-					gridLines.push([
-						[
-							[0, i * gridStep, -gridSize / 2],
-							[0, i * gridStep, gridSize / 2],
-						],
-						0x0000ff,
-					]);
-				}
-			}
-
-			gridLines.forEach((line) => {
-				scene.add(createLine(line[0], line[1], 1, 0.3));
 			});
-		}
+			return lines;
+		};
+
+		// Only the XY plane in 2D and on Android phones, for performance
+		gridLines(is2D || isAndroidNonFirefox ? 1 : 3).forEach(([points, plane]) => {
+			layerGroups.grid.add(drawLine(points, colors.grid[plane], 1, 0.3));
+		});
 
 		// 3. Draw elementary basis vectors (original)
 		const basisLineWidth = isAndroidNonFirefox ? 8 : 6;
 		const pointSize = isAndroidNonFirefox ? 12 : 8;
 
 		const textOffset = 0.3;
-
-		// e1 = [1, 0, 0] - unit vector along X (red)
-		scene.add(
-			createLine(
-				[
-					[0, 0, 0],
-					[1, 0, 0],
-				],
-				0xcc0000,
-				basisLineWidth,
-				1
-			)
-		);
-		scene.add(createPoints([[1, 0, 0]], 0xcc0000, pointSize));
-		scene.add(
-			createTextLabel(
-				"e₁",
-				new THREE.Vector3(1.1, 0.1, 0 - textOffset),
-				0xcc0000
-			)
-		);
-
-		// e2 = [0, 1, 0] - unit vector along Y (green)
-		scene.add(
-			createLine(
-				[
-					[0, 0, 0],
-					[0, 1, 0],
-				],
-				0x00cc00,
-				basisLineWidth,
-				1
-			)
-		);
-		scene.add(createPoints([[0, 1, 0]], 0x00cc00, pointSize));
-		scene.add(
-			createTextLabel(
-				"e₂",
-				new THREE.Vector3(0.1, 1.1, 0 - textOffset),
-				0x00cc00
-			)
-		);
-
-		// e3 = [0, 0, 1] - unit vector along Z (blue) - only for 3D
-		if (!is2D) {
-			scene.add(
-				createLine(
-					[
-						[0, 0, 0],
-						[0, 0, 1],
-					],
-					0x0000cc,
-					basisLineWidth,
-					1
-				)
-			);
-			scene.add(createPoints([[0, 0, 1]], 0x0000cc, pointSize));
-			scene.add(
+		const basisLabelPositions = [
+			[1.1, 0.1, -textOffset],
+			[0.1, 1.1, -textOffset],
+			[0.1, 0, 1.1 - textOffset],
+		];
+
+		axisNames.forEach((_, axis) => {
+			const basisVector = unitVector(axis);
+			const color = colors.basis[axis];
+			layerGroups.basis.add(drawLine([[0, 0, 0], basisVector], color, basisLineWidth, 1));
+			layerGroups.basis.add(drawPoints([basisVector], color, pointSize));
+			layerGroups.basis.add(
 				createTextLabel(
-					"e₃",
-					new THREE.Vector3(0.1, 0, 1.1 - textOffset),
-					0x0000cc
+					`e${SUBSCRIPTS[axis]}`,
+					new THREE.Vector3(...basisLabelPositions[axis]),
+					color
 				)
 			);
-		}
-
-		// 4. Calculate transformed basis vectors
-		let e1_transformed: number[],
-			e2_transformed: number[],
-			e3_transformed: number[];
-
-		if (is2D) {
-			e1_transformed = [
-				transformationMatrix[0][0],
-				transformationMatrix[1][0],
-				0,
-			];
-			e2_transformed = [
-				transformationMatrix[0][1],
-				transformationMatrix[1][1],
-				0,
-			];
-			e3_transformed = [0, 0, 1]; // Z remains unchanged in 2D
-		} else {
-			e1_transformed = [
-				transformationMatrix[0][0],
-				transformationMatrix[1][0],
-				transformationMatrix[2][0],
-			];
-			e2_transformed = [
-				transformationMatrix[0][1],
-				transformationMatrix[1][1],
-				transformationMatrix[2][1],
-			];
-			e3_transformed = [
-				transformationMatrix[0][2],
-				transformationMatrix[1][2],
-				transformationMatrix[2][2],
-			];
-		}
+		});
+
+		// 4. Objects that follow the morph, drawn at their identity position
+		// and moved to M(t) once the scene is built
+		const morphTargets: MorphTarget[] = [];
+		const addMorphing = (target: MorphTarget, layer: THREE.Group) => {
+			morphTargets.push(target);
+			layer.add(target.object);
+		};
 
 		// 5. Draw transformed elementary basis vectors (thick arrows)
 		const transformedLineWidth = isAndroidNonFirefox ? 12 : 10;
 		const transformedPointSize = isAndroidNonFirefox ? 16 : 12;
 
-		// Transformed e1 (red)
-		scene.add(
-			createLine([[0, 0, 0], e1_transformed], 0xff4444, transformedLineWidth)
-		);
-		scene.add(createPoints([e1_transformed], 0xff4444, transformedPointSize));
-		scene.add(
-			createTextLabel(
-				"Ae₁",
-				new THREE.Vector3(
-					e1_transformed[0] + 0.1,
-					e1_transformed[1] + 0.1,
-					e1_transformed[2] + textOffset
-				),
-				0xff4444
-			)
-		);
-
-		// Transformed e2 (green)
-		scene.add(
-			createLine([[0, 0, 0], e2_transformed], 0x44ab44, transformedLineWidth)
-		);
-		scene.add(createPoints([e2_transformed], 0x44ab44, transformedPointSize));
-		scene.add(
-			createTextLabel(
-				"Ae₂",
-				new THREE.Vector3(
-					e2_transformed[0] + 0.1,
-					e2_transformed[1] + 0.1,
-					e2_transformed[2] + textOffset
-				),
-				0x44ab44
-			)
-		);
-
-		// Transformed e3 (blue) - only for 3D
-		if (!is2D) {
-			scene.add(
-				createLine([[0, 0, 0], e3_transformed], 0x4444ff, transformedLineWidth)
+		axisNames.forEach((_, axis) => {
+			const basisVector = unitVector(axis);
+			const color = colors.transformedBasis[axis];
+			addMorphing(
+				{
+					object: drawLine([[0, 0, 0], basisVector], color, transformedLineWidth),
+					points: [[0, 0, 0], basisVector],
+				},
+				layerGroups.transformedBasis
 			);
-			scene.add(createPoints([e3_transformed], 0x4444ff, transformedPointSize));
-			scene.add(
-				createTextLabel(
-					"Ae₃",
-					new THREE.Vector3(
-						e3_transformed[0] + 0.1,
-						e3_transformed[1] + 0.1,
-						e3_transformed[2] + textOffset
+			addMorphing(
+				{
+					object: drawPoints([basisVector], color, transformedPointSize),
+					points: [basisVector],
+				},
+				layerGroups.transformedBasis
+			);
+			addMorphing(
+				{
+					object: createTextLabel(
+						`Ae${SUBSCRIPTS[axis]}`,
+						new THREE.Vector3(...basisVector),
+						color
 					),
-					0x4444ff
-				)
+					points: [basisVector],
+					offset: [0.1, 0.1, textOffset],
+				},
+				layerGroups.transformedBasis
 			);
-		}
+		});
 
 		// 6. Draw transformed coordinate axes (lighter colors)
 		const transformedAxisWidth = isAndroidNonFirefox ? 6 : 4;
 
-		// Apply transformation matrix to create transformed axes
-		const transformAxis = (axis: number[]) => {
-			if (is2D) {
-				return [
-					axis[0] * transformationMatrix[0][0] +
-						axis[1] * transformationMatrix[0][1],
-					axis[0] * transformationMatrix[1][0] +
-						axis[1] * transformationMatrix[1][1],
-					axis[2],
-				];
-			} else {
-				return [
-					axis[0] * transformationMatrix[0][0] +
-						axis[1] * transformationMatrix[0][1] +
-						axis[2] * transformationMatrix[0][2],
-					axis[0] * transformationMatrix[1][0] +
-						axis[1] * transformationMatrix[1][1] +
-						axis[2] * transformationMatrix[1][2],
-					axis[0] * transformationMatrix[2][0] +
-						axis[1] * transformationMatrix[2][1] +
-						axis[2] * transformationMatrix[2][2],
-				];
-			}
-		};
-
-		// Transformed X-axis
-		const transformedXStart = transformAxis([-axisLength, 0, 0]);
-		const transformedXEnd = transformAxis([axisLength, 0, 0]);
-		scene.add(
-			createLine(
-				[transformedXStart, transformedXEnd],
-				0xff6666,
-				transformedAxisWidth,
-				1
-			)
-		);
-
-		// Transformed Y-axis
-		const transformedYStart = transformAxis([0, -axisLength, 0]);
-		const transformedYEnd = transformAxis([0, axisLength, 0]);
-		scene.add(
-			createLine(
-				[transformedYStart, transformedYEnd],
-				0x66ff66,
-				transformedAxisWidth,
-				1
-			)
-		);
-
-		// Transformed Z-axis - only for 3D
-		if (!is2D) {
-			const transformedZStart = transformAxis([0, 0, -axisLength]);
-			const transformedZEnd = transformAxis([0, 0, axisLength]);
-			scene.add(
-				createLine(
-					[transformedZStart, transformedZEnd],
-					0x6666ff,
-					transformedAxisWidth,
-					1
-				)
+		axisNames.forEach((_, axis) => {
+			const end = unitVector(axis).map((x) => x * axisLength);
+			const start = end.map((x) => -x);
+			addMorphing(
+				{
+					object: drawLine(
+						[start, end],
+						colors.transformedAxes[axis],
+						transformedAxisWidth,
+						1
+					),
+					points: [start, end],
+				},
+				layerGroups.transformedAxes
 			);
-		}
+		});
 
-		// 7. Draw transformed grid (fewer lines for performance)
-		if (!isAndroid) {
-			// Skip on Android for performance
-			const transformedGridLines: [number[][], number][] = [];
-
-			const XY = 0xff9999;
-			const XZ = 0x99ff99;
-			const YZ = 0x9999ff;
-
-			for (let i = -gridSize / 2; i <= gridSize / 2; i += 1) {
-				if (i !== 0) {
-					// XY plane grid lines
-					const line1Start = transformAxis([-gridSize / 2, i * gridStep, 0]);
-					const line1End = transformAxis([gridSize / 2, i * gridStep, 0]);
-					transformedGridLines.push([[line1Start, line1End], XY]);
-
-					const line2Start = transformAxis([i * gridStep, -gridSize / 2, 0]);
-					const line2End = transformAxis([i * gridStep, gridSize / 2, 0]);
-					transformedGridLines.push([[line2Start, line2End], XY]);
-
-					// For 3D, also add XZ and YZ plane grid lines (useful to visualize full transformed grid)
-					if (!is2D) {
-						// XZ plane (Y = 0)
-						const xzLine1Start = transformAxis([
-							-gridSize / 2,
-							0,
-							i * gridStep,
-						]);
-						const xzLine1End = transformAxis([gridSize / 2, 0, i * gridStep]);
-						transformedGridLines.push([[xzLine1Start, xzLine1End], XZ]);
-
-						const xzLine2Start = transformAxis([
-							i * gridStep,
-							0,
-							-gridSize / 2,
-						]);
-						const xzLine2End = transformAxis([i * gridStep, 0, gridSize / 2]);
-						transformedGridLines.push([[xzLine2Start, xzLine2End], XZ]);
-
-						// YZ plane (X = 0)
-						const yzLine1Start = transformAxis([
-							0,
-							-gridSize / 2,
-							i * gridStep,
-						]);
-						const yzLine1End = transformAxis([0, gridSize / 2, i * gridStep]);
-						transformedGridLines.push([[yzLine1Start, yzLine1End], YZ]);
-
-						const yzLine2Start = transformAxis([
-							0,
-							i * gridStep,
-							-gridSize / 2,
-						]);
-						const yzLine2End = transformAxis([0, i * gridStep, gridSize / 2]);
-						transformedGridLines.push([[yzLine2Start, yzLine2End], YZ]);
-					}
-				}
-			}
-
-			transformedGridLines.forEach((line) => {
-				scene.add(createLine(line[0], line[1], 1, 0.5)); // Light red for transformed grid
-			});
-		}
+		// 7. Draw transformed grid, every plane (the layer starts hidden on Android)
+		gridLines(is2D ? 1 : 3).forEach(([points, plane]) => {
+			addMorphing(
+				{ object: drawLine(points, colors.transformedGrid[plane], 1, 0.5), points },
+				layerGroups.transformedGrid
+			);
+		});
+
+		// Eigenvectors are drawn twice: where they start (static) and where M(t)
+		// takes them. The moving copy only ever slides along the eigenspace
+		const imageLineWidth = isAndroidNonFirefox ? 6 : 4;
+		const imagePointSize = isAndroidNonFirefox ? 14 : 10;
+		const addEigenvectorImage = (vector: number[], color: number) => {
+			addMorphing(
+				{
+					object: drawLine([[0, 0, 0], vector], color, imageLineWidth, 1),
+					points: [[0, 0, 0], vector],
+				},
+				layerGroups.eigenspaces
+			);
+			addMorphing(
+				{
+					object: drawPoints([vector], color, imagePointSize),
+					points: [vector],
+				},
+				layerGroups.eigenspaces
+			);
+		};
 
 		// 8. Draw eigenspaces using Three.js
 		if (eigenspaces && eigenspaces.length > 0) {
-			const eigenspaceColors = [
-				"#af00af",
-				"#00afaf",
-				"#afaf00",
-				"#ff8000",
-				"#8000ff",
-			];
-
 			eigenspaces.forEach((eigenspace, index) => {
 				// Type guard to ensure we have a proper Eigenspace object
 				if (
@@ -614,9 +827,8 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 					return;
 				}
 
-				const color = eigenspaceColors[index % eigenspaceColors.length];
-				const colorHex = parseInt(color.replace("#", ""), 16);
-				const eigenvalue = eigenspace.eigenvalue.value.toFixed(3);
+				const colorHex = eigenspaceColor(colors, index);
+				const eigenvalue = eigenspace.eigenvalue.value.re.toFixed(3);
 
 				// Convert basis vectors to numerical format for visualization
 				const numericBasis = eigenspace.basis.map((vec: (string | number)[]) =>
@@ -657,8 +869,8 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 					const eigenPointSize = isAndroidNonFirefox ? 18 : 16;
 
 					// Draw eigenspace line (both directions)
-					scene.add(
-						createLine(
+					layerGroups.eigenspaces.add(
+						drawLine(
 							[
 								[
 									-scaledVector[0] * 2,
@@ -674,15 +886,16 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 					);
 
 					// Draw eigenvector arrow
-					scene.add(
-						createLine([[0, 0, 0], scaledVector], colorHex, eigenVectorWidth)
+					layerGroups.eigenspaces.add(
+						drawLine([[0, 0, 0], scaledVector], colorHex, eigenVectorWidth)
 					);
 
 					// Draw arrowhead (point)
-					scene.add(createPoints([scaledVector], colorHex, eigenPointSize));
+					layerGroups.eigenspaces.add(drawPoints([scaledVector], colorHex, eigenPointSize));
+					addEigenvectorImage(scaledVector, colorHex);
 
 					// Add eigenvalue label
-					scene.add(
+					layerGroups.eigenspaces.add(
 						createTextLabel(
 							`λ=${eigenvalue}`,
 							new THREE.Vector3(
@@ -728,23 +941,25 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 					}
 
 					// Draw the plane as a grid of points
-					scene.add(createPoints(gridPoints, colorHex, 4));
+					layerGroups.eigenspaces.add(drawPoints(gridPoints, colorHex, 4));
 
 					const basisVectorWidth = isAndroidNonFirefox ? 10 : 8;
 					const basisPointSize = isAndroidNonFirefox ? 14 : 12;
 
 					// Draw the two basis vectors
-					scene.add(
-						createLine([[0, 0, 0], workingV1], colorHex, basisVectorWidth)
+					layerGroups.eigenspaces.add(
+						drawLine([[0, 0, 0], workingV1], colorHex, basisVectorWidth)
 					);
-					scene.add(
-						createLine([[0, 0, 0], workingV2], colorHex, basisVectorWidth)
+					layerGroups.eigenspaces.add(
+						drawLine([[0, 0, 0], workingV2], colorHex, basisVectorWidth)
 					);
 
 					// Draw basis vector endpoints
-					scene.add(
-						createPoints([workingV1, workingV2], colorHex, basisPointSize)
+					layerGroups.eigenspaces.add(
+						drawPoints([workingV1, workingV2], colorHex, basisPointSize)
 					);
+					addEigenvectorImage(workingV1, colorHex);
+					addEigenvectorImage(workingV2, colorHex);
 
 					// Add eigenvalue label
 					const midpoint = [
@@ -753,7 +968,7 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 						(workingV1[2] + workingV2[2]) / 2 + 1,
 					];
 
-					scene.add(
+					layerGroups.eigenspaces.add(
 						createTextLabel(
 							`λ=${eigenvalue}`,
 							new THREE.Vector3(midpoint[0], midpoint[1], midpoint[2]),
@@ -780,11 +995,11 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 						}
 
 						fullSpaceGridLines.forEach((line) => {
-							scene.add(createLine(line, colorHex, 2, 0.7));
+							layerGroups.eigenspaces.add(drawLine(line, colorHex, 2, 0.7));
 						});
 
 						// Add label at a visible location
-						scene.add(
+						layerGroups.eigenspaces.add(
 							createTextLabel(
 								`λ=${eigenvalue} (ℝ²)`,
 								new THREE.Vector3(2, 2, 0),
@@ -832,11 +1047,11 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 						}
 
 						fullSpace3DLines.forEach((line) => {
-							scene.add(createLine(line, colorHex, 5, 0.5));
+							layerGroups.eigenspaces.add(drawLine(line, colorHex, 5, 0.5));
 						});
 
 						// Add label at origin
-						scene.add(
+						layerGroups.eigenspaces.add(
 							createTextLabel(
 								`λ=${eigenvalue} (ℝ³)`,
 								new THREE.Vector3(1, 1, 1),
@@ -848,6 +1063,399 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 			});
 		}
 
+		// 8b. Invariant planes of complex eigenvalues, where A rotates and scales
+		const rotationUpdates: ((t: number) => void)[] = [];
+		rotationScalingPlanes(eigenspaces).forEach(
+			({ index, a, b, modulus, angle, realPart, imaginaryPart }) => {
+				const colorHex = eigenspaceColor(colors, index);
+				const scale =
+					ROTATION_DISPLAY_LENGTH /
+					Math.max(Math.hypot(...realPart), Math.hypot(...imaginaryPart));
+				const P = toScenePoint(realPart.map((x) => x * scale));
+				const Q = toScenePoint(imaginaryPart.map((x) => x * scale));
+				// cos(s)P + sin(s)Q scaled by r, the orbits of the rotation in the plane
+				const orbitPoint = (s: number, r: number) =>
+					P.map((x, i) => r * (Math.cos(s) * x + Math.sin(s) * Q[i]));
+				const orbit = (r: number) =>
+					Array.from({ length: 97 }, (_, k) => orbitPoint((2 * Math.PI * k) / 96, r));
+
+				// The plane itself, the whole XY plane in 2D needs no highlighting
+				if (!is2D) {
+					const corners = [
+						[1, 1],
+						[-1, 1],
+						[-1, -1],
+						[1, -1],
+					].map(
+						([u, v]) => new THREE.Vector3(...P.map((x, i) => 1.6 * (u * x + v * Q[i])))
+					);
+					const plane = new THREE.Mesh(
+						new THREE.BufferGeometry()
+							.setFromPoints(corners)
+							.setIndex([0, 1, 2, 0, 2, 3]),
+						new THREE.MeshBasicMaterial({
+							color: colorHex,
+							transparent: true,
+							opacity: 0.12,
+							side: THREE.DoubleSide,
+							depthWrite: false,
+						})
+					);
+					layerGroups.eigenspaces.add(plane);
+				}
+
+				layerGroups.eigenspaces.add(drawLine(orbit(1), colorHex, 2, 0.6));
+				layerGroups.eigenspaces.add(drawLine(orbit(modulus), colorHex, 1, 0.3));
+				layerGroups.eigenspaces.add(drawLine([[0, 0, 0], P], colorHex, basisLineWidth, 1));
+				layerGroups.eigenspaces.add(drawLine([[0, 0, 0], Q], colorHex, basisLineWidth, 0.6));
+				layerGroups.eigenspaces.add(
+					createTextLabel("Re v", new THREE.Vector3(...P.map((x) => x * 1.15)), colorHex)
+				);
+				layerGroups.eigenspaces.add(
+					createTextLabel("Im v", new THREE.Vector3(...Q.map((x) => x * 1.15)), colorHex)
+				);
+				layerGroups.eigenspaces.add(
+					createTextLabel(
+						`λ=${a.toFixed(2)}±${b.toFixed(2)}i`,
+						new THREE.Vector3(...orbitPoint(Math.PI / 4, 1.3)),
+						colorHex
+					)
+				);
+
+				// Re v turned by t·arg(λ) and scaled by |λ|^t, A Re v at t = 1
+				const turning = drawLine(
+					[
+						[0, 0, 0],
+						[0, 0, 0],
+					],
+					colorHex,
+					transformedLineWidth,
+					1
+				);
+				const turningTip = drawPoints([[0, 0, 0]], colorHex, transformedPointSize);
+				const trail = drawLine(
+					Array.from({ length: ROTATION_TRAIL_POINTS }, () => [0, 0, 0]),
+					colorHex,
+					3,
+					0.9
+				);
+				layerGroups.eigenspaces.add(turning, turningTip, trail);
+
+				rotationUpdates.push((t) => {
+					const path = Array.from({ length: ROTATION_TRAIL_POINTS }, (_, k) => {
+						const s = (t * k) / (ROTATION_TRAIL_POINTS - 1);
+						return orbitPoint(s * angle, modulus ** s);
+					});
+					const end = path[path.length - 1];
+					placeObject(turning, [[0, 0, 0], end]);
+					placeObject(turningTip, [end]);
+					placeObject(trail, path);
+				});
+			}
+		);
+
+		const applyMorph = (t: number) => {
+			const matrix = morphMatrix(transformationMatrix, t);
+			morphTargets.forEach((target) => updateMorphTarget(target, matrix));
+			rotationUpdates.forEach((update) => update(t));
+		};
+		applyMorphRef.current = applyMorph;
+		applyMorph(tRef.current);
+
+		// Images and recordings of the scene, through the camera as it is now
+		exportSceneRef.current = async (format, width, height) => {
+			if (format === "svg") {
+				return new Blob([sceneToSvg(scene, camera, width, height)], {
+					type: "image/svg+xml",
+				});
+			}
+			if (format === "png") {
+				const canvas = renderToCanvas(renderer, scene, camera, width, height);
+				return new Promise<Blob>((resolve, reject) =>
+					canvas.toBlob(
+						(blob) => (blob ? resolve(blob) : reject(new Error("Couldn't encode the PNG"))),
+						"image/png"
+					)
+				);
+			}
+
+			const size = exportSize(format, width, height);
+			try {
+				return await recordAnimation(
+					(t) => {
+						applyMorph(t);
+						return renderToCanvas(renderer, scene, camera, size.width, size.height);
+					},
+					format,
+					{
+						fps: format === "gif" ? GIF_FPS : VIDEO_FPS,
+						durationMs: MORPH_DURATION_MS,
+						holdMs: EXPORT_HOLD_MS,
+					}
+				);
+			} finally {
+				applyMorph(tRef.current);
+			}
+		};
+
+		// 10. Test vector v and its image Av, placed by the effect below
+		const addArrow = (color: number, label: string) => {
+			const arrow = {
+				line: drawLine(
+					[
+						[0, 0, 0],
+						[0, 0, 0],
+					],
+					color,
+					transformedLineWidth,
+					1
+				),
+				tip: drawPoints([[0, 0, 0]], color, transformedPointSize),
+				label: createTextLabel(label, new THREE.Vector3(), color),
+			};
+			scene.add(arrow.line, arrow.tip, arrow.label);
+			return arrow;
+		};
+		const testArrow = addArrow(TEST_VECTOR_COLOR, "v");
+		const imageArrow = addArrow(TEST_IMAGE_COLOR, "Av");
+
+		const placeArrow = (arrow: typeof testArrow, point: number[], color: number) => {
+			const end = toScenePoint(point);
+			placeObject(arrow.line, [[0, 0, 0], end]);
+			placeObject(arrow.tip, [end]);
+			placeObject(arrow.label, [end], [0.2, 0.2, textOffset]);
+			arrow.line.material.color.setHex(color);
+			arrow.tip.material.color.setHex(color);
+		};
+
+		placeTestVectorRef.current = (vector, image, color) => {
+			placeArrow(testArrow, vector, color ?? TEST_VECTOR_COLOR);
+			placeArrow(imageArrow, image, color ?? TEST_IMAGE_COLOR);
+		};
+
+		// In 2D, v is dragged by its tip on the XY plane. Listening in the capture
+		// phase on the container lets a grab stop the orbit controls from panning
+		const raycaster = new THREE.Raycaster();
+		const xyPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+		const pointOnPlane = (event: PointerEvent) => {
+			const rect = renderer.domElement.getBoundingClientRect();
+			raycaster.setFromCamera(
+				new THREE.Vector2(
+					((event.clientX - rect.left) / rect.width) * 2 - 1,
+					-((event.clientY - rect.top) / rect.height) * 2 + 1
+				),
+				camera
+			);
+			return raycaster.ray.intersectPlane(xyPlane, new THREE.Vector3());
+		};
+		const nearTip = (point: THREE.Vector3 | null) => {
+			const [x, y] = testVectorRef.current;
+			return point !== null && Math.hypot(point.x - x, point.y - y) < GRAB_RADIUS;
+		};
+
+		let dragging = false;
+		let pressedAt: [number, number] | null = null;
+		const handlePointerDown = (event: PointerEvent) => {
+			pressedAt = [event.clientX, event.clientY];
+			if (!nearTip(pointOnPlane(event))) return;
+			dragging = true;
+			event.stopPropagation();
+			container.setPointerCapture(event.pointerId);
+			container.style.cursor = "grabbing";
+		};
+		const handlePointerMove = (event: PointerEvent) => {
+			const point = pointOnPlane(event);
+			if (!dragging) {
+				container.style.cursor = nearTip(point) ? "grab" : "";
+				return;
+			}
+			if (!point) return;
+
+			event.stopPropagation();
+			const dragged = [Math.round(point.x * 100) / 100, Math.round(point.y * 100) / 100];
+			const [x, y] = nearestEigenspace(dragged, eigenspaces, SNAP_ANGLE)?.projection ?? dragged;
+			setTestVector(([, , z]) => [x, y, z]);
+		};
+		const handlePointerUp = (event: PointerEvent) => {
+			// A click (not a pan) in phase mode starts a trajectory there
+			const clicked =
+				pressedAt !== null &&
+				Math.hypot(event.clientX - pressedAt[0], event.clientY - pressedAt[1]) < CLICK_DISTANCE;
+			pressedAt = null;
+			if (!dragging) {
+				const point = pointOnPlane(event);
+				if (clicked && phaseEnabledRef.current && point) {
+					setSeeds((seeds) => [
+						...seeds,
+						[Math.round(point.x * 100) / 100, Math.round(point.y * 100) / 100],
+					]);
+				}
+				return;
+			}
+			dragging = false;
+			container.releasePointerCapture(event.pointerId);
+			container.style.cursor = "grab";
+		};
+
+		// 11. Unit circle (sphere) and its image under A, hidden until toggled on
+		const unitBall = new THREE.Group();
+		const { U, singularValues, V } = singularValueDecomposition(transformationMatrix);
+		const ellipseLineWidth = isAndroidNonFirefox ? 5 : 3;
+
+		if (is2D) {
+			const circle = Array.from({ length: 97 }, (_, k) => {
+				const angle = (2 * Math.PI * k) / 96;
+				return [Math.cos(angle), Math.sin(angle), 0];
+			});
+			unitBall.add(drawLine(circle, UNIT_BALL_COLOR, ellipseLineWidth, 0.8));
+			unitBall.add(
+				drawLine(
+					circle.map((point) => transformPoint(transformationMatrix, point)),
+					ELLIPSE_COLOR,
+					ellipseLineWidth,
+					1
+				)
+			);
+		} else {
+			const sphere = new THREE.SphereGeometry(1, 24, 16);
+			const wireframe = (color: number, opacity: number) =>
+				new THREE.MeshBasicMaterial({ color, wireframe: true, transparent: true, opacity });
+			unitBall.add(new THREE.Mesh(sphere, wireframe(UNIT_BALL_COLOR, 0.25)));
+
+			const [a, b, c] = transformationMatrix;
+			const ellipsoid = sphere
+				.clone()
+				.applyMatrix4(
+					new THREE.Matrix4().set(
+						a[0], a[1], a[2], 0,
+						b[0], b[1], b[2], 0,
+						c[0], c[1], c[2], 0,
+						0, 0, 0, 1
+					)
+				);
+			unitBall.add(new THREE.Mesh(ellipsoid, wireframe(ELLIPSE_COLOR, 0.35)));
+		}
+
+		singularValues.forEach((sigma, i) => {
+			const u = toScenePoint(U.map((row) => row[i] * sigma));
+			const v = toScenePoint(V.map((row) => row[i]));
+
+			// Semi-axis σᵢuᵢ of the ellipse, both ways from the origin
+			unitBall.add(
+				drawLine([u.map((x) => -x), u], ELLIPSE_COLOR, transformedAxisWidth, 1)
+			);
+			unitBall.add(
+				createTextLabel(
+					`σ${SUBSCRIPTS[i]}=${sigma.toFixed(3)}`,
+					new THREE.Vector3(u[0] + 0.2, u[1] + 0.2, u[2] + textOffset),
+					ELLIPSE_COLOR
+				)
+			);
+
+			// Right singular vector vᵢ on the unit circle, A sends it to σᵢuᵢ
+			unitBall.add(drawLine([[0, 0, 0], v], UNIT_BALL_COLOR, basisLineWidth, 1));
+			unitBall.add(
+				createTextLabel(
+					`v${SUBSCRIPTS[i]}`,
+					new THREE.Vector3(v[0] * 1.2, v[1] * 1.2, v[2] * 1.2),
+					UNIT_BALL_COLOR
+				)
+			);
+		});
+
+		unitBall.visible = showUnitBallRef.current;
+		unitBallRef.current = unitBall;
+		scene.add(unitBall);
+
+		// 12. Power iteration, redrawn whenever v, k or the normalization change
+		const powerGroup = new THREE.Group();
+		scene.add(powerGroup);
+		drawPowerPathRef.current = (path) => {
+			clearGroup(powerGroup);
+			path.forEach((end, j) => {
+				const opacity = 0.25 + (0.75 * j) / Math.max(path.length - 1, 1);
+				powerGroup.add(
+					drawLine([[0, 0, 0], end], POWER_ITERATION_COLOR, basisLineWidth, opacity)
+				);
+				powerGroup.add(drawPoints([end], POWER_ITERATION_COLOR, pointSize));
+			});
+
+			const last = path[path.length - 1];
+			if (path.length > 1) {
+				powerGroup.add(
+					createTextLabel(
+						`A${superscript(path.length - 1)}v`,
+						new THREE.Vector3(last[0] + 0.2, last[1] + 0.2, last[2] + textOffset),
+						POWER_ITERATION_COLOR
+					)
+				);
+			}
+		};
+		drawPowerPathRef.current(powerPathRef.current);
+
+		// 13. Phase portrait (2×2 only), replaces the transformed grid while shown
+		const phaseGroup = new THREE.Group();
+		scene.add(phaseGroup);
+		drawPhasePortraitRef.current = (portrait) => {
+			clearGroup(phaseGroup);
+			morphTargets.forEach(({ object }) => (object.visible = portrait === null));
+			if (!portrait) return;
+
+			const field = trackResolution(
+				new LineSegments2(
+					new LineSegmentsGeometry().setPositions(portrait.arrows.flat(2)),
+					lineMaterial(PHASE_FIELD_COLOR, 1, widthScale)
+				)
+			);
+			field.material.opacity = 0.6;
+			phaseGroup.add(field);
+			phaseGroup.add(
+				drawPoints(
+					portrait.arrows.map(([, tip]) => tip),
+					PHASE_FIELD_COLOR,
+					isAndroidNonFirefox ? 5 : 3
+				)
+			);
+
+			portrait.invariantLines.forEach(({ direction, color, label }) => {
+				const end = direction.map((x) => x * 2 * axisLength);
+				phaseGroup.add(
+					drawLine([end.map((x) => -x), end], color, basisLineWidth, 0.9)
+				);
+				phaseGroup.add(
+					createTextLabel(
+						label,
+						new THREE.Vector3(...direction.map((x) => x * (axisLength - 0.5))),
+						color
+					)
+				);
+			});
+
+			portrait.trajectories.forEach((path) => {
+				if (path.length > 1) {
+					phaseGroup.add(
+						drawLine(path, PHASE_TRAJECTORY_COLOR, 2, portrait.discrete ? 0.35 : 0.9)
+					);
+				}
+				// Seeds, plus every iterate of the map
+				phaseGroup.add(
+					drawPoints(
+						portrait.discrete ? path : [path[0]],
+						PHASE_TRAJECTORY_COLOR,
+						pointSize
+					)
+				);
+			});
+		};
+		drawPhasePortraitRef.current(phasePortraitRef.current);
+
+		if (is2D) {
+			container.addEventListener("pointerdown", handlePointerDown, { capture: true });
+			container.addEventListener("pointermove", handlePointerMove, { capture: true });
+			container.addEventListener("pointerup", handlePointerUp, { capture: true });
+			container.addEventListener("pointercancel", handlePointerUp, { capture: true });
+		}
+
 		// Animation and render loop
 		let animationFrameId: number;
 
@@ -871,8 +1479,8 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 			const width = container.clientWidth;
 			const height = container.clientHeight;
 
-			camera.aspect = width / height;
-			camera.updateProjectionMatrix();
+			setAspect(perspectiveCamera, width / height);
+			setAspect(orthographicCamera, width / height);
 			renderer.setSize(width, height);
 		};
 
@@ -880,6 +1488,16 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 
 		// 9. Cleanup function
 		return () => {
+			applyMorphRef.current = null;
+			layerGroupsRef.current = null;
+			showCameraViewRef.current = null;
+			setProjectionRef.current = null;
+			exportSceneRef.current = null;
+			placeTestVectorRef.current = null;
+			unitBallRef.current = null;
+			drawPowerPathRef.current = null;
+			drawPhasePortraitRef.current = null;
+
 			// Cancel animation frame
 			if (animationFrameId) {
 				cancelAnimationFrame(animationFrameId);
@@ -887,8 +1505,15 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 
 			// Remove event listeners
 			window.removeEventListener("resize", handleResize);
-
-			// Dispose of controls
+			container.removeEventListener("pointerdown", handlePointerDown, { capture: true });
+			container.removeEventListener("pointermove", handlePointerMove, { capture: true });
+			container.removeEventListener("pointerup", handlePointerUp, { capture: true });
+			container.removeEventListener("pointercancel", handlePointerUp, { capture: true });
+			container.style.cursor = "";
+
+			// Dispose of controls, after keeping the view for when the matrix comes back
+			saveView();
+			controls.removeEventListener("end", saveView);
 			controls.dispose();
 
 			// Remove renderer from DOM
@@ -920,13 +1545,194 @@ const MathBoxScene: React.FC<MathBoxSceneProps> = ({
 				scene.clear();
 			}
 		};
-	}, [transformationMatrix, eigenspaces]);
+	}, [transformationMatrix, eigenspaces, sceneStyle, colors]);
+
+	useEffect(() => {
+		layersRef.current = layers;
+		const groups = layerGroupsRef.current;
+		if (!groups) return;
+		(Object.keys(groups) as SceneLayer[]).forEach((layer) => {
+			groups[layer].visible = layers[layer];
+		});
+	}, [layers]);
+
+	useEffect(() => {
+		showUnitBallRef.current = showUnitBall;
+		if (unitBallRef.current) unitBallRef.current.visible = showUnitBall;
+	}, [showUnitBall]);
+
+	useEffect(() => {
+		phaseEnabledRef.current = showPhasePortrait;
+		phasePortraitRef.current = phasePortrait;
+		drawPhasePortraitRef.current?.(phasePortrait);
+	}, [showPhasePortrait, phasePortrait]);
+
+	useEffect(() => {
+		powerPathRef.current = powerPath;
+		drawPowerPathRef.current?.(powerPath);
+	}, [powerPath]);
+
+	// No dependencies: the scene may have been rebuilt since the last render
+	useEffect(() => {
+		testVectorRef.current = testVector;
+		placeTestVectorRef.current?.(
+			vector,
+			image,
+			match ? eigenspaceColor(colors, match.index) : null
+		);
+	});
+
+	useEffect(() => {
+		projectionRef.current = projection;
+		setProjectionRef.current?.(projection);
+	}, [projection]);
+
+	useEffect(() => {
+		tRef.current = t;
+		applyMorphRef.current?.(t);
+	}, [t]);
+
+	// Advance t by the time since the last frame, stop on A
+	useEffect(() => {
+		if (!playing) return;
+
+		let frameId: number;
+		let last: number | null = null;
+		const step = (now: number) => {
+			const next = Math.min(
+				tRef.current + (last === null ? 0 : now - last) / MORPH_DURATION_MS,
+				1
+			);
+			last = now;
+			setT(next);
+			if (next < 1) {
+				frameId = requestAnimationFrame(step);
+			} else {
+				setPlaying(false);
+			}
+		};
+		frameId = requestAnimationFrame(step);
+
+		return () => cancelAnimationFrame(frameId);
+	}, [playing]);
+
+	// Every basis vector of a real eigenspace, numbered across eigenspaces
+	const eigenvectors = eigenspaces.flatMap((eigenspace, index) =>
+		isRealValue(eigenspace.eigenvalue.value)
+			? eigenspace.basis.map((direction) => ({
+					direction,
+					eigenvalue: eigenspace.eigenvalue.value.re.toFixed(2),
+					color: colors.eigenspaces[index % colors.eigenspaces.length],
+				}))
+			: []
+	);
+	const eigenvectorViews: EigenvectorView[] = eigenvectors.map(
+		({ eigenvalue, color }, k) => ({
+			label: `v${SUBSCRIPTS[k] ?? k + 1}`,
+			eigenvalue,
+			color,
+		})
+	);
+
+	const exportScene = (format: SceneExportFormat, resolution: SceneResolution) => {
+		const container = containerRef.current;
+		if (!exportSceneRef.current || !container) {
+			return Promise.reject(new Error("The scene isn't ready yet"));
+		}
+		// Screen size is in device pixels, as sharp as the canvas on the page
+		const pixelRatio = renderer.getPixelRatio();
+		return exportSceneRef.current(
+			format,
+			resolution.width ?? Math.round(container.clientWidth * pixelRatio),
+			resolution.height ?? Math.round(container.clientHeight * pixelRatio)
+		);
+	};
+
+	const togglePlaying = () => {
+		// Replay from the identity once the morph has reached A
+		if (!playing && t >= 1) setT(0);
+		setPlaying(!playing);
+	};
 
 	return (
-		<div
-			ref={containerRef}
-			style={{ width: "100%", height: "500px", overflow: "hidden" }}
-		/>
+		<>
+			<div
+				ref={containerRef}
+				style={{ width: "100%", height: "500px", overflow: "hidden" }}
+			/>
+			<div className="morph-controls">
+				<button type="button" onClick={togglePlaying}>
+					{playing ? "Pause" : "Play"}
+				</button>
+				<label htmlFor="morph-t">
+					(1−t)I + tA, t =
+				</label>
+				<input
+					id="morph-t"
+					type="range"
+					min={0}
+					max={1}
+					step={0.01}
+					value={t}
+					onChange={(e) => {
+						setPlaying(false);
+						setT(parseFloat(e.target.value));
+					}}
+				/>
+				<span className="morph-value">{t.toFixed(2)}</span>
+			</div>
+			<CameraControls
+				is2D={dimension === 2}
+				projection={projection}
+				onProjectionChange={setProjection}
+				eigenvectors={eigenvectorViews}
+				onReset={() => showCameraViewRef.current?.(defaultCameraView(dimension === 2))}
+				onPreset={(preset) => showCameraViewRef.current?.(presetCameraView(preset))}
+				onLookDown={(index) =>
+					showCameraViewRef.current?.(
+						lookDownView(toScenePoint(eigenvectors[index].direction))
+					)
+				}
+			/>
+			<SceneExportMenu is2D={dimension === 2} onExport={exportScene} />
+			<RotationScalingInfo planes={rotationPlanes} />
+			<label className="scene-option">
+				<input
+					type="checkbox"
+					checked={showUnitBall}
+					onChange={(e) => setShowUnitBall(e.target.checked)}
+				/>
+				Show the unit {dimension === 2 ? "circle" : "sphere"} and its image under A,
+				with the singular values σᵢ on its axes
+			</label>
+			<TestVectorControls
+				vector={vector}
+				image={image}
+				eigenvalue={match ? eigenspaces[match.index].eigenvalue : null}
+				color={
+					match ? colors.eigenspaces[match.index % colors.eigenspaces.length] : null
+				}
+				draggable={dimension === 2}
+				onChange={(next) =>
+					setTestVector(testVector.map((x, i) => next[i] ?? x))
+				}
+			/>
+			{equilibrium && (
+				<PhasePortraitPanel
+					settings={phaseSettings}
+					onChange={setPhaseSettings}
+					equilibrium={equilibrium}
+					onClearSeeds={() => setSeeds([])}
+					onResetSeeds={() => setSeeds(DEFAULT_SEEDS)}
+				/>
+			)}
+			<PowerIterationPanel
+				settings={powerSettings}
+				onChange={setPowerSettings}
+				iterates={iterates}
+				eigenspaces={eigenspaces}
+			/>
+		</>
 	);
 };
 
@@ -1,29 +1,96 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import "./MatrixInput.scss";
 import { Bracket } from "./util/MathSymbols";
 import { type Eigenspace } from "../lib/math";
+import { MAX_EXPANDED_SIZE, MAX_MATRIX_SIZE } from "../lib/eigenStuffFinder";
+import {
+	evaluateEntry,
+	findParameters,
+	substituteParameters,
+	type ParameterValues,
+} from "../lib/symbolic";
+import { decodeShareState, encodeShareState } from "../lib/shareState";
+import { logger } from "../lib/logger";
+import {
+	formatLabel,
+	formatMatrixText,
+	parseMatrixText,
+} from "../lib/matrixFormats";
+import ParameterSliders from "./ParameterSliders";
+import ExportMenu from "./ExportMenu";
 
 interface MatrixInputProps {
-	onMatrixChange?: (matrix: number[][]) => void;
+	// entries are the raw cell strings (e.g. "1/3" or "cos(t)"), needed for exact
+	// arithmetic and the symbolic steps. matrix has the parameter values substituted
+	onMatrixChange?: (
+		matrix: number[][],
+		entries: string[][],
+		parameters: ParameterValues
+	) => void;
 	onEigenspacesChange?: (eigenspaces: Eigenspace[]) => void;
+	onExactModeChange?: (exact: boolean) => void;
+}
+
+/**
+ * Numeric matrix for the given parameter values, unreadable cells count as 0
+ */
+function toNumericMatrix(
+	entries: string[][],
+	parameters: ParameterValues
+): number[][] {
+	return substituteParameters(entries, parameters).map((row) =>
+		row.map((value) => (isNaN(value) ? 0 : value))
+	);
 }
 
 function MatrixInput({
 	onMatrixChange,
 	onEigenspacesChange,
+	onExactModeChange,
 }: MatrixInputProps) {
-	const [size, setSize] = useState<number>(3);
-	const [f_size, setF_Size] = useState<number>(3);
-	const [matrix, setMatrix] = useState<number[][]>([
-		[3, 0, 0],
-		[0, 3, 0],
-		[0, 0, 3],
-	]);
-	const [f_matrix, setF_Matrix] = useState<string[][]>([
-		["3", "1", ""],
-		["", "3", "1"],
-		["", "", "3"],
-	]);
+	// A shared link restores the matrix it was made from
+	const [shared] = useState(() => decodeShareState(window.location.hash));
+	const [size, setSize] = useState<number>(shared?.size ?? 3);
+	const [f_size, setF_Size] = useState<number>(shared?.size ?? 3);
+	const [exact, setExact] = useState<boolean>(shared?.exact ?? false);
+	const [matrix, setMatrix] = useState<number[][]>(() =>
+		shared
+			? toNumericMatrix(shared.entries, shared.parameters)
+			: [
+					[3, 1, 0],
+					[0, 3, 1],
+					[0, 0, 3],
+			  ]
+	);
+	const [f_matrix, setF_Matrix] = useState<string[][]>(
+		shared?.entries ?? [
+			["3", "1", ""],
+			["", "3", "1"],
+			["", "", "3"],
+		]
+	);
+	const [parameterValues, setParameterValues] = useState<ParameterValues>(
+		shared?.parameters ?? {}
+	);
+	const [copied, setCopied] = useState<boolean>(false);
+	const [importText, setImportText] = useState<string>("");
+	const [importMessage, setImportMessage] = useState<{
+		text: string;
+		error: boolean;
+	} | null>(null);
+
+	// Keep the URL in sync so the current matrix can be shared as a link
+	useEffect(() => {
+		window.history.replaceState(
+			null,
+			"",
+			encodeShareState({ size, entries: f_matrix, exact, parameters: parameterValues })
+		);
+	}, [size, f_matrix, exact, parameterValues]);
+
+	useEffect(() => {
+		onExactModeChange?.(exact);
+	}, [exact, onExactModeChange]);
 
 	const handleEigenspacesCalculated = useCallback(
 		(eigenspaces: Eigenspace[]) => {
@@ -34,7 +101,7 @@ function MatrixInput({
 
 	const updateMatrixSize = useCallback(
 		(newSize: number) => {
-			if (0 > newSize || newSize > 5) {
+			if (0 > newSize || newSize > MAX_MATRIX_SIZE) {
 				return;
 			}
 			setSize(newSize);
@@ -45,29 +112,40 @@ function MatrixInput({
 						.fill(null)
 						.map((_, j) => matrix[i]?.[j] ?? 0)
 				);
-			setMatrix(newMatrix);
-			setF_Matrix(
-				newMatrix.map((row) =>
-					row.map((value) => (value === 0 ? "" : value.toString()))
+			// Keep the typed strings (e.g. "1/3") for cells that survive the resize
+			const newF_Matrix = newMatrix.map((row, i) =>
+				row.map(
+					(value, j) => f_matrix[i]?.[j] ?? (value === 0 ? "" : value.toString())
 				)
 			);
-			onMatrixChange?.(newMatrix);
+			setMatrix(newMatrix);
+			setF_Matrix(newF_Matrix);
+			onMatrixChange?.(newMatrix, newF_Matrix, parameterValues);
 		},
-		[matrix, onMatrixChange]
+		[matrix, f_matrix, parameterValues, onMatrixChange]
 	);
 
 	const updateMatrixValue = useCallback(
-		(row: number, col: number, value: string) => {
-			const numValue = parseFloat(value) || 0;
+		(row: number, col: number, value: string, newF_Matrix: string[][]) => {
+			const parsed = evaluateEntry(value, parameterValues);
+			const numValue = isNaN(parsed) ? 0 : parsed;
 			const newMatrix = matrix.map((matrixRow, i) =>
 				matrixRow.map((cell, j) => (i === row && j === col ? numValue : cell))
 			);
 			setMatrix(newMatrix);
-			onMatrixChange?.(newMatrix);
+			onMatrixChange?.(newMatrix, newF_Matrix, parameterValues);
 		},
-		[matrix, onMatrixChange]
+		[matrix, parameterValues, onMatrixChange]
 	);
 
+	// Substitute the new parameter values into every symbolic entry
+	const handleParametersChange = (newValues: ParameterValues) => {
+		const newMatrix = toNumericMatrix(f_matrix, newValues);
+		setParameterValues(newValues);
+		setMatrix(newMatrix);
+		onMatrixChange?.(newMatrix, f_matrix, newValues);
+	};
+
 	const handleInputChange = (
 		e: React.ChangeEvent<HTMLInputElement>,
 		rowIdx: number,
@@ -82,15 +160,54 @@ function MatrixInput({
 		setF_Matrix(newF_Matrix);
 
 		// Only update numeric matrix if value is a valid number
-		updateMatrixValue(rowIdx, col, value === "" ? "0" : value);
+		updateMatrixValue(rowIdx, col, value === "" ? "0" : value, newF_Matrix);
 	};
 
-	onMatrixChange?.(matrix);
+	const handleExactChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		setExact(e.target.checked);
+	};
+
+	// Replace the whole matrix with a pasted one, the grid takes its size
+	const handleImport = () => {
+		try {
+			const { entries, format } = parseMatrixText(importText);
+			const newMatrix = toNumericMatrix(entries, parameterValues);
+			setSize(entries.length);
+			setF_Size(entries.length);
+			setF_Matrix(entries);
+			setMatrix(newMatrix);
+			onMatrixChange?.(newMatrix, entries, parameterValues);
+			setImportMessage({
+				text: `Imported a ${entries.length}×${entries.length} matrix (${formatLabel(format)}).`,
+				error: false,
+			});
+		} catch (error) {
+			setImportMessage({ text: (error as Error).message, error: true });
+		}
+	};
+
+	const handleCopyLink = async () => {
+		try {
+			await navigator.clipboard.writeText(window.location.href);
+			setCopied(true);
+			setTimeout(() => setCopied(false), 2000);
+		} catch (error) {
+			logger.warn("Couldn't copy the link:", error);
+		}
+	};
+
+	onMatrixChange?.(matrix, f_matrix, parameterValues);
+
+	const parameters = findParameters(f_matrix);
+
+	// Big matrices get smaller cells so they still fit on screen
+	const compact = size > MAX_EXPANDED_SIZE;
+	const rowHeight = compact ? 28 : 40;
 
 	const renderMatrix = () => (
 		<div className="container card">
-			<Bracket direction="left" height={size * 40} />
-			<div className="matrix-grid">
+			<Bracket direction="left" height={size * rowHeight} />
+			<div className={`matrix-grid ${compact ? "compact" : ""}`}>
 				{Array(size)
 					.fill(null)
 					.map((_, col) => (
@@ -103,7 +220,7 @@ function MatrixInput({
 										value={cellStr}
 										onChange={(e) => handleInputChange(e, rowIdx, col)}
 										className={`matrix-cell ${
-											cellStr !== "" && isNaN(parseFloat(cellStr)) ? "red" : ""
+											isNaN(evaluateEntry(cellStr, parameterValues)) ? "red" : ""
 										}`}
 										placeholder="0"
 										step="0.1"
@@ -113,7 +230,7 @@ function MatrixInput({
 						</div>
 					))}
 			</div>
-			<Bracket direction="right" height={size * 40} />
+			<Bracket direction="right" height={size * rowHeight} />
 		</div>
 	);
 
@@ -127,18 +244,34 @@ function MatrixInput({
 						id="matrix-size"
 						type="number"
 						min="1"
-						max="5"
+						max={MAX_MATRIX_SIZE}
 						value={f_size}
 						onChange={(e) => {
 							const newSize = parseInt(e.target.value);
 							setF_Size(newSize);
-							if (newSize > 0 && newSize <= 5) {
+							if (newSize > 0 && newSize <= MAX_MATRIX_SIZE) {
 								updateMatrixSize(newSize);
 							}
 						}}
-						className={`size-input ${f_size > 5 || f_size < 1 ? "red" : ""}`}
+						className={`size-input ${
+							f_size > MAX_MATRIX_SIZE || f_size < 1 ? "red" : ""
+						}`}
+					/>
+				</div>
+				<div id="exact-mode-control" className="size-control">
+					<label htmlFor="exact-mode">Exact arithmetic (fractions): </label>
+					<input
+						id="exact-mode"
+						type="checkbox"
+						checked={exact}
+						onChange={handleExactChange}
 					/>
 				</div>
+				<div id="share-link-control" className="size-control">
+					<button type="button" onClick={handleCopyLink}>
+						{copied ? "Link copied!" : "Copy link"}
+					</button>
+				</div>
 			</div>
 
 			<div className="matrix-section">
@@ -148,6 +281,39 @@ function MatrixInput({
 				<div id="matrix-input-grid">
 					{renderMatrix()}
 				</div>
+				<ExportMenu
+					label="Export matrix"
+					filename="matrix"
+					getText={(format) => formatMatrixText(f_matrix, format)}
+				/>
+				<details id="matrix-import-control" className="matrix-import">
+					<summary>Paste a matrix</summary>
+					<p>
+						JSON <code>[[1, 2], [3, 4]]</code>, CSV/TSV from a spreadsheet,
+						MATLAB <code>[1 2; 3 4]</code>, NumPy{" "}
+						<code>np.array([[1, 2], [3, 4]])</code> or LaTeX{" "}
+						<code>\begin{"{bmatrix}"} 1 &amp; 2 \\ 3 &amp; 4 \end{"{bmatrix}"}</code>
+					</p>
+					<textarea
+						value={importText}
+						onChange={(e) => setImportText(e.target.value)}
+						rows={4}
+						spellCheck={false}
+					/>
+					<button type="button" onClick={handleImport}>
+						Import
+					</button>
+					{importMessage && (
+						<p className={importMessage.error ? "import-error" : ""}>
+							{importMessage.text}
+						</p>
+					)}
+				</details>
+				<ParameterSliders
+					parameters={parameters}
+					values={parameterValues}
+					onChange={handleParametersChange}
+				/>
 			</div>
       </>
 	);
@@ -0,0 +1,56 @@
+import React from "react";
+import "./ParameterSliders.scss";
+import {
+	DEFAULT_PARAMETER_VALUE,
+	type ParameterValues,
+} from "../lib/symbolic";
+
+interface ParameterSlidersProps {
+	// Parameter names used in the matrix entries, e.g. ["a", "t"]
+	parameters: string[];
+	values: ParameterValues;
+	onChange: (values: ParameterValues) => void;
+}
+
+const SLIDER_MIN = -10;
+const SLIDER_MAX = 10;
+const SLIDER_STEP = 0.1;
+
+/**
+ * One slider per parameter, the eigenpairs are recomputed as they move
+ */
+const ParameterSliders: React.FC<ParameterSlidersProps> = ({
+	parameters,
+	values,
+	onChange,
+}) => {
+	if (parameters.length === 0) return null;
+
+	return (
+		<div id="parameter-sliders" className="parameter-sliders card">
+			<h4>Parameters</h4>
+			{parameters.map((name) => {
+				const value = values[name] ?? DEFAULT_PARAMETER_VALUE;
+				return (
+					<div key={name} className="parameter-slider">
+						<label htmlFor={`parameter-${name}`}>{name} =</label>
+						<input
+							id={`parameter-${name}`}
+							type="range"
+							min={SLIDER_MIN}
+							max={SLIDER_MAX}
+							step={SLIDER_STEP}
+							value={value}
+							onChange={(e) =>
+								onChange({ ...values, [name]: parseFloat(e.target.value) })
+							}
+						/>
+						<span className="parameter-value">{value.toFixed(1)}</span>
+					</div>
+				);
+			})}
+		</div>
+	);
+};
+
+export default ParameterSliders;
@@ -0,0 +1,122 @@
+import React from "react";
+import "./PhasePortraitPanel.scss";
+import { formatComplex, isRealValue } from "../lib/complex";
+import { type DynamicsMode, type Equilibrium, type EquilibriumType } from "../lib/math";
+
+export interface PhasePortraitSettings {
+	enabled: boolean;
+	mode: DynamicsMode;
+}
+
+interface PhasePortraitPanelProps {
+	settings: PhasePortraitSettings;
+	onChange: (settings: PhasePortraitSettings) => void;
+	equilibrium: Equilibrium;
+	onClearSeeds: () => void;
+	onResetSeeds: () => void;
+}
+
+const NAMES: Partial<Record<EquilibriumType, string>> = {
+	"non-isolated": "non-isolated equilibrium",
+	"non-hyperbolic": "non-hyperbolic fixed point",
+};
+
+// What the trajectories do near each kind of equilibrium
+const DESCRIPTIONS: Record<EquilibriumType, string> = {
+	saddle:
+		"Trajectories come in along the contracting eigen-direction and leave along the expanding one, only points on the contracting line reach the origin.",
+	node: "Trajectories run along both eigen-directions, bending to become tangent to the slower one near the origin.",
+	"degenerate node":
+		"There is a single eigen-direction and every trajectory turns to become tangent to it.",
+	star: "A = λI: every line through the origin is invariant, trajectories are straight rays.",
+	spiral: "Complex eigenvalues make trajectories wind around the origin while their size changes.",
+	center: "Complex eigenvalues with no growth or decay: trajectories are closed orbits around the origin.",
+	"non-isolated":
+		"det A = 0, so every point of the null space of A is an equilibrium, not only the origin.",
+	"non-hyperbolic":
+		"An eigenvalue has |λ| = 1: points on its eigen-direction neither grow nor shrink from step to step.",
+};
+
+/**
+ * Switches the phase portrait on and explains what the origin is
+ */
+const PhasePortraitPanel: React.FC<PhasePortraitPanelProps> = ({
+	settings,
+	onChange,
+	equilibrium,
+	onClearSeeds,
+	onResetSeeds,
+}) => {
+	const { type, stability, trace, determinant, discriminant, eigenvalues } = equilibrium;
+	const complexPair = !isRealValue(eigenvalues[0]);
+	const name = NAMES[type] ?? type;
+	const summary = stability === "neutral" ? name : `${stability} ${name}`;
+	const moduli = eigenvalues.map((lambda) => Math.hypot(lambda.re, lambda.im).toFixed(3));
+
+	return (
+		<div id="phase-portrait" className="phase-portrait-panel card">
+			<label className="phase-portrait-toggle">
+				<input
+					type="checkbox"
+					checked={settings.enabled}
+					onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+				/>
+				Phase portrait: treat A as a linear dynamical system
+			</label>
+
+			{settings.enabled && (
+				<>
+					<div className="phase-portrait-modes" role="radiogroup">
+						{(
+							[
+								["continuous", "x′ = Ax"],
+								["discrete", "xₖ₊₁ = Axₖ"],
+							] as const
+						).map(([mode, label]) => (
+							<label key={mode}>
+								<input
+									type="radio"
+									name="phase-portrait-mode"
+									checked={settings.mode === mode}
+									onChange={() => onChange({ ...settings, mode })}
+								/>
+								{label}
+							</label>
+						))}
+					</div>
+
+					<div className={`phase-portrait-type ${stability}`}>
+						The origin is {/^[aeiou]/.test(summary) ? "an" : "a"} {summary}
+					</div>
+					<p className="phase-portrait-description">{DESCRIPTIONS[type]}</p>
+
+					<div className="phase-portrait-readout">
+						<div>
+							tr A = {trace.toFixed(3)}, det A = {determinant.toFixed(3)}, tr² − 4 det ={" "}
+							{discriminant.toFixed(3)}
+						</div>
+						<div>
+							λ ={" "}
+							{complexPair
+								? formatComplex(eigenvalues[0], 3, true)
+								: eigenvalues.map((lambda) => formatComplex(lambda, 3)).join(", ")}
+							{settings.mode === "discrete" && ` (|λ| = ${moduli.join(", ")})`}
+						</div>
+					</div>
+
+					<div className="phase-portrait-seeds">
+						<span>Click in the scene to start a trajectory there.</span>
+						<button type="button" onClick={onClearSeeds}>
+							Clear
+						</button>
+						<button type="button" onClick={onResetSeeds}>
+							Reset
+						</button>
+					</div>
+				</>
+			)}
+		</div>
+	);
+};
+
+export default PhasePortraitPanel;
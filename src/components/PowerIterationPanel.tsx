@@ -0,0 +1,209 @@
+import React from "react";
+import "./PowerIterationPanel.scss";
+import { isRealValue } from "../lib/complex";
+import { type Eigenspace, type PowerIterationStep } from "../lib/math";
+import { dominantEigenvalue } from "../lib/powerIteration";
+import { angleBetween, projectOntoSpan } from "../lib/vectorGeometry";
+
+export interface PowerIterationSettings {
+	enabled: boolean;
+	// k, the last power drawn
+	steps: number;
+	// Divide by the length after every step so the iterates stay on screen
+	normalize: boolean;
+}
+
+const MAX_STEPS = 20;
+
+interface PowerIterationPanelProps {
+	settings: PowerIterationSettings;
+	onChange: (settings: PowerIterationSettings) => void;
+	iterates: PowerIterationStep[];
+	// From findEigenvalues, to compare the Rayleigh quotients with
+	eigenspaces: Eigenspace[];
+}
+
+/* ━━━━━━━━━━━━━━━━ Rayleigh Quotient Chart ━━━━━━━━━━━━━━━━ */
+
+const CHART = { width: 320, height: 170, left: 48, right: 12, top: 12, bottom: 28 };
+
+/**
+ * Rayleigh quotient per step, with the real eigenvalues as dashed lines
+ */
+function RayleighChart({
+	values,
+	eigenvalues,
+	dominant,
+}: {
+	values: (number | null)[];
+	eigenvalues: number[];
+	dominant: number | null;
+}) {
+	const known = [...values.filter((value): value is number => value !== null), ...eigenvalues];
+	let low = Math.min(...known);
+	let high = Math.max(...known);
+	if (high - low < 1e-9) {
+		low -= 1;
+		high += 1;
+	}
+	const padding = (high - low) * 0.1;
+	[low, high] = [low - padding, high + padding];
+
+	const x = (step: number) =>
+		CHART.left +
+		(step / Math.max(values.length - 1, 1)) * (CHART.width - CHART.left - CHART.right);
+	const y = (value: number) =>
+		CHART.top + ((high - value) / (high - low)) * (CHART.height - CHART.top - CHART.bottom);
+
+	const points = values.flatMap((value, step) => (value === null ? [] : [[x(step), y(value)]]));
+
+	return (
+		<svg
+			className="rayleigh-chart"
+			viewBox={`0 0 ${CHART.width} ${CHART.height}`}
+			role="img"
+			aria-label="Rayleigh quotient per step of the power iteration"
+		>
+			<line
+				className="chart-axis"
+				x1={CHART.left}
+				y1={CHART.height - CHART.bottom}
+				x2={CHART.width - CHART.right}
+				y2={CHART.height - CHART.bottom}
+			/>
+			<line
+				className="chart-axis"
+				x1={CHART.left}
+				y1={CHART.top}
+				x2={CHART.left}
+				y2={CHART.height - CHART.bottom}
+			/>
+			{eigenvalues.map((lambda) => (
+				<g
+					key={lambda}
+					className={lambda === dominant ? "chart-eigenvalue dominant" : "chart-eigenvalue"}
+				>
+					<line x1={CHART.left} y1={y(lambda)} x2={CHART.width - CHART.right} y2={y(lambda)} />
+					<text x={CHART.left - 4} y={y(lambda)} textAnchor="end" dominantBaseline="middle">
+						λ={lambda.toFixed(2)}
+					</text>
+				</g>
+			))}
+			<polyline className="chart-series" points={points.map((p) => p.join(",")).join(" ")} />
+			{points.map(([cx, cy], index) => (
+				<circle key={index} className="chart-point" cx={cx} cy={cy} r={3} />
+			))}
+			<text
+				className="chart-label"
+				x={(CHART.left + CHART.width - CHART.right) / 2}
+				y={CHART.height - 8}
+				textAnchor="middle"
+			>
+				step j = 0 … {values.length - 1}
+			</text>
+		</svg>
+	);
+}
+
+/* ━━━━━━━━━━━━━━━━ Power Iteration Panel ━━━━━━━━━━━━━━━━ */
+
+/**
+ * Switches the power iteration on, picks k and shows how close Aᵏv gets to
+ * the dominant eigenvector
+ */
+const PowerIterationPanel: React.FC<PowerIterationPanelProps> = ({
+	settings,
+	onChange,
+	iterates,
+	eigenspaces,
+}) => {
+	const dominant = dominantEigenvalue(eigenspaces.map(({ eigenvalue }) => eigenvalue));
+	const dominantSpace = eigenspaces.find(({ eigenvalue }) => eigenvalue === dominant);
+	const last = iterates[iterates.length - 1];
+	const rayleigh = last?.rayleighQuotient ?? null;
+	const angle =
+		last && dominantSpace
+			? angleBetween(last.vector, projectOntoSpan(last.vector, dominantSpace.basis))
+			: null;
+
+	return (
+		<div id="power-iteration" className="power-iteration-panel card">
+			<label className="power-iteration-toggle">
+				<input
+					type="checkbox"
+					checked={settings.enabled}
+					onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+				/>
+				Power iteration: draw v, Av, A²v, … starting from the test vector
+			</label>
+
+			{settings.enabled && (
+				<>
+					<div className="power-iteration-options">
+						<label htmlFor="power-steps">k =</label>
+						<input
+							id="power-steps"
+							type="range"
+							min={1}
+							max={MAX_STEPS}
+							step={1}
+							value={settings.steps}
+							onChange={(e) => onChange({ ...settings, steps: parseInt(e.target.value) })}
+						/>
+						<span className="power-steps-value">{settings.steps}</span>
+						<label>
+							<input
+								type="checkbox"
+								checked={settings.normalize}
+								onChange={(e) => onChange({ ...settings, normalize: e.target.checked })}
+							/>
+							Normalize
+						</label>
+					</div>
+
+					<div className="power-iteration-readout">
+						{dominant ? (
+							<>
+								<div>
+									Dominant eigenvalue (from the characteristic polynomial): λ ={" "}
+									{dominant.value.re.toFixed(4)}
+								</div>
+								{rayleigh !== null && (
+									<div>
+										Rayleigh quotient after {iterates.length - 1} steps:{" "}
+										{rayleigh.toFixed(4)} (off by{" "}
+										{Math.abs(rayleigh - dominant.value.re).toExponential(1)})
+									</div>
+								)}
+								{angle !== null && (
+									<div>Angle between Aᵏv and its eigenspace: {angle.toFixed(2)}°</div>
+								)}
+							</>
+						) : (
+							<div className="power-iteration-warning">
+								A has no single eigenvalue of largest |λ| (a tie like λ and −λ, or a
+								complex pair), so Aᵏv keeps turning instead of settling on one
+								direction.
+							</div>
+						)}
+						{rayleigh === null && last && (
+							<div className="power-iteration-warning">
+								Aʲv reached 0: v lies in the null space of a power of A.
+							</div>
+						)}
+					</div>
+
+					<RayleighChart
+						values={iterates.map(({ rayleighQuotient }) => rayleighQuotient)}
+						eigenvalues={eigenspaces
+							.filter(({ eigenvalue }) => isRealValue(eigenvalue.value))
+							.map(({ eigenvalue }) => eigenvalue.value.re)}
+						dominant={dominant?.value.re ?? null}
+					/>
+				</>
+			)}
+		</div>
+	);
+};
+
+export default PowerIterationPanel;
@@ -0,0 +1,46 @@
+import React from "react";
+import "./RotationScalingInfo.scss";
+import { type RotationScaling } from "../lib/math";
+import { formatNumericMatrixLatex, formatVectorLatex } from "../lib/latexFormatter";
+import MathDisplay from "./util/MathDisplay";
+
+interface RotationScalingInfoProps {
+	planes: RotationScaling[];
+}
+
+/**
+ * Real canonical block of each complex pair, next to the turning arrow in the scene
+ */
+const RotationScalingInfo: React.FC<RotationScalingInfoProps> = ({ planes }) => {
+	if (planes.length === 0) return null;
+
+	return (
+		<div id="rotation-scaling" className="rotation-scaling-info card">
+			<h4>Rotation-scaling</h4>
+			{planes.map(({ a, b, modulus, angle, realPart, imaginaryPart, block }) => {
+				const degrees = ((angle * 180) / Math.PI).toFixed(2);
+				const vectors = `\\operatorname{Re} v = ${formatVectorLatex(realPart)}, \\quad \\operatorname{Im} v = ${formatVectorLatex(imaginaryPart)}`;
+				const rotation = `\\begin{bmatrix} \\cos ${degrees}^\\circ & -\\sin ${degrees}^\\circ \\\\ \\sin ${degrees}^\\circ & \\cos ${degrees}^\\circ \\end{bmatrix}`;
+				return (
+					<div key={`${a}±${b}`} className="rotation-scaling-plane">
+						<p>
+							λ = {a.toFixed(4)} ± {b.toFixed(4)}i has no real eigenvector, but the
+							plane of Re v and Im v is invariant. In that basis A turns vectors by
+							arg(λ) = {degrees}° and scales them by |λ| = {modulus.toFixed(4)}.
+						</p>
+						<MathDisplay block latex={vectors} />
+						<MathDisplay
+							block
+							latex={`C = ${formatNumericMatrixLatex(block)} = ${modulus.toFixed(4)} ${rotation}`}
+						/>
+					</div>
+				);
+			})}
+			<p className="rotation-scaling-hint">
+				Play the morph to watch Re v turn into A Re v along its orbit.
+			</p>
+		</div>
+	);
+};
+
+export default RotationScalingInfo;
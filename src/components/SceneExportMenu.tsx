@@ -0,0 +1,98 @@
+import React, { useState } from "react";
+import "./ExportMenu.scss";
+import "./SceneExportMenu.scss";
+import {
+	GIF_MAX_WIDTH,
+	SCENE_EXPORT_FORMATS,
+	SCENE_RESOLUTIONS,
+	canRecordWebm,
+	type SceneExportFormat,
+	type SceneResolution,
+} from "./util/sceneExport";
+import { logger } from "../lib/logger";
+
+interface SceneExportMenuProps {
+	// SVG only works for the flat 2D scene
+	is2D: boolean;
+	onExport: (format: SceneExportFormat, resolution: SceneResolution) => Promise<Blob>;
+}
+
+/**
+ * Format and resolution pickers for saving the scene as an image or a video
+ */
+const SceneExportMenu: React.FC<SceneExportMenuProps> = ({ is2D, onExport }) => {
+	const [format, setFormat] = useState<SceneExportFormat>("png");
+	const [resolutionIndex, setResolutionIndex] = useState(0);
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const formats = SCENE_EXPORT_FORMATS.filter(
+		(entry) =>
+			(entry.format !== "svg" || is2D) && (entry.format !== "webm" || canRecordWebm())
+	);
+	// The picked format may have gone away with the matrix (SVG for a 3×3)
+	const selected = formats.find((entry) => entry.format === format) ?? formats[0];
+	const animated = selected.format === "webm" || selected.format === "gif";
+
+	const handleExport = async () => {
+		setBusy(true);
+		setError(null);
+		try {
+			const blob = await onExport(selected.format, SCENE_RESOLUTIONS[resolutionIndex]);
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = `eigen-transformation.${selected.extension}`;
+			link.click();
+			URL.revokeObjectURL(url);
+		} catch (exportError) {
+			logger.warn("Couldn't export the scene:", exportError);
+			setError(exportError instanceof Error ? exportError.message : String(exportError));
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	return (
+		<div className="export-menu scene-export-menu">
+			<label>
+				Save scene:{" "}
+				<select
+					value={selected.format}
+					disabled={busy}
+					onChange={(e) => setFormat(e.target.value as SceneExportFormat)}
+				>
+					{formats.map((entry) => (
+						<option key={entry.format} value={entry.format}>
+							{entry.label}
+						</option>
+					))}
+				</select>
+			</label>
+			<select
+				aria-label="Resolution"
+				value={resolutionIndex}
+				disabled={busy}
+				onChange={(e) => setResolutionIndex(Number(e.target.value))}
+			>
+				{SCENE_RESOLUTIONS.map((resolution, index) => (
+					<option key={resolution.label} value={index}>
+						{resolution.label}
+					</option>
+				))}
+			</select>
+			<button type="button" onClick={handleExport} disabled={busy}>
+				{busy ? (animated ? "Recording…" : "Rendering…") : "Download"}
+			</button>
+			{animated && (
+				<p className="scene-export-note">
+					Records the morph from I to A
+					{selected.format === "gif" && `, at most ${GIF_MAX_WIDTH} px wide`}
+				</p>
+			)}
+			{error && <p className="scene-export-error">{error}</p>}
+		</div>
+	);
+};
+
+export default SceneExportMenu;
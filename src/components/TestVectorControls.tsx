@@ -0,0 +1,89 @@
+import React from "react";
+import "./TestVectorControls.scss";
+import { type Eigenvalue } from "../lib/math";
+import { angleBetween } from "../lib/vectorGeometry";
+
+interface TestVectorControlsProps {
+	vector: number[];
+	// Av
+	image: number[];
+	// Set when v lies on a real eigenspace
+	eigenvalue: Eigenvalue | null;
+	// Color of that eigenspace in the scene
+	color: string | null;
+	// 2D scenes also let v be dragged by its tip
+	draggable: boolean;
+	onChange: (vector: number[]) => void;
+}
+
+const COMPONENT_NAMES = ["x", "y", "z"];
+
+const formatVector = (vector: number[]) =>
+	`[${vector.map((x) => x.toFixed(2)).join(", ")}]`;
+
+/**
+ * Inputs for the test vector v and a readout of where A sends it
+ */
+const TestVectorControls: React.FC<TestVectorControlsProps> = ({
+	vector,
+	image,
+	eigenvalue,
+	color,
+	draggable,
+	onChange,
+}) => {
+	const angle = angleBetween(vector, image);
+	const isZero = vector.every((x) => x === 0);
+
+	return (
+		<div id="test-vector" className="test-vector-controls card">
+			<h4>Test vector v</h4>
+			<p className="test-vector-hint">
+				{draggable
+					? "Drag the tip of v in the scene or type its components."
+					: "Type the components of v."}{" "}
+				Av lines up with v only when v is an eigenvector.
+			</p>
+			<div className="test-vector-inputs">
+				{vector.map((x, i) => (
+					<label key={COMPONENT_NAMES[i]}>
+						{COMPONENT_NAMES[i]}
+						<input
+							type="number"
+							step={0.1}
+							// Snapped components can have long decimals
+							value={Math.round(x * 1e4) / 1e4}
+							onChange={(e) => {
+								const value = parseFloat(e.target.value);
+								if (!Number.isFinite(value)) return;
+								onChange(vector.map((old, j) => (j === i ? value : old)));
+							}}
+						/>
+					</label>
+				))}
+			</div>
+			<div className="test-vector-readout">
+				<div>
+					v = {formatVector(vector)}, Av = {formatVector(image)}
+				</div>
+				<div>
+					{isZero
+						? "v = 0 has no direction, move it away from the origin"
+						: angle === null
+							? "Av = 0, A flattens v to the origin"
+							: `Angle between v and Av: ${angle.toFixed(1)}°`}
+				</div>
+				{eigenvalue && !isZero && (
+					<div
+						className="test-vector-eigen"
+						style={{ borderColor: color ?? undefined, color: color ?? undefined }}
+					>
+						v is an eigenvector: Av = {eigenvalue.value.re.toFixed(3)}v
+					</div>
+				)}
+			</div>
+		</div>
+	);
+};
+
+export default TestVectorControls;
@@ -72,7 +72,7 @@ const Tour: React.FC<TourProps> = ({ startTour, onTourComplete }) => {
           },
           {
             element: '#matrix-size-control',
-            intro: "<strong>Step 1: Choose Matrix Dimension</strong><br/>Start here by selecting the size of your matrix. You can create matrices from 1×1 up to 5×5. The size determines both the rows and columns (n×n format).",
+            intro: "<strong>Step 1: Choose Matrix Dimension</strong><br/>Start here by selecting the size of your matrix. You can create matrices from 1×1 up to 12×12. The size determines both the rows and columns (n×n format).",
             position: 'bottom' as const
           },
           {
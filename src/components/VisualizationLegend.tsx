@@ -1,22 +1,98 @@
 import React from "react";
 import "./VisualizationLegend.scss";
 import { type Eigenspace } from "../lib/math";
+import {
+	GRID_SIZE_RANGE,
+	GRID_STEPS,
+	LINE_WIDTH_RANGE,
+	PALETTES,
+	colorToHex,
+	sceneColors,
+	type PaletteName,
+	type SceneColors,
+	type SceneLayer,
+	type SceneLayers,
+	type SceneStyle,
+} from "./util/sceneStyle";
 
 interface TransformationLegendProps {
 	transformationMatrix: number[][];
 	eigenspaces?: Eigenspace[];
+	// Each key item shows or hides its layer of the scene
+	layers: SceneLayers;
+	onLayersChange: (layers: SceneLayers) => void;
+	sceneStyle: SceneStyle;
+	onSceneStyleChange: (style: SceneStyle) => void;
 }
 
+const LAYER_KEYS: { layer: SceneLayer; className: string; description: string }[] = [
+	{
+		layer: "axes",
+		className: "original-axes",
+		description: "Original coordinate axes (thin, darker)",
+	},
+	{
+		layer: "transformedAxes",
+		className: "transformed-axes",
+		description: "Transformed coordinate axes (thick, lighter)",
+	},
+	{ layer: "grid", className: "grid-original", description: "Original grid" },
+	{ layer: "transformedGrid", className: "grid-transformed", description: "Transformed grid" },
+	{
+		layer: "basis",
+		className: "basis-vectors",
+		description: "Elementary basis vectors (arrows with points)",
+	},
+	{
+		layer: "transformedBasis",
+		className: "basis-vectors",
+		description: "Transformed basis vectors Aeᵢ (thick arrows)",
+	},
+	{
+		layer: "eigenspaces",
+		className: "eigenspace-lines",
+		description: "Eigenspaces: lines (1D), planes (2D) or the entire space (3D) through the origin",
+	},
+];
+
+const AXIS_NAMES = ["X", "Y", "Z"];
+
+// Stripes of the key's colors, one per axis (or eigenspace)
+const stripes = (colors: string[]) =>
+	`linear-gradient(45deg, ${colors
+		.map((color, i) => {
+			const [from, to] = [i, i + 1].map((k) => Math.round((k / colors.length) * 100));
+			return `${color} ${from}%, ${color} ${to}%`;
+		})
+		.join(", ")})`;
+
+const keyColors = (layer: SceneLayer, colors: SceneColors, dimension: number) =>
+	layer === "eigenspaces"
+		? colors.eigenspaces
+		: colors[layer].slice(0, dimension).map(colorToHex);
+
 const TransformationLegend: React.FC<TransformationLegendProps> = ({
 	transformationMatrix,
 	eigenspaces = [],
+	layers,
+	onLayersChange,
+	sceneStyle,
+	onSceneStyleChange,
 }) => {
+	const colors = sceneColors(sceneStyle);
+	const dimension = transformationMatrix.length;
+	// Label colors for e₁, e₂, e₃, light text on a tinted background
+	const labelStyle = (axis: number) => ({
+		color: colorToHex(colors.transformedAxes[axis]),
+		backgroundColor: `${colorToHex(colors.basis[axis])}4d`,
+	});
+	const setStyle = (change: Partial<SceneStyle>) =>
+		onSceneStyleChange({ ...sceneStyle, ...change });
 	// Calculate transformed basis vectors
 	let e1_transformed: number[] = [];
 	let e2_transformed: number[] = [];
 	let e3_transformed: number[] = [];
 
-	console.log("Transformation Matrix:", transformationMatrix);
 	if (transformationMatrix.length === 3) {
 		e1_transformed = [
 			transformationMatrix[0][0],
@@ -48,14 +124,14 @@ const TransformationLegend: React.FC<TransformationLegendProps> = ({
 				<div className="legend-section">
 					<h4>Original Elementary Basis Vectors:</h4>
 					<div className="basis-vector-row">
-						<span className="vector-label e1-original">e₁</span>
+						<span className="vector-label e1-original" style={labelStyle(0)}>e₁</span>
 						<span className="vector-value">[1, 0, 0]</span>
 						<span className="vector-description">
 							→ Unit vector along X-axis
 						</span>
 					</div>
 					<div className="basis-vector-row">
-						<span className="vector-label e2-original">e₂</span>
+						<span className="vector-label e2-original" style={labelStyle(1)}>e₂</span>
 						<span className="vector-value">[0, 1, 0]</span>
 						<span className="vector-description">
 							→ Unit vector along Y-axis
@@ -63,7 +139,7 @@ const TransformationLegend: React.FC<TransformationLegendProps> = ({
 					</div>
 					{transformationMatrix.length === 3 && (
 						<div className="basis-vector-row">
-							<span className="vector-label e3-original">e₃</span>
+							<span className="vector-label e3-original" style={labelStyle(2)}>e₃</span>
 							<span className="vector-value">[0, 0, 1]</span>
 							<span className="vector-description">
 								→ Unit vector along Z-axis
@@ -75,18 +151,18 @@ const TransformationLegend: React.FC<TransformationLegendProps> = ({
 				<div className="legend-section">
 					<h4>After Matrix Transformation A:</h4>
 					<div className="basis-vector-row">
-						<span className="vector-label e1-transformed">Ae₁</span>
+						<span className="vector-label e1-transformed" style={labelStyle(0)}>Ae₁</span>
 						<span className="vector-value">{formatVector(e1_transformed)}</span>
 						<span className="vector-description">→ First column of A</span>
 					</div>
 					<div className="basis-vector-row">
-						<span className="vector-label e2-transformed">Ae₂</span>
+						<span className="vector-label e2-transformed" style={labelStyle(1)}>Ae₂</span>
 						<span className="vector-value">{formatVector(e2_transformed)}</span>
 						<span className="vector-description">→ Second column of A</span>
 					</div>
 					{transformationMatrix.length === 3 && (
 						<div className="basis-vector-row">
-							<span className="vector-label e3-transformed">Ae₃</span>
+							<span className="vector-label e3-transformed" style={labelStyle(2)}>Ae₃</span>
 							<span className="vector-value">
 								{formatVector(e3_transformed)}
 							</span>
@@ -97,37 +173,95 @@ const TransformationLegend: React.FC<TransformationLegendProps> = ({
 			</div>
 
 			<div className="legend-section">
-				<h4>Visualization Key:</h4>
+				<h4>Visualization Key (uncheck to hide):</h4>
 				<div className="legend-key">
-					<div className="key-item">
-						<div className="color-box original-axes"></div>
-						<span>Original coordinate axes (thin, darker)</span>
-					</div>
-					<div className="key-item">
-						<div className="color-box transformed-axes"></div>
-						<span>Transformed coordinate axes (thick, lighter)</span>
-					</div>
-					<div className="key-item">
-						<div className="color-box basis-vectors"></div>
-						<span>Elementary basis vectors (arrows with points)</span>
-					</div>
-					
-					{eigenspaces.length > 0 && (
-						<>
-							<div className="key-item">
-								<div className="color-box eigenspace-lines"></div>
-								<span>1D Eigenspaces (lines through origin)</span>
-							</div>
-							<div className="key-item">
-								<div className="color-box eigenspace-planes"></div>
-								<span>2D Eigenspaces (planes through origin)</span>
-							</div>
-							<div className="key-item">
-								<div className="color-box eigenspace-full"></div>
-								<span>3D Eigenspaces (entire space)</span>
-							</div>
-						</>
-					)}
+					{LAYER_KEYS.filter(
+						({ layer }) => layer !== "eigenspaces" || eigenspaces.length > 0
+					).map(({ layer, className, description }) => (
+						<label key={layer} className="key-item">
+							<input
+								type="checkbox"
+								checked={layers[layer]}
+								onChange={(e) =>
+									onLayersChange({ ...layers, [layer]: e.target.checked })
+								}
+							/>
+							<div
+								className={`color-box ${className}`}
+								style={{ background: stripes(keyColors(layer, colors, dimension)) }}
+							></div>
+							<span>{description}</span>
+						</label>
+					))}
+				</div>
+			</div>
+
+			<div className="legend-section">
+				<h4>Style:</h4>
+				<div className="legend-style">
+					<label>
+						Grid size
+						<input
+							type="range"
+							{...GRID_SIZE_RANGE}
+							value={sceneStyle.gridSize}
+							onChange={(e) => setStyle({ gridSize: Number(e.target.value) })}
+						/>
+						<span className="style-value">±{sceneStyle.gridSize / 2}</span>
+					</label>
+					<label>
+						Grid step
+						<select
+							value={sceneStyle.gridStep}
+							onChange={(e) => setStyle({ gridStep: Number(e.target.value) })}
+						>
+							{GRID_STEPS.map((step) => (
+								<option key={step} value={step}>
+									{step}
+								</option>
+							))}
+						</select>
+					</label>
+					<label>
+						Line width
+						<input
+							type="range"
+							{...LINE_WIDTH_RANGE}
+							value={sceneStyle.lineWidth}
+							onChange={(e) => setStyle({ lineWidth: Number(e.target.value) })}
+						/>
+						<span className="style-value">×{sceneStyle.lineWidth}</span>
+					</label>
+					<label>
+						Colors
+						<select
+							value={sceneStyle.palette}
+							onChange={(e) => setStyle({ palette: e.target.value as PaletteName })}
+						>
+							{PALETTES.map(({ palette, label }) => (
+								<option key={palette} value={palette}>
+									{label}
+								</option>
+							))}
+						</select>
+					</label>
+					{sceneStyle.palette === "custom" &&
+						AXIS_NAMES.slice(0, dimension).map((name, axis) => (
+							<label key={name}>
+								{name}
+								<input
+									type="color"
+									value={sceneStyle.customAxes[axis]}
+									onChange={(e) =>
+										setStyle({
+											customAxes: sceneStyle.customAxes.map((color, i) =>
+												i === axis ? e.target.value : color
+											),
+										})
+									}
+								/>
+							</label>
+						))}
 				</div>
 			</div>
 		</div>
@@ -0,0 +1,284 @@
+import * as THREE from "three";
+import { Line2 } from "three/examples/jsm/lines/Line2.js";
+import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2.js";
+import { encodeGif, type GifFrame } from "../../lib/gif";
+
+/* ━━━━━━━━━━━━━━━━ Scene Export ━━━━━━━━━━━━━━━━ */
+// Files of the visualization for slides. Frames are rendered offscreen into a
+// render target at the requested size, the canvas on the page keeps its size
+
+export type SceneExportFormat = "png" | "svg" | "webm" | "gif";
+
+export const SCENE_EXPORT_FORMATS: {
+	format: SceneExportFormat;
+	label: string;
+	extension: string;
+	mimeType: string;
+}[] = [
+	{ format: "png", label: "PNG image", extension: "png", mimeType: "image/png" },
+	{ format: "svg", label: "SVG (2D only)", extension: "svg", mimeType: "image/svg+xml" },
+	{ format: "webm", label: "WebM video", extension: "webm", mimeType: "video/webm" },
+	{ format: "gif", label: "Animated GIF", extension: "gif", mimeType: "image/gif" },
+];
+
+// Width and height left out means the size of the scene on screen
+export type SceneResolution = { label: string; width?: number; height?: number };
+
+export const SCENE_RESOLUTIONS: SceneResolution[] = [
+	{ label: "Screen size" },
+	{ label: "1280 × 720", width: 1280, height: 720 },
+	{ label: "1920 × 1080", width: 1920, height: 1080 },
+	{ label: "3840 × 2160", width: 3840, height: 2160 },
+];
+
+export const VIDEO_FPS = 30;
+// GIFs get big fast, so they are smaller and choppier than the video
+export const GIF_FPS = 15;
+export const GIF_MAX_WIDTH = 640;
+
+/**
+ * Size of the file in pixels, GIFs are scaled down to GIF_MAX_WIDTH
+ */
+export function exportSize(format: SceneExportFormat, width: number, height: number) {
+	const scale = format === "gif" ? Math.min(1, GIF_MAX_WIDTH / width) : 1;
+	return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+export type AnimationOptions = {
+	fps: number;
+	durationMs: number;
+	// The last frame stays on for this long
+	holdMs: number;
+};
+
+// Render targets hold linear colors, the screen gets sRGB
+const LINEAR_TO_SRGB = Uint8Array.from({ length: 256 }, (_, value) => {
+	const linear = value / 255;
+	const srgb = linear <= 0.0031308 ? 12.92 * linear : 1.055 * linear ** (1 / 2.4) - 0.055;
+	return Math.round(srgb * 255);
+});
+
+// The same view as the camera, stretched to the aspect ratio of the file
+function exportCamera(camera: THREE.Camera, width: number, height: number) {
+	const copy = camera.clone();
+	if (copy instanceof THREE.PerspectiveCamera) {
+		copy.aspect = width / height;
+		copy.updateProjectionMatrix();
+	} else if (copy instanceof THREE.OrthographicCamera) {
+		const halfWidth = ((copy.top - copy.bottom) / 2) * (width / height);
+		copy.left = -halfWidth;
+		copy.right = halfWidth;
+		copy.updateProjectionMatrix();
+	}
+	return copy;
+}
+
+/**
+ * Render the scene into a new 2D canvas of width × height
+ */
+export function renderToCanvas(
+	renderer: THREE.WebGLRenderer,
+	scene: THREE.Scene,
+	camera: THREE.Camera,
+	width: number,
+	height: number
+): HTMLCanvasElement {
+	const target = new THREE.WebGLRenderTarget(width, height, { samples: 4 });
+	const previous = renderer.getRenderTarget();
+	renderer.setRenderTarget(target);
+	renderer.render(scene, exportCamera(camera, width, height));
+
+	const pixels = new Uint8Array(width * height * 4);
+	renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+	renderer.setRenderTarget(previous);
+	target.dispose();
+
+	const canvas = document.createElement("canvas");
+	canvas.width = width;
+	canvas.height = height;
+	const context = canvas.getContext("2d")!;
+	const image = context.createImageData(width, height);
+	// WebGL rows start at the bottom
+	const rowLength = width * 4;
+	for (let row = 0; row < height; row++) {
+		const from = (height - 1 - row) * rowLength;
+		for (let i = 0; i < rowLength; i++) {
+			const value = pixels[from + i];
+			image.data[row * rowLength + i] = i % 4 === 3 ? value : LINEAR_TO_SRGB[value];
+		}
+	}
+	context.putImageData(image, 0, 0);
+	return canvas;
+}
+
+/* ━━━━━━━━━━━━━━━━ SVG ━━━━━━━━━━━━━━━━ */
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const hex = (color: THREE.Color | number) =>
+	`#${(typeof color === "number" ? new THREE.Color(color) : color).getHexString()}`;
+
+/**
+ * The lines, points and labels of the scene as vector graphics, projected
+ * with the camera. Meant for the flat 2D scene: there is no depth sorting
+ */
+export function sceneToSvg(
+	scene: THREE.Scene,
+	camera: THREE.Camera,
+	width: number,
+	height: number
+): string {
+	const view = exportCamera(camera, width, height);
+	view.updateMatrixWorld();
+	scene.updateMatrixWorld();
+
+	const project = (point: THREE.Vector3, object: THREE.Object3D) => {
+		const ndc = point.clone().applyMatrix4(object.matrixWorld).project(view);
+		return [round(((ndc.x + 1) / 2) * width), round(((1 - ndc.y) / 2) * height)];
+	};
+	const vertices = (object: THREE.Points) => {
+		const position = object.geometry.getAttribute("position");
+		return Array.from({ length: position.count }, (_, i) =>
+			project(new THREE.Vector3().fromBufferAttribute(position, i), object)
+		);
+	};
+	// Line2 and LineSegments2 keep [start, end] per segment
+	const segments = (object: LineSegments2) => {
+		const start = object.geometry.getAttribute("instanceStart");
+		const end = object.geometry.getAttribute("instanceEnd");
+		return Array.from({ length: start.count }, (_, i) => [
+			project(new THREE.Vector3().fromBufferAttribute(start, i), object),
+			project(new THREE.Vector3().fromBufferAttribute(end, i), object),
+		]);
+	};
+
+	const shapes: string[] = [];
+	const labels: string[] = [];
+
+	scene.traverseVisible((object) => {
+		if (object instanceof LineSegments2) {
+			const { material } = object;
+			const stroke = `stroke="${hex(material.color)}" stroke-opacity="${
+				material.transparent ? material.opacity : 1
+			}" stroke-width="${material.linewidth}"`;
+			const pairs = segments(object);
+
+			if (object instanceof Line2) {
+				const points = [...pairs.map(([start]) => start), pairs[pairs.length - 1][1]];
+				shapes.push(
+					`<polyline points="${points.map((p) => p.join(",")).join(" ")}" fill="none" ${stroke} stroke-linejoin="round" stroke-linecap="round"/>`
+				);
+			} else {
+				pairs.forEach(([[x1, y1], [x2, y2]]) =>
+					shapes.push(`<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" ${stroke}/>`)
+				);
+			}
+		} else if (object instanceof THREE.Points) {
+			const material = object.material as THREE.PointsMaterial;
+			vertices(object).forEach(([cx, cy]) =>
+				shapes.push(
+					`<circle cx="${cx}" cy="${cy}" r="${material.size / 2}" fill="${hex(material.color)}"/>`
+				)
+			);
+		} else if (object instanceof THREE.Sprite && typeof object.userData.text === "string") {
+			const [x, y] = project(new THREE.Vector3(), object);
+			// Labels keep their screen size (sizeAttenuation off): the sprite is
+			// scale.y of the projection tall, the text a quarter of that
+			const fontSize = round(
+				((object.scale.y * view.projectionMatrix.elements[5]) / 2) * height * 0.25
+			);
+			const text = String(object.userData.text)
+				.replace(/&/g, "&amp;")
+				.replace(/</g, "&lt;");
+			labels.push(
+				`<text x="${x}" y="${y}" fill="${hex(object.userData.color)}" font-size="${fontSize}">${text}</text>`
+			);
+		}
+	});
+
+	return [
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+		`<rect width="100%" height="100%" fill="#ffffff"/>`,
+		...shapes,
+		`<g font-family="Arial, sans-serif" font-weight="bold" text-anchor="middle" dominant-baseline="middle" stroke="#ffffff" stroke-width="3" paint-order="stroke">`,
+		...labels,
+		`</g>`,
+		`</svg>`,
+	].join("\n");
+}
+
+/* ━━━━━━━━━━━━━━━━ Animation ━━━━━━━━━━━━━━━━ */
+
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+const webmType = () =>
+	typeof MediaRecorder === "undefined"
+		? undefined
+		: WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+
+/**
+ * MediaRecorder with WebM support and canvas streams are both needed
+ */
+export const canRecordWebm = () =>
+	webmType() !== undefined && "captureStream" in HTMLCanvasElement.prototype;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Render t = 0 … 1 frame by frame with renderFrame and encode it as a WebM
+ * video or a GIF. WebM is recorded in real time, so this takes as long as
+ * the animation
+ */
+export async function recordAnimation(
+	renderFrame: (t: number) => HTMLCanvasElement,
+	format: "webm" | "gif",
+	{ fps, durationMs, holdMs }: AnimationOptions
+): Promise<Blob> {
+	const frameCount = Math.round((durationMs / 1000) * fps) + 1;
+	const holdFrames = Math.round((holdMs / 1000) * fps);
+	const times = [
+		...Array.from({ length: frameCount }, (_, k) => k / (frameCount - 1)),
+		...Array<number>(holdFrames).fill(1),
+	];
+
+	if (format === "gif") {
+		const frames: GifFrame[] = [];
+		for (const t of times) {
+			const canvas = renderFrame(t);
+			const { data } = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height);
+			frames.push({ width: canvas.width, height: canvas.height, data });
+			// Let the page breathe between frames
+			await wait(0);
+		}
+		return new Blob([encodeGif(frames, 1000 / fps)], { type: "image/gif" });
+	}
+
+	const mimeType = webmType();
+	if (!mimeType) throw new Error("This browser can't record WebM video");
+
+	const first = renderFrame(0);
+	const canvas = document.createElement("canvas");
+	canvas.width = first.width;
+	canvas.height = first.height;
+	const context = canvas.getContext("2d")!;
+
+	// Frames are pushed by hand with requestFrame, not sampled by the stream
+	const stream = canvas.captureStream(0);
+	const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+	const recorder = new MediaRecorder(stream, { mimeType });
+	const chunks: Blob[] = [];
+	recorder.ondataavailable = (event) => chunks.push(event.data);
+	const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+
+	recorder.start();
+	for (const t of times) {
+		context.drawImage(t === 0 ? first : renderFrame(t), 0, 0);
+		track.requestFrame();
+		await wait(1000 / fps);
+	}
+	recorder.stop();
+	await stopped;
+	stream.getTracks().forEach((streamTrack) => streamTrack.stop());
+
+	return new Blob(chunks, { type: "video/webm" });
+}
@@ -0,0 +1,129 @@
+/* ━━━━━━━━━━━━━━━━ Scene Style ━━━━━━━━━━━━━━━━ */
+// What the visualization draws and how: the layers toggled from the legend,
+// the extent and spacing of the grid, line widths and the color palette
+
+export type SceneLayer =
+	| "axes"
+	| "grid"
+	| "basis"
+	| "transformedAxes"
+	| "transformedGrid"
+	| "transformedBasis"
+	| "eigenspaces";
+
+export type SceneLayers = Record<SceneLayer, boolean>;
+
+export const DEFAULT_LAYERS: SceneLayers = {
+	axes: true,
+	grid: true,
+	basis: true,
+	transformedAxes: true,
+	// Off on Android phones, where it slows the scene down
+	transformedGrid: !/Android/i.test(navigator.userAgent),
+	transformedBasis: true,
+	eigenspaces: true,
+};
+
+export type PaletteName = "standard" | "colorblind" | "custom";
+
+export const PALETTES: { palette: PaletteName; label: string }[] = [
+	{ palette: "standard", label: "Standard (red, green, blue)" },
+	{ palette: "colorblind", label: "Colorblind-safe (Okabe–Ito)" },
+	{ palette: "custom", label: "Custom" },
+];
+
+// Colors of X, Y and Z in each role. Grids are per plane: XY, XZ, YZ
+export type SceneColors = {
+	axes: number[];
+	grid: number[];
+	basis: number[];
+	transformedAxes: number[];
+	transformedGrid: number[];
+	transformedBasis: number[];
+	// As "#rrggbb", the panels next to the scene use them too
+	eigenspaces: string[];
+};
+
+export type SceneStyle = {
+	// The grid goes from -gridSize/2 to gridSize/2, and so do the axes
+	gridSize: number;
+	gridStep: number;
+	// Multiplies every line width and point size
+	lineWidth: number;
+	palette: PaletteName;
+	// X, Y and Z of the custom palette, as "#rrggbb"
+	customAxes: string[];
+};
+
+export const GRID_SIZE_RANGE = { min: 2, max: 20, step: 2 };
+export const GRID_STEPS = [0.5, 1, 2];
+export const LINE_WIDTH_RANGE = { min: 0.5, max: 3, step: 0.25 };
+
+const STANDARD: SceneColors = {
+	axes: [0xff0000, 0x00ff00, 0x0000ff],
+	grid: [0xff0000, 0x00ff00, 0x0000ff],
+	basis: [0xcc0000, 0x00cc00, 0x0000cc],
+	transformedAxes: [0xff6666, 0x66ff66, 0x6666ff],
+	transformedGrid: [0xff9999, 0x99ff99, 0x9999ff],
+	transformedBasis: [0xff4444, 0x44ab44, 0x4444ff],
+	eigenspaces: ["#af00af", "#00afaf", "#afaf00", "#ff8000", "#8000ff"],
+};
+
+// Blend each channel toward target (0 keeps the color, 1 gives target)
+const mix = (color: number, target: number, amount: number) =>
+	[16, 8, 0].reduce((hex, shift) => {
+		const from = (color >> shift) & 0xff;
+		const to = (target >> shift) & 0xff;
+		return hex | (Math.round(from + (to - from) * amount) << shift);
+	}, 0);
+
+/**
+ * Every role from the three axis colors, shaded the way the standard palette is
+ */
+function paletteFromAxes(axes: number[], eigenspaces: string[]): SceneColors {
+	const shade = (target: number, amount: number) =>
+		axes.map((color) => mix(color, target, amount));
+	return {
+		axes,
+		grid: axes,
+		basis: shade(0x000000, 0.2),
+		transformedAxes: shade(0xffffff, 0.4),
+		transformedGrid: shade(0xffffff, 0.6),
+		transformedBasis: shade(0xffffff, 0.27),
+		eigenspaces,
+	};
+}
+
+// Vermillion, bluish green and blue for the axes, the eigenspaces get the
+// rest of the Okabe–Ito colors (yellow last, it is faint on white)
+const COLORBLIND = paletteFromAxes(
+	[0xd55e00, 0x009e73, 0x0072b2],
+	["#cc79a7", "#e69f00", "#56b4e9", "#000000", "#f0e442"]
+);
+
+export const colorToHex = (color: number) => `#${color.toString(16).padStart(6, "0")}`;
+
+export const DEFAULT_SCENE_STYLE: SceneStyle = {
+	gridSize: 10,
+	gridStep: 1,
+	lineWidth: 1,
+	palette: "standard",
+	customAxes: STANDARD.axes.map(colorToHex),
+};
+
+/**
+ * The colors the scene and the legend draw with
+ */
+export function sceneColors(style: SceneStyle): SceneColors {
+	switch (style.palette) {
+		case "standard":
+			return STANDARD;
+		case "colorblind":
+			return COLORBLIND;
+		case "custom":
+			return paletteFromAxes(
+				style.customAxes.map((hex) => parseInt(hex.slice(1), 16)),
+				STANDARD.eigenspaces
+			);
+	}
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+	CAMERA_DISTANCE,
+	MAX_SAVED_VIEWS,
+	cameraViewKey,
+	loadCameraView,
+	lookDownView,
+	presetCameraView,
+	saveCameraView,
+} from "./cameraViews";
+
+// localStorage stand-in, vitest runs in Node
+function memoryStorage(): Storage {
+	const items = new Map<string, string>();
+	return {
+		get length() {
+			return items.size;
+		},
+		clear: () => items.clear(),
+		key: (index) => [...items.keys()][index] ?? null,
+		getItem: (key) => items.get(key) ?? null,
+		setItem: (key, value) => void items.set(key, value),
+		removeItem: (key) => void items.delete(key),
+	};
+}
+
+const direction = fc
+	.array(fc.double({ min: -10, max: 10, noNaN: true }), { minLength: 3, maxLength: 3 })
+	.filter((v) => Math.hypot(...v) > 1e-3);
+
+describe("lookDownView", () => {
+	it("puts the camera on the line through the direction, at the distance", () => {
+		fc.assert(
+			fc.property(direction, (v) => {
+				const { position, target } = lookDownView(v, 10);
+				expect(target).toEqual([0, 0, 0]);
+				expect(Math.hypot(...position)).toBeCloseTo(10, 1);
+				// Parallel to v and on the same side
+				const cosine =
+					position.reduce((sum, x, i) => sum + x * v[i], 0) / (10 * Math.hypot(...v));
+				expect(cosine).toBeGreaterThan(0.9999);
+			})
+		);
+	});
+
+	it("tilts off the Z axis so the orbit controls keep an up direction", () => {
+		const { position } = presetCameraView("top");
+		expect(position[0]).toBe(0);
+		expect(position[1]).toBeLessThan(0);
+		expect(position[2]).toBeCloseTo(CAMERA_DISTANCE);
+	});
+
+	it("places the presets around the origin", () => {
+		expect(presetCameraView("front", 5).position).toEqual([0, -5, 0]);
+		expect(presetCameraView("side", 5).position).toEqual([5, 0, 0]);
+		const [x, y, z] = presetCameraView("isometric", 5).position;
+		expect(x).toBeCloseTo(y);
+		expect(y).toBeCloseTo(z);
+	});
+});
+
+describe("saved views", () => {
+	const view = { position: [1, 2, 3], target: [0, 0, 1] };
+
+	it("keeps a view per matrix", () => {
+		const storage = memoryStorage();
+		const a = cameraViewKey([[1, 2], [3, 4]]);
+		const b = cameraViewKey([[1, 0], [0, 1]]);
+		saveCameraView(storage, a, view);
+		expect(loadCameraView(storage, a)).toEqual(view);
+		expect(loadCameraView(storage, b)).toBeUndefined();
+
+		saveCameraView(storage, a, { ...view, target: [1, 1, 1] });
+		expect(loadCameraView(storage, a)?.target).toEqual([1, 1, 1]);
+	});
+
+	it("forgets the oldest matrices first", () => {
+		const storage = memoryStorage();
+		for (let k = 0; k <= MAX_SAVED_VIEWS; k++) {
+			saveCameraView(storage, cameraViewKey([[k]]), view);
+		}
+		expect(loadCameraView(storage, cameraViewKey([[0]]))).toBeUndefined();
+		expect(loadCameraView(storage, cameraViewKey([[1]]))).toEqual(view);
+		expect(loadCameraView(storage, cameraViewKey([[MAX_SAVED_VIEWS]]))).toEqual(view);
+	});
+
+	it("ignores whatever else is in storage", () => {
+		const storage = memoryStorage();
+		storage.setItem("eigen_camera_views", "not json");
+		expect(loadCameraView(storage, "[[1]]")).toBeUndefined();
+		storage.setItem("eigen_camera_views", JSON.stringify([["[[1]]", { position: [1] }]]));
+		expect(loadCameraView(storage, "[[1]]")).toBeUndefined();
+	});
+
+	it("survives a storage that refuses to save", () => {
+		const storage = memoryStorage();
+		storage.setItem = () => {
+			throw new Error("QuotaExceededError");
+		};
+		expect(() => saveCameraView(storage, "[[1]]", view)).not.toThrow();
+	});
+});
@@ -0,0 +1,126 @@
+import type { Matrix } from "./math";
+
+/* ━━━━━━━━━━━━━━━━ Camera Views ━━━━━━━━━━━━━━━━ */
+// Where the camera of the visualization sits: preset views, looking down an
+// eigenvector, and the last view of each matrix kept in localStorage.
+// Z is up in 3D, the orbit controls turn around it
+
+export type CameraProjection = "perspective" | "orthographic";
+
+export type CameraPreset = "top" | "front" | "side" | "isometric";
+
+// The orthographic camera shows what the perspective one would from `position`
+export type CameraView = {
+	position: number[];
+	target: number[];
+};
+
+export const CAMERA_PRESETS: { preset: CameraPreset; label: string }[] = [
+	{ preset: "top", label: "Top" },
+	{ preset: "front", label: "Front" },
+	{ preset: "side", label: "Side" },
+	{ preset: "isometric", label: "Isometric" },
+];
+
+const DEFAULT_VIEW_2D: CameraView = { position: [0, 0, 8], target: [0, 0, 0] };
+const DEFAULT_VIEW_3D: CameraView = { position: [8, 8, 10], target: [0, 0, 0] };
+
+// Distance of the default 3D view, the presets keep it
+export const CAMERA_DISTANCE = Math.hypot(...DEFAULT_VIEW_3D.position);
+
+const STORAGE_KEY = "eigen_camera_views";
+// Oldest views are dropped past this many matrices
+export const MAX_SAVED_VIEWS = 20;
+
+/**
+ * The view the scene opens on
+ */
+export function defaultCameraView(is2D: boolean): CameraView {
+	const view = is2D ? DEFAULT_VIEW_2D : DEFAULT_VIEW_3D;
+	return { position: [...view.position], target: [...view.target] };
+}
+
+/**
+ * Camera on the line through the origin along direction, looking back at it.
+ * Straight down the Z axis the orbit controls would have no "up", so the
+ * camera is tilted a hair toward -Y, which keeps Y pointing up on screen
+ */
+export function lookDownView(direction: number[], distance = CAMERA_DISTANCE): CameraView {
+	const length = Math.hypot(...direction);
+	if (length < 1e-12) return defaultCameraView(false);
+
+	const [x, y, z] = [0, 1, 2].map((i) => (direction[i] ?? 0) / length);
+	const tilt = Math.abs(z) > 0.9999 ? 1e-3 : 0;
+	return {
+		position: [x * distance, (y - tilt) * distance, z * distance],
+		target: [0, 0, 0],
+	};
+}
+
+/**
+ * Front looks along +Y, side along -X
+ */
+export function presetCameraView(preset: CameraPreset, distance = CAMERA_DISTANCE): CameraView {
+	switch (preset) {
+		case "top":
+			return lookDownView([0, 0, 1], distance);
+		case "front":
+			return lookDownView([0, -1, 0], distance);
+		case "side":
+			return lookDownView([1, 0, 0], distance);
+		case "isometric":
+			return lookDownView([1, 1, 1], distance);
+	}
+}
+
+/* ━━━━━━━━━━━━━━━━ Saved Views ━━━━━━━━━━━━━━━━ */
+
+/**
+ * Views are saved per matrix, under its entries
+ */
+export const cameraViewKey = (matrix: Matrix) => JSON.stringify(matrix);
+
+const isView = (value: unknown): value is CameraView => {
+	const view = value as CameraView;
+	const isPoint = (point: unknown) =>
+		Array.isArray(point) &&
+		point.length === 3 &&
+		point.every((x) => typeof x === "number" && Number.isFinite(x));
+	return (
+		typeof view === "object" && view !== null && isPoint(view.position) && isPoint(view.target)
+	);
+};
+
+// Storage can be full, disabled (private browsing) or hold someone else's JSON
+function readViews(storage: Storage): [string, CameraView][] {
+	try {
+		const entries: unknown = JSON.parse(storage.getItem(STORAGE_KEY) ?? "[]");
+		if (!Array.isArray(entries)) return [];
+		return entries.filter(
+			(entry): entry is [string, CameraView] =>
+				Array.isArray(entry) && typeof entry[0] === "string" && isView(entry[1])
+		);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Last view saved for the matrix, undefined when there is none
+ */
+export function loadCameraView(storage: Storage, key: string): CameraView | undefined {
+	return readViews(storage).find(([savedKey]) => savedKey === key)?.[1];
+}
+
+/**
+ * Save the view for the matrix, as the most recent one
+ */
+export function saveCameraView(storage: Storage, key: string, view: CameraView) {
+	const views = readViews(storage).filter(([savedKey]) => savedKey !== key);
+	views.push([key, view]);
+	try {
+		storage.setItem(STORAGE_KEY, JSON.stringify(views.slice(-MAX_SAVED_VIEWS)));
+	} catch {
+		// Not being able to remember the camera is no reason to break the scene
+	}
+}
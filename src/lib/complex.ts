@@ -0,0 +1,76 @@
+import type { Complex } from "./math";
+
+/* ━━━━━━━━━━━━━━━ Complex Arithmetic ━━━━━━━━━━━━━━━ */
+// Plain { re, im } objects are used instead of mathjs Complex so results stay
+// serializable and cheap to create inside the solver loops
+
+export function complex(re: number, im: number = 0): Complex {
+	return { re, im };
+}
+
+export function addComplex(a: Complex, b: Complex): Complex {
+	return { re: a.re + b.re, im: a.im + b.im };
+}
+
+export function subtractComplex(a: Complex, b: Complex): Complex {
+	return { re: a.re - b.re, im: a.im - b.im };
+}
+
+export function multiplyComplex(a: Complex, b: Complex): Complex {
+	return {
+		re: a.re * b.re - a.im * b.im,
+		im: a.re * b.im + a.im * b.re,
+	};
+}
+
+export function divideComplex(a: Complex, b: Complex): Complex {
+	const denominator = b.re * b.re + b.im * b.im;
+	return {
+		re: (a.re * b.re + a.im * b.im) / denominator,
+		im: (a.im * b.re - a.re * b.im) / denominator,
+	};
+}
+
+export function complexAbs(z: Complex): number {
+	return Math.hypot(z.re, z.im);
+}
+
+export function conjugate(z: Complex): Complex {
+	return { re: z.re, im: -z.im };
+}
+
+/**
+ * Check if a complex number lies on the real axis (within tolerance)
+ */
+export function isRealValue(z: Complex, tolerance: number = 0): boolean {
+	return Math.abs(z.im) <= tolerance;
+}
+
+/**
+ * Order complex numbers by real part, then by imaginary part
+ * so conjugate pairs end up next to each other (a + bi before a - bi)
+ */
+export function compareComplex(a: Complex, b: Complex): number {
+	if (Math.abs(a.re - b.re) > 1e-12) return a.re - b.re;
+	return b.im - a.im;
+}
+
+/**
+ * Format complex number as "a + bi" (or just "a" when it is real)
+ * With conjugatePair set it formats both halves of the pair as "a ± bi"
+ */
+export function formatComplex(
+	z: Complex,
+	digits: number = 4,
+	conjugatePair: boolean = false
+): string {
+	const re = z.re.toFixed(digits);
+	if (isRealValue(z)) return re;
+
+	const im = `${Math.abs(z.im).toFixed(digits)}i`;
+	const sign = conjugatePair ? "±" : z.im < 0 ? "-" : "+";
+	if (Math.abs(z.re) < 10 ** -digits) {
+		return conjugatePair ? `${sign}${im}` : z.im < 0 ? `-${im}` : im;
+	}
+	return `${re} ${sign} ${im}`;
+}
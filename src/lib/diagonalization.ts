@@ -0,0 +1,124 @@
+import type {
+	Diagonalization,
+	Eigenspace,
+	Matrix,
+	MatrixWString,
+	RowReductionStep,
+} from "./math";
+import { isRealValue } from "./complex";
+import { multiplyMatrices, rref } from "./matrixOperations";
+
+/* ━━━━━━━━━━━━━━━━ Diagonalization ━━━━━━━━━━━━━━━━ */
+// A = PDP⁻¹ where the columns of P are the eigenspace bases and D holds the
+// matching eigenvalues. Works as long as the bases add up to n vectors
+
+/**
+ * Build P and D from the eigenspaces, invert P by row reducing [P | I]
+ * and check PDP⁻¹ = A
+ */
+export function diagonalize(
+	matrix: Matrix,
+	eigenspaces: Eigenspace[]
+): Diagonalization {
+	const n = matrix.length;
+
+	if (eigenspaces.some((eigenspace) => !isRealValue(eigenspace.eigenvalue.value))) {
+		return {
+			diagonalizable: false,
+			reason:
+				"A has non-real eigenvalues, so it can't be diagonalized with a real matrix P. Over the complex numbers the eigenvectors come in conjugate pairs instead.",
+		};
+	}
+
+	const found = eigenspaces.reduce(
+		(sum, eigenspace) => sum + eigenspace.eigenvalue.multiplicity,
+		0
+	);
+	if (found !== n) {
+		return {
+			diagonalizable: false,
+			reason: `Only ${found} of the ${n} eigenvalues (counted with multiplicity) were found, so P can't be completed.`,
+		};
+	}
+
+	const defective = eigenspaces.filter(
+		(eigenspace) => eigenspace.basis.length < eigenspace.eigenvalue.multiplicity
+	);
+	if (defective.length > 0) {
+		const columns = eigenspaces.reduce(
+			(sum, eigenspace) => sum + eigenspace.basis.length,
+			0
+		);
+		const details = defective
+			.map(
+				({ eigenvalue, basis }) =>
+					`λ = ${
+						eigenvalue.exact ?? parseFloat(eigenvalue.value.re.toFixed(4))
+					} has multiplicity ${eigenvalue.multiplicity} but dim E = ${basis.length}`
+			)
+			.join("; ");
+		return {
+			diagonalizable: false,
+			reason: `The eigenspaces only give ${columns} linearly independent ${columns === 1 ? "eigenvector" : "eigenvectors"} but P needs ${n} (${details}).`,
+		};
+	}
+
+	// Column j of P is an eigenvector for D[j][j]
+	const columns = eigenspaces.flatMap((eigenspace) =>
+		eigenspace.basis.map((vector) => ({
+			vector,
+			eigenvalue: eigenspace.eigenvalue.value.re,
+		}))
+	);
+	const P = matrix.map((_, i) => columns.map(({ vector }) => vector[i]));
+	const D = columns.map((_, i) =>
+		columns.map(({ eigenvalue }, j) => (i === j ? eigenvalue : 0))
+	);
+
+	// Row reduce [P | I] to [I | P⁻¹], keeping the row operations
+	const augmented: Matrix = P.map((row, i) => [
+		...row,
+		...row.map((_, j) => (i === j ? 1 : 0)),
+	]);
+	const reduction: RowReductionStep[] = [];
+	const reduced = rref(augmented, reduction) as Matrix;
+
+	const isIdentity = reduced.every((row, i) =>
+		row.slice(0, n).every((value, j) => Math.abs(value - (i === j ? 1 : 0)) < 1e-9)
+	);
+	if (!isIdentity) {
+		return {
+			diagonalizable: false,
+			reason: "The eigenvectors in P are not linearly independent (numerically), so P is not invertible.",
+		};
+	}
+	const PInverse = reduced.map((row) => row.slice(n));
+
+	const PDPInverse = multiplyMatrices(multiplyMatrices(P, D), PInverse);
+	const residual = Math.max(
+		...PDPInverse.flatMap((row, i) =>
+			row.map((value, j) => Math.abs(value - matrix[i][j]))
+		)
+	);
+
+	return {
+		diagonalizable: true,
+		P,
+		D,
+		PInverse,
+		start: augmented,
+		reduction,
+		residual,
+	};
+}
+
+/**
+ * D for display, the diagonal holds the exact eigenvalues ("1/3") where exact
+ * mode found them, in the same column order as diagonalize
+ */
+export function displayDiagonal(D: Matrix, eigenspaces: Eigenspace[]): MatrixWString {
+	const exact = eigenspaces.flatMap((eigenspace) =>
+		eigenspace.basis.map(() => eigenspace.eigenvalue.exact)
+	);
+	return D.map((row, i) => row.map((value, j) => (i === j ? (exact[i] ?? value) : value)));
+}
@@ -0,0 +1,314 @@
+import { describe, expect, it, vi } from "vitest";
+import fc from "fast-check";
+import { findEigenvalues, type EigenResult } from "./eigenStuffFinder";
+import { calculateDeterminant, calculateTraceManual } from "./matrixOperations";
+import type { Complex } from "./math";
+import { setLogger } from "./logger";
+import { InvalidInputError, UnsupportedSizeError } from "./errors";
+
+const squareMatrix = (maxSize: number) =>
+	fc.integer({ min: 1, max: maxSize }).chain((n) =>
+		fc.array(fc.array(fc.integer({ min: -4, max: 4 }), { minLength: n, maxLength: n }), {
+			minLength: n,
+			maxLength: n,
+		})
+	);
+
+function multiply(a: Complex, b: Complex): Complex {
+	return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+}
+
+function norm(vector: Complex[]): number {
+	return Math.sqrt(vector.reduce((sum, z) => sum + z.re ** 2 + z.im ** 2, 0));
+}
+
+/**
+ * |Av - λv| relative to |A||v| for every basis vector of every eigenspace
+ */
+function largestResidual(matrix: number[][], result: EigenResult): number {
+	const matrixNorm = Math.max(1, Math.hypot(...matrix.flat()));
+	let largest = 0;
+	for (const eigenspace of result.eigenspaces) {
+		const lambda = eigenspace.eigenvalue.value;
+		const vectors =
+			eigenspace.complexBasis ??
+			eigenspace.basis.map((vector) => vector.map((re) => ({ re, im: 0 })));
+		for (const vector of vectors) {
+			const residual = matrix.map((row, i) => {
+				const lambdaV = multiply(lambda, vector[i]);
+				return row.reduce(
+					(sum, value, j) => ({
+						re: sum.re + value * vector[j].re,
+						im: sum.im + value * vector[j].im,
+					}),
+					{ re: -lambdaV.re, im: -lambdaV.im }
+				);
+			});
+			largest = Math.max(largest, norm(residual) / (matrixNorm * norm(vector)));
+		}
+	}
+	return largest;
+}
+
+describe("findEigenvalues", () => {
+	it("solves a triangular matrix with a defective eigenvalue", () => {
+		const result = findEigenvalues([
+			[3, 1, 0],
+			[0, 3, 1],
+			[0, 0, 3],
+		]);
+		expect(result.eigenvalues).toHaveLength(1);
+		expect(result.eigenvalues[0].value.re).toBeCloseTo(3, 10);
+		expect(result.eigenvalues[0].multiplicity).toBe(3);
+		expect(result.eigenspaces[0].basis).toHaveLength(1);
+		expect(result.diagonalization).toMatchObject({
+			diagonalizable: false,
+			reason: expect.stringContaining("only give 1 linearly independent eigenvector but"),
+		});
+		expect(result.jordanForm?.J).toEqual([
+			[3, 1, 0],
+			[0, 3, 1],
+			[0, 0, 3],
+		]);
+	});
+
+	it("diagonalizes a symmetric matrix", () => {
+		const result = findEigenvalues([
+			[2, 1],
+			[1, 2],
+		]);
+		expect(result.eigenvalues.map(({ value }) => value.re)).toEqual([1, 3]);
+		expect(result.diagonalization.diagonalizable).toBe(true);
+	});
+
+	it("returns conjugate eigenvectors for a rotation", () => {
+		const result = findEigenvalues([
+			[0, -1],
+			[1, 0],
+		]);
+		expect(result.isReal).toBe(false);
+		expect(result.eigenspaces.every((eigenspace) => eigenspace.complexBasis)).toBe(true);
+	});
+
+	it("finds exact rational eigenvalues and eigenvectors in exact mode", () => {
+		const result = findEigenvalues(
+			[
+				[1 / 2, 1 / 3],
+				[0, 1 / 3],
+			],
+			{
+				exact: true,
+				entries: [
+					["1/2", "1/3"],
+					["0", "1/3"],
+				],
+			}
+		);
+		expect(result.eigenvalues.map(({ exact }) => exact)).toEqual(["1/3", "1/2"]);
+		expect(result.eigenspaces[0].exactBasis).toEqual([["-2", "1"]]);
+	});
+
+	it("rejects matrices that are not square", () => {
+		expect(() => findEigenvalues([[1, 2]])).toThrow("square");
+		expect(() => findEigenvalues([[1, 2]])).toThrow(InvalidInputError);
+	});
+
+	it("throws typed errors for entries and sizes it can't handle", () => {
+		expect(() => findEigenvalues([[NaN]])).toThrow(InvalidInputError);
+		const big = Array.from({ length: 13 }, (_, i) =>
+			Array.from({ length: 13 }, (_, j) => (i === j ? 1 : 0))
+		);
+		expect(() => findEigenvalues(big)).toThrow(UnsupportedSizeError);
+	});
+
+	it("handles entries that print in exponent notation", () => {
+		for (const matrix of [
+			[
+				[1e-9, 1],
+				[0, 2],
+			],
+			[
+				[0.0000001, 2],
+				[1, 1],
+			],
+		]) {
+			const result = findEigenvalues(matrix);
+			expect(result.characteristicPolynomial).not.toMatch(/NaN|e-/);
+			expect(result.eigenvalues.at(-1)?.value.re).toBeCloseTo(2, 6);
+			expect(largestResidual(matrix, result)).toBeLessThan(1e-6);
+		}
+	});
+
+	it("gives the same eigenvalues with root finding and with QR", () => {
+		const matrix = [
+			[2, 0, 0],
+			[1, 3, 0],
+			[4, 5, 6],
+		];
+		for (const method of ["roots", "qr"] as const) {
+			const { eigenvalues, qrStatus } = findEigenvalues(matrix, { method });
+			expect(eigenvalues.map(({ value }) => value.re)).toEqual([2, 3, 6]);
+			expect(qrStatus !== undefined).toBe(method === "qr");
+		}
+	});
+
+	it("keeps close eigenvalues of a diagonal matrix apart", () => {
+		const cases: [number[][], "roots" | "qr"][] = [
+			[
+				[
+					[1, 0, 0],
+					[0, 1.00001, 0],
+					[0, 0, 3],
+				],
+				"roots",
+			],
+			[
+				[
+					[1, 0, 0, 0],
+					[0, 1.0001, 0, 0],
+					[0, 0, 3, 0],
+					[0, 0, 0, 4],
+				],
+				"qr",
+			],
+			[
+				[
+					[1, 0, 0, 0],
+					[0, 1.00001, 0, 0],
+					[0, 0, 3, 0],
+					[0, 0, 0, 4],
+				],
+				"qr",
+			],
+		];
+		for (const [matrix, method] of cases) {
+			const result = findEigenvalues(matrix, { method });
+			expect(result.eigenvalues).toHaveLength(matrix.length);
+			result.eigenvalues.forEach(({ value }, i) =>
+				expect(value.re).toBeCloseTo(matrix[i][i], 8)
+			);
+			expect(result.diagonalization.diagonalizable).toBe(true);
+			expect(result.diagnostics.warnings).toEqual([]);
+		}
+	});
+
+	it("tells a Jordan block from a close eigenvalue next to it", () => {
+		const result = findEigenvalues(
+			[
+				[1, 1, 0, 0],
+				[0, 1.000001, 0, 0],
+				[0, 0, 3, 0],
+				[0, 0, 0, 4],
+			],
+			{ method: "qr" }
+		);
+		expect(result.eigenvalues.map(({ multiplicity }) => multiplicity)).toEqual([1, 1, 1, 1]);
+		expect(result.diagonalization.diagonalizable).toBe(true);
+
+		const defective = findEigenvalues(
+			[
+				[1, 1, 0, 0],
+				[0, 1, 0, 0],
+				[0, 0, 1.0001, 0],
+				[0, 0, 0, 4],
+			],
+			{ method: "qr" }
+		);
+		expect(
+			defective.eigenvalues.map(({ value, multiplicity }) => [value.re, multiplicity])
+		).toEqual([
+			[1, 2],
+			[1.0001, 1],
+			[4, 1],
+		]);
+		expect(defective.diagnostics.warnings).toEqual([]);
+	});
+
+	it("reports the method, the validation determinants and the residuals", () => {
+		const { diagnostics } = findEigenvalues([
+			[4, 1],
+			[2, 3],
+		]);
+		expect(diagnostics.method).toBe("roots");
+		expect(diagnostics.eigenvalueChecks.map(({ accepted }) => accepted)).toEqual([
+			true,
+			true,
+		]);
+		expect(diagnostics.residuals).toHaveLength(2);
+		diagnostics.residuals.forEach(({ residual }) => expect(residual).toBeLessThan(1e-12));
+		expect(diagnostics.warnings).toEqual([]);
+	});
+
+	it("warns when repeated eigenvalues are only accurate to √ε", () => {
+		const { diagnostics } = findEigenvalues([
+			[1.5, 1],
+			[0, 1.5],
+		]);
+		expect(diagnostics.warnings).toHaveLength(1);
+		expect(diagnostics.warnings[0]).toContain("Repeated eigenvalues");
+	});
+
+	it("rejects a tolerance that isn't positive", () => {
+		expect(() => findEigenvalues([[1]], { tolerance: 0 })).toThrow("Tolerance");
+	});
+
+	it("only logs through the logger that was plugged in", () => {
+		const debug = vi.fn();
+		const consoleLog = vi.spyOn(console, "log");
+		try {
+			findEigenvalues([[1]]);
+			expect(consoleLog).not.toHaveBeenCalled();
+
+			setLogger({ debug, warn: vi.fn(), error: vi.fn() });
+			findEigenvalues([[1]]);
+			expect(debug).toHaveBeenCalled();
+		} finally {
+			setLogger(null);
+			consoleLog.mockRestore();
+		}
+	});
+
+	it(
+		"returns eigenpairs with Av = λv",
+		() => {
+			fc.assert(
+				fc.property(squareMatrix(4), (matrix) => {
+					const result = findEigenvalues(matrix);
+					expect(largestResidual(matrix, result)).toBeLessThan(1e-6);
+				}),
+				{ numRuns: 60 }
+			);
+		},
+		60_000
+	);
+
+	it(
+		"has eigenvalues that sum to the trace and multiply to the determinant",
+		() => {
+			fc.assert(
+				fc.property(squareMatrix(4), (matrix) => {
+					const { eigenvalues } = findEigenvalues(matrix);
+					const n = matrix.length;
+					expect(eigenvalues.reduce((sum, ev) => sum + ev.multiplicity, 0)).toBe(n);
+
+					let sum = 0;
+					let product: Complex = { re: 1, im: 0 };
+					for (const { value, multiplicity } of eigenvalues) {
+						for (let k = 0; k < multiplicity; k++) {
+							sum += value.re;
+							product = multiply(product, value);
+						}
+					}
+					const determinant = calculateDeterminant(matrix);
+					// Repeated eigenvalues are only accurate to about √ε
+					expect(Math.abs(sum - calculateTraceManual(matrix))).toBeLessThan(1e-4 * n);
+					expect(Math.abs(product.re - determinant)).toBeLessThan(
+						1e-4 * Math.max(1, Math.abs(determinant))
+					);
+				}),
+				{ numRuns: 60 }
+			);
+		},
+		60_000
+	);
+});
@@ -1,24 +1,84 @@
 import {
 	calculateTraceManual,
+	characteristicPolynomialCoefficients,
+	findComplexNullSpace,
+	findComplexNullVector,
 	findNullSpace,
+	getPivotColumns,
 	isTriangularMatrix,
 } from "./matrixOperations";
 import { solveRealRoots, validateEigenvalues } from "./solver/usingRealRoots";
-import { findEigenvaluesByDiagonalization } from "./solver/usingDiagonalization";
+import {
+	findEigenvaluesByDiagonalization,
+	type QRStatus,
+} from "./solver/usingDiagonalization";
 import {
 	math,
 	type characteristicPolynomial,
+	type Complex,
+	type Diagonalization,
+	type Eigenspace,
+	type EigenspaceDerivation,
 	type Eigenvalue,
+	type JordanForm,
 	type LatexString,
+	type MatrixWString,
+	type RowReductionStep,
+	type EigenvalueCheck,
+	type EigenvectorResidual,
+	type SolverDiagnostics,
 } from "./math";
+import {
+	compareComplex,
+	complex,
+	complexAbs,
+	formatComplex,
+	isRealValue,
+} from "./complex";
+import { findJordanForm } from "./jordanForm";
+import { diagonalize } from "./diagonalization";
+import { type Fraction } from "mathjs";
+import {
+	characteristicPolynomialExact,
+	findNullSpaceExact,
+	findRationalRoots,
+	toDisplayMatrix,
+	toExactMatrix,
+} from "./rational";
 import {
 	calculateTriangularDeterminant,
 	assembleNbyNDeterminantExpression,
 } from "./determinantFinder";
 import { cleanExpressionLatex, formatXIMinusAMatrix } from "./latexFormatter";
-import { expandPolynomialManual } from "./expressionDeflater";
-import { type Eigenspace } from "./math";
-// Type alias for clarity: A polynomial is an array of coefficients [an, ..., a0]
+import {
+	expandPolynomialManual,
+	expandSymbolicPolynomial,
+	formatPolynomial,
+} from "./expressionDeflater";
+import {
+	DEFAULT_PARAMETER_VALUE,
+	findParameters,
+	normalizeEntry,
+	type ParameterValues,
+} from "./symbolic";
+import { logger } from "./logger";
+import {
+	ConvergenceError,
+	InvalidInputError,
+	ParseError,
+	UnsupportedSizeError,
+} from "./errors";
+
+// Largest matrix the calculator accepts
+export const MAX_MATRIX_SIZE = 12;
+// Above this size the cofactor expansion (n! terms) is not written out
+export const MAX_EXPANDED_SIZE = 5;
+// Relative residual under which λ counts as an eigenvalue (det(λI - A) ≈ 0)
+// and v as an eigenvector ((λI - A)v ≈ 0)
+export const DEFAULT_TOLERANCE = 1e-6;
+
+// A number written like 1e-9 or 2.5E+21
+const EXPONENT_NOTATION = /\d(?:\.\d*)?e[+-]?\d/i;
 
 /**
  * Manual Eigenvalue Calculator
@@ -33,6 +93,58 @@ export interface EigenResult {
 	determinantExpression: string;
 	trace: number;
 	isReal: boolean;
+	// Whether the steps were computed with exact rational arithmetic
+	exact: boolean;
+	// The cofactor expansion was skipped (n > MAX_EXPANDED_SIZE), determinantExpression
+	// is the expanded polynomial computed with Faddeev-LeVerrier instead
+	expansionCollapsed: boolean;
+	// Iteration count and convergence of the shifted QR algorithm (n > 3 only)
+	qrStatus?: QRStatus;
+	// A = PDP⁻¹, or the reason why A is not diagonalizable
+	diagonalization: Diagonalization;
+	// A = PJP⁻¹, null when there are non-real eigenvalues or the chains fall short
+	jordanForm: JordanForm | null;
+	// Steps 1-3 in terms of the parameters, only set when some entry has parameters
+	symbolic?: SymbolicSteps;
+	// Method, validation determinants, residuals and warnings for the "Solver report"
+	diagnostics: SolverDiagnostics;
+}
+
+export interface SymbolicSteps {
+	// Parameter values substituted into the numeric steps
+	parameters: ParameterValues;
+	xIMinusA: (string | number)[][];
+	determinantExpression: LatexString;
+	// Polynomial in x with coefficients in the parameters, null when the
+	// expansion isn't polynomial in the parameters (e.g. "1/a") or n > MAX_EXPANDED_SIZE
+	polynomial: string | null;
+}
+
+// Stage findEigenvalues is working on, reported through its onProgress callback
+export type EigenStage =
+	| "polynomial"
+	| "eigenvalues"
+	| "eigenspaces"
+	| "diagonalization"
+	| "jordanForm";
+
+// How the eigenvalues are found: "roots" solves the characteristic polynomial
+// (slow and prone to losing multiplicities above 3×3), "qr" runs the shifted QR
+// algorithm on A, "auto" uses roots up to 3×3 and QR above
+export type EigenMethod = "auto" | "roots" | "qr";
+
+export interface EigenOptions {
+	// Use exact fractions for the polynomial, rational eigenvalues and eigenvectors,
+	// floating point otherwise (the default)
+	exact?: boolean;
+	method?: EigenMethod;
+	// Defaults to DEFAULT_TOLERANCE, raise it for matrices with noisy entries
+	tolerance?: number;
+	// Raw cell strings (e.g. "1/3"), used to build the exact matrix without rounding
+	entries?: string[][];
+	// Values of the parameters in symbolic entries such as "a" or "cos(t)",
+	// inputMatrix must already have them substituted
+	parameters?: ParameterValues;
 }
 
 /**
@@ -66,6 +178,89 @@ function createXIMinusAMatrix(inputMatrix: number[][]): (string | number)[][] {
 	return result;
 }
 
+/**
+ * Step 1 (exact mode): Same as createXIMinusAMatrix but keeps fractions like "x - 1/3"
+ * Integers stay numbers so the triangular/zero checks keep working
+ */
+function createXIMinusAMatrixExact(
+	inputMatrix: Fraction[][]
+): (string | number)[][] {
+	return inputMatrix.map((row, i) =>
+		row.map((value, j) => {
+			if (i === j) {
+				// Diagonal elements: x - a_ij
+				if (value.n === 0n) return "x";
+				return value.s > 0n
+					? `x - ${value.toFraction()}`
+					: `x + ${value.abs().toFraction()}`;
+			}
+			// Off-diagonal elements: -a_ij
+			const negated = value.neg();
+			return negated.d === 1n ? negated.valueOf() : negated.toFraction();
+		})
+	);
+}
+
+/**
+ * Step 1 (symbolic entries): xI - A with the parameters left in, e.g. "x - (a)"
+ * Plain numbers are written the same way as in createXIMinusAMatrix
+ */
+function createXIMinusAMatrixSymbolic(
+	entries: string[][]
+): (string | number)[][] {
+	return entries.map((row, i) =>
+		row.map((raw, j) => {
+			const entry = normalizeEntry(raw);
+			const value = Number(entry);
+			if (isNaN(value)) {
+				return i === j ? `x - (${entry})` : `-(${entry})`;
+			}
+			if (i !== j) return -value;
+			if (value === 0) return "x";
+			return value > 0 ? `x - ${value}` : `x + ${Math.abs(value)}`;
+		})
+	);
+}
+
+/**
+ * Steps 1-3 with the parameters kept symbolic
+ */
+function findSymbolicSteps(
+	entries: string[][],
+	parameters: ParameterValues,
+	warnings: string[]
+): SymbolicSteps {
+	const xIMinusA = createXIMinusAMatrixSymbolic(entries);
+	const determinantExpression = calculateDeterminantExpression(xIMinusA);
+
+	let polynomial: string | null = null;
+	if (entries.length <= MAX_EXPANDED_SIZE) {
+		try {
+			const expanded = expandSymbolicPolynomial(
+				cleanExpressionLatex(determinantExpression)
+			);
+			if (expanded.coefficients.length > 0) polynomial = expanded.expression;
+		} catch (error) {
+			logger.warn("Symbolic expansion failed:", error);
+			warnings.push(
+				"The determinant could not be expanded in terms of the parameters, only the substituted polynomial is solved"
+			);
+		}
+	}
+
+	return {
+		parameters: Object.fromEntries(
+			findParameters(entries).map((name) => [
+				name,
+				parameters[name] ?? DEFAULT_PARAMETER_VALUE,
+			])
+		),
+		xIMinusA,
+		determinantExpression,
+		polynomial,
+	};
+}
+
 /**
  * Step 2: Calculate determinant manually to get characteristic polynomial
  * Manually implements determinant calculation for different matrix sizes
@@ -87,47 +282,55 @@ function calculateDeterminantExpression(
  */
 function solveCharacteristicPolynomial(
 	determinantExpr: characteristicPolynomial,
-	inputMatrix: number[][]
-): { polynomial: string; eigenvalues: Eigenvalue[] } {
+	inputMatrix: number[][],
+	method: EigenMethod,
+	warnings: string[]
+): {
+	polynomial: string;
+	eigenvalues: Eigenvalue[];
+	method: SolverDiagnostics["method"];
+	qrStatus?: QRStatus;
+} {
 	const coeff = determinantExpr.coefficients as number[];
 	const n = inputMatrix.length;
-	if (n < 1 || n > 5) {
-		throw new Error(
-			"Matrix size not supported for manual eigenvalue calculation."
+	if (n < 1 || n > MAX_MATRIX_SIZE) {
+		throw new UnsupportedSizeError(
+			`Matrices up to ${MAX_MATRIX_SIZE}×${MAX_MATRIX_SIZE} are supported, got ${n}×${n}`
 		);
 	}
 
-	// use numerical approach for n = 1 to 3
+	// root finding on the polynomial for n = 1 to 3 (or when asked for), shifted QR above
 	let roots: Eigenvalue[] = [];
-	if (n <= 3) {
-		console.log("USING MATHJS POLY ROOT");
-		console.log(coeff.reverse());
-		roots = solveRealRoots(
-			inputMatrix,
-			coeff.reverse() as number[],
-			determinantExpr.expression.toString()
-		);
-		console.log("Roots found:", roots);
-	} else if (roots.length === 0) {
-		console.log(
+	let qrStatus: QRStatus | undefined;
+	const usedMethod = method === "roots" || (method === "auto" && n <= 3) ? "roots" : "qr";
+	if (usedMethod === "roots") {
+		logger.debug("USING MATHJS POLY ROOT");
+		logger.debug(coeff);
+		roots = solveRealRoots(inputMatrix, coeff, determinantExpr.expression.toString());
+		logger.debug("Roots found:", roots);
+	} else {
+		logger.debug(
 			"🟨 Newton-Raphson method will take too long, using diagonalization method"
 		);
 
 		try {
-			const diagonalizationRoots =
+			const { eigenvalues: diagonalizationRoots, iterations, converged } =
 				findEigenvaluesByDiagonalization(inputMatrix);
+			qrStatus = { iterations, converged };
 			if (diagonalizationRoots.length > 0) {
-				console.log(
+				logger.debug(
 					"🟩 Diagonalization method successful:",
 					diagonalizationRoots
 				);
 				// roots = validateEigenvalues(inputMatrix, diagonalizationRoots);
 				roots = diagonalizationRoots;
 			} else {
-				console.log("🟥 Diagonalization method also failed");
+				logger.debug("🟥 Diagonalization method also failed");
+				warnings.push("The shifted QR algorithm found no eigenvalues");
 			}
 		} catch (error) {
-			console.warn("🟥 Diagonalization method failed:", error);
+			logger.warn("🟥 Diagonalization method failed:", error);
+			warnings.push(`The shifted QR algorithm failed: ${(error as Error).message}`);
 		}
 
 		// Final fallback: use math.js library for eigs()
@@ -147,45 +350,61 @@ function solveCharacteristicPolynomial(
 	return {
 		polynomial: `${determinantExpr.expression.toString()} = 0`,
 		eigenvalues: roots,
+		method: usedMethod,
+		qrStatus,
 	};
 }
 
 function findEigenvectorBasis(
 	xIMinusA: (string | number)[][],
-	eigenvalue: Eigenvalue
+	eigenvalue: Eigenvalue,
+	tolerance: number,
+	warnings: string[]
 ): Eigenspace {
-	const xIMinusACopy = JSON.parse(JSON.stringify(xIMinusA)) as (
-		| string
-		| number
-	)[][];
-	// console.log("xI - A matrix:", formatMatrix(xIMinusACopy));
-
-	console.log("Finding eigenvector basis for eigenvalue:", eigenvalue);
-
-	for (let i = 0; i < xIMinusACopy.length; i++) {
-		for (let j = 0; j < xIMinusACopy[i].length; j++) {
-			if (typeof xIMinusACopy[i][j] === "string") {
-				// Replace 'x' with eigenvalue
-				const x = math.evaluate(
-					(xIMinusACopy[i][j] as string).replace(
-						/x/g,
-						`${eigenvalue.value.toString()}`
-					)
-				);
+	logger.debug("Finding eigenvector basis for eigenvalue:", eigenvalue);
+
+	const isComplex = !isRealValue(eigenvalue.value);
+	// Substitute x with the eigenvalue (as a mathjs complex number when needed)
+	const x = isComplex
+		? math.complex(eigenvalue.value.re, eigenvalue.value.im)
+		: eigenvalue.value.re;
+
+	if (isComplex) {
+		const substituted: Complex[][] = xIMinusA.map((row) =>
+			row.map((cell) => {
+				if (typeof cell === "number") return complex(cell);
+				const value = math.evaluate(cell, { x });
+				return typeof value === "number"
+					? complex(value)
+					: complex(value.re, value.im);
+			})
+		);
 
-				xIMinusACopy[i][j] = x;
-			}
+		const complexBasis = findComplexNullSpace(substituted);
+		if (complexBasis.every((vec) => isNullVector(substituted, vec, tolerance))) {
+			return { eigenvalue, basis: [], complexBasis };
 		}
+		warnings.push(
+			`Row reduction missed the eigenvector of λ = ${formatComplex(
+				eigenvalue.value
+			)}, it was found by inverse iteration instead`
+		);
+		return {
+			eigenvalue,
+			basis: [],
+			complexBasis: [findComplexNullVector(substituted)],
+		};
 	}
-	// console.log(
-	// 	"Matrix for eigenvalue",
-	// 	eigenvalue,
-	// 	":",
-	// 	formatMatrix(xIMinusACopy)
-	// );
 
-	// row reduce the matrix to find null space
-	const nullSpace = findNullSpace(xIMinusACopy as number[][]);
+	const substituted: number[][] = xIMinusA.map((row) =>
+		row.map((cell) =>
+			typeof cell === "number" ? cell : (math.evaluate(cell, { x }) as number)
+		)
+	);
+
+	// row reduce the matrix to find null space (keeping the steps for display)
+	const steps: RowReductionStep[] = [];
+	const nullSpace = findNullSpace(substituted, steps);
 
 	// Verify we have valid eigenvectors (non-zero)
 	const validBasis = nullSpace.filter((vec) =>
@@ -193,29 +412,208 @@ function findEigenvectorBasis(
 	);
 
 	// If no valid eigenvectors found, this suggests numerical issues
-	if (validBasis.length === 0) {
-		console.warn(
-			`No valid eigenvectors found for eigenvalue ${eigenvalue}. Using fallback method.`
+	// (the row reduction missed the rank drop because λ is only approximate)
+	const complexSubstituted = substituted.map((row) =>
+		row.map((value) => complex(value))
+	);
+	if (
+		validBasis.length === 0 ||
+		!validBasis.every((vec) =>
+			isNullVector(
+				complexSubstituted,
+				vec.map((value) => complex(value)),
+				tolerance
+			)
+		)
+	) {
+		logger.warn(
+			`No valid eigenvectors found for eigenvalue ${formatComplex(
+				eigenvalue.value
+			)}. Using fallback method.`
+		);
+		warnings.push(
+			`Row reduction missed the eigenvector of λ = ${formatComplex(
+				eigenvalue.value
+			)}, it was found by inverse iteration instead`
 		);
+		return {
+			eigenvalue,
+			basis: [findComplexNullVector(complexSubstituted).map((z) => z.re)],
+		};
 	}
 
-	// console.log("EigenSpace Basis", formatMatrix(nullSpace));
-
 	return {
 		eigenvalue,
 		basis: nullSpace,
+		derivation: createDerivation(substituted, steps),
+	};
+}
+
+/**
+ * Starting matrix, row operations and free variables of an eigenspace computation
+ */
+function createDerivation(
+	start: MatrixWString,
+	steps: RowReductionStep[]
+): EigenspaceDerivation {
+	const reduced = steps.length > 0 ? steps[steps.length - 1].matrix : start;
+	const pivotColumns = getPivotColumns(reduced);
+	return {
+		start,
+		steps,
+		freeVariables: start[0]
+			.map((_, col) => col)
+			.filter((col) => !pivotColumns.includes(col)),
+	};
+}
+
+/**
+ * Check (λI - A)v ≈ 0 relative to the size of the matrix and the vector
+ */
+function isNullVector(matrix: Complex[][], vector: Complex[], tolerance: number): boolean {
+	const norm = (values: Complex[]) =>
+		Math.sqrt(values.reduce((sum, z) => sum + z.re ** 2 + z.im ** 2, 0));
+	const matrixNorm = Math.max(1, ...matrix.map(norm));
+	const residual = matrix.map((row) =>
+		row.reduce(
+			(sum, z, j) =>
+				complex(
+					sum.re + z.re * vector[j].re - z.im * vector[j].im,
+					sum.im + z.re * vector[j].im + z.im * vector[j].re
+				),
+			complex(0)
+		)
+	);
+	return norm(residual) <= tolerance * matrixNorm * norm(vector);
+}
+
+/**
+ * Step 4 (exact mode): Eigenspace of a rational eigenvalue using fractions
+ * Solves (λI - A)v = 0 without any rounding
+ */
+function findEigenvectorBasisExact(
+	exactMatrix: Fraction[][],
+	eigenvalue: Eigenvalue,
+	lambda: Fraction
+): Eigenspace {
+	const lambdaIMinusA = exactMatrix.map((row, i) =>
+		row.map((value, j) => (i === j ? lambda.sub(value) : value.neg()))
+	);
+	const steps: RowReductionStep[] = [];
+	const nullSpace = findNullSpaceExact(lambdaIMinusA, steps);
+
+	return {
+		eigenvalue,
+		basis: nullSpace.map((vec) => vec.map((component) => component.valueOf())),
+		exactBasis: nullSpace.map((vec) =>
+			vec.map((component) => component.toFraction())
+		),
+		derivation: createDerivation(toDisplayMatrix(lambdaIMinusA), steps),
 	};
 }
 
+/**
+ * Largest ‖Av - λv‖ / (‖A‖‖v‖) over the basis vectors of an eigenspace
+ */
+function eigenspaceResidual(
+	matrix: number[][],
+	eigenspace: Eigenspace
+): EigenvectorResidual {
+	const lambda = eigenspace.eigenvalue.value;
+	const vectors =
+		eigenspace.complexBasis ??
+		eigenspace.basis.map((vector) => vector.map((value) => complex(value)));
+	const norm = (values: Complex[]) =>
+		Math.sqrt(values.reduce((sum, z) => sum + z.re ** 2 + z.im ** 2, 0));
+	const matrixNorm = Math.max(1, Math.hypot(...matrix.flat()));
+
+	let residual = 0;
+	for (const vector of vectors) {
+		const difference = matrix.map((row, i) =>
+			row.reduce(
+				(sum, value, j) =>
+					complex(sum.re + value * vector[j].re, sum.im + value * vector[j].im),
+				complex(
+					-(lambda.re * vector[i].re - lambda.im * vector[i].im),
+					-(lambda.re * vector[i].im + lambda.im * vector[i].re)
+				)
+			)
+		);
+		residual = Math.max(residual, norm(difference) / (matrixNorm * norm(vector)));
+	}
+	return { eigenvalue: eigenspace.eigenvalue, residual };
+}
+
+/**
+ * Caveats about the accuracy of the results that the solver can't fix itself
+ */
+function precisionWarnings(result: {
+	n: number;
+	eigenvalues: Eigenvalue[];
+	eigenspaces: Eigenspace[];
+	residuals: EigenvectorResidual[];
+	tolerance: number;
+	isReal: boolean;
+	jordanForm: JordanForm | null;
+}): string[] {
+	const warnings: string[] = [];
+	const found = result.eigenvalues.reduce((sum, ev) => sum + ev.multiplicity, 0);
+	if (found !== result.n) {
+		warnings.push(
+			`Only ${found} of the ${result.n} eigenvalues (counted with multiplicity) were found`
+		);
+	}
+
+	// Integers were snapped to, they are exact already
+	const repeated = result.eigenvalues.filter(
+		(ev) =>
+			ev.multiplicity > 1 &&
+			ev.exact === undefined &&
+			!(Number.isInteger(ev.value.re) && ev.value.im === 0)
+	);
+	if (repeated.length > 0) {
+		warnings.push(
+			`Repeated eigenvalues (${repeated
+				.map((ev) => `λ = ${formatComplex(ev.value)}`)
+				.join(", ")}) may only be accurate to about the square root of machine precision, use exact mode for rational entries`
+		);
+	}
+
+	for (const { eigenvalue, residual } of result.residuals) {
+		if (residual > result.tolerance) {
+			warnings.push(
+				`The eigenvectors of λ = ${formatComplex(
+					eigenvalue.value
+				)} have a residual of ${residual.toExponential(1)}, above the tolerance`
+			);
+		}
+	}
+
+	const defective = result.eigenspaces.some(
+		(eigenspace) =>
+			(eigenspace.complexBasis?.length ?? eigenspace.basis.length) <
+			eigenspace.eigenvalue.multiplicity
+	);
+	if (defective && result.isReal && !result.jordanForm) {
+		warnings.push("The Jordan chains don't add up to a basis, so J is not shown");
+	}
+
+	return warnings;
+}
+
 /**
  * Main function to find eigenvalues following the manual mathematical approach
  */
-export function findEigenvalues(inputMatrix: number[][]): EigenResult {
-	console.log("[eigenStuffFinder] Input Matrix:", inputMatrix);
+export function findEigenvalues(
+	inputMatrix: number[][],
+	options: EigenOptions = {},
+	onProgress?: (stage: EigenStage) => void
+): EigenResult {
+	logger.debug("[eigenStuffFinder] Input Matrix:", inputMatrix);
 
 	// Validate input
 	if (!inputMatrix || inputMatrix.length === 0) {
-		throw new Error("Matrix cannot be empty");
+		throw new InvalidInputError("Matrix cannot be empty");
 	}
 
 	const n = inputMatrix.length;
@@ -223,66 +621,214 @@ export function findEigenvalues(inputMatrix: number[][]): EigenResult {
 	// Check if matrix is square
 	for (let i = 0; i < n; i++) {
 		if (!inputMatrix[i] || inputMatrix[i].length !== n) {
-			throw new Error("Matrix must be square (n×n)");
+			throw new InvalidInputError("Matrix must be square (n×n)");
 		}
+		if (!inputMatrix[i].every(Number.isFinite)) {
+			throw new InvalidInputError(`Row ${i + 1} has an entry that isn't a finite number`);
+		}
+	}
+	// Checked up front, the cofactor expansion alone would take forever
+	if (n > MAX_MATRIX_SIZE) {
+		throw new UnsupportedSizeError(
+			`Matrices up to ${MAX_MATRIX_SIZE}×${MAX_MATRIX_SIZE} are supported, got ${n}×${n}`
+		);
 	}
 
-	// Step 1: Create xI - A matrix
-	const xIMinusA = createXIMinusAMatrix(inputMatrix);
-	console.log("xI - A matrix:", xIMinusA);
-	console.log("xI - A matrix (formatted):", formatXIMinusAMatrix(xIMinusA));
+	const exact = options.exact ?? false;
+	const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+	if (!(tolerance > 0)) {
+		throw new InvalidInputError("Tolerance must be a positive number");
+	}
+	const exactMatrix = exact
+		? toExactMatrix(inputMatrix, options.entries)
+		: undefined;
 
-	// Step 2: Calculate determinant expression
-	const determinantExpression = calculateDeterminantExpression(xIMinusA);
-	console.log("Determinant expression: (Raw)", determinantExpression);
+	onProgress?.("polynomial");
+	const warnings: string[] = [];
 
-	const simplified = math.simplify(cleanExpressionLatex(determinantExpression));
-	console.log("SIMPLIFIED EXPRESSION:", simplified.toString());
+	// Steps 1-3 in terms of the parameters, the numeric steps below use the
+	// substituted matrix
+	const symbolic =
+		options.entries && findParameters(options.entries).length > 0
+			? findSymbolicSteps(options.entries, options.parameters ?? {}, warnings)
+			: undefined;
 
-	const mathjsexp: characteristicPolynomial = expandPolynomialManual(
-		simplified.toString()
-	);
+	// Step 1: Create xI - A matrix
+	const xIMinusA = exactMatrix
+		? createXIMinusAMatrixExact(exactMatrix)
+		: createXIMinusAMatrix(inputMatrix);
+	logger.debug("xI - A matrix:", xIMinusA);
+	logger.debug("xI - A matrix (formatted):", formatXIMinusAMatrix(xIMinusA));
+
+	// Step 2: Calculate determinant expression
+	// The cofactor expansion has n! terms, so for big matrices the coefficients
+	// come from Faddeev-LeVerrier and the expansion is collapsed into the result
+	const expansionCollapsed =
+		n > MAX_EXPANDED_SIZE && !isTriangularMatrix(xIMinusA);
+
+	let determinantExpression: LatexString;
+	let mathjsexp: characteristicPolynomial;
+	if (expansionCollapsed) {
+		const coefficients = exactMatrix
+			? characteristicPolynomialExact(exactMatrix)
+			: characteristicPolynomialCoefficients(inputMatrix);
+		determinantExpression = formatPolynomial(coefficients);
+		mathjsexp = {
+			expression: determinantExpression,
+			coefficients,
+			variables: ["x"],
+		};
+		logger.debug("Determinant expression: (Faddeev-LeVerrier)", determinantExpression);
+	} else {
+		determinantExpression = calculateDeterminantExpression(xIMinusA);
+		logger.debug("Determinant expression: (Raw)", determinantExpression);
+
+		let simplified: string;
+		try {
+			simplified = math
+				.simplify(cleanExpressionLatex(determinantExpression))
+				.toString();
+		} catch (error) {
+			throw new ParseError((error as Error).message);
+		}
+		logger.debug("SIMPLIFIED EXPRESSION:", simplified);
+
+		mathjsexp = expandPolynomialManual(simplified, exact);
+		// The expansion can't read numbers in exponent notation (1e-9), the
+		// coefficients then come straight from the matrix
+		if (mathjsexp.coefficients.length === 0 || EXPONENT_NOTATION.test(simplified)) {
+			logger.debug(`"${simplified}" couldn't be expanded, using Faddeev-LeVerrier`);
+			const coefficients = exactMatrix
+				? characteristicPolynomialExact(exactMatrix)
+				: characteristicPolynomialCoefficients(inputMatrix);
+			mathjsexp = {
+				expression: formatPolynomial(coefficients),
+				coefficients,
+				variables: ["x"],
+			};
+		}
+	}
 
-	console.log("Manual extraction expression:", mathjsexp.expression.toString());
-	console.log("Manual extraction coefficients:", mathjsexp.coefficients);
+	logger.debug("Manual extraction expression:", mathjsexp.expression.toString());
+	logger.debug("Manual extraction coefficients:", mathjsexp.coefficients);
 
 	// Step 3: Solve characteristic polynomial
+	onProgress?.("eigenvalues");
+	// (the numerical solvers always work on floating point coefficients)
 	const polynomialResult = solveCharacteristicPolynomial(
-		mathjsexp,
-		inputMatrix
+		{
+			...mathjsexp,
+			coefficients: mathjsexp.coefficients.map((c) => Number(c)),
+		},
+		inputMatrix,
+		options.method ?? "auto",
+		warnings
 	);
+	if (polynomialResult.qrStatus && !polynomialResult.qrStatus.converged) {
+		warnings.push(
+			`The shifted QR algorithm did not converge after ${polynomialResult.qrStatus.iterations} iterations, the eigenvalues may be inaccurate`
+		);
+	}
 
-	const mathjsResult = math.eigs(inputMatrix);
-	console.warn("Eigenvalues (mathjs):", mathjsResult.values);
-	console.warn("Eigenvalues (manual):", polynomialResult);
+	logger.debug("Eigenvalues (manual):", polynomialResult);
 
-	console.log("Validating Eigenvalues...");
+	logger.debug("Validating Eigenvalues...");
 	const calculatedEigenvalues = polynomialResult.eigenvalues;
-	const validatedEigenvalues = validateEigenvalues(
+	if (calculatedEigenvalues.length === 0) {
+		throw new ConvergenceError(
+			polynomialResult.method === "qr"
+				? "the shifted QR algorithm found no eigenvalues"
+				: "no roots of the characteristic polynomial were found"
+		);
+	}
+	const eigenvalueChecks: EigenvalueCheck[] = [];
+	let validatedEigenvalues = validateEigenvalues(
 		inputMatrix,
-		calculatedEigenvalues
+		calculatedEigenvalues,
+		tolerance,
+		eigenvalueChecks
 	);
-	console.log("Calculated Eigenvalues:", calculatedEigenvalues);
-	console.log("Validated Eigenvalues:", validatedEigenvalues);
+	for (const check of eigenvalueChecks.filter(({ accepted }) => !accepted)) {
+		warnings.push(
+			`λ = ${formatComplex(check.eigenvalue)} was rejected, |det(A - λI)| = ${complexAbs(
+				check.determinant
+			).toExponential(1)} is above ${check.threshold.toExponential(1)}`
+		);
+	}
+
+	// Exact mode: rational roots replace their floating point approximations
+	const rationalRoots = exact
+		? findRationalRoots(mathjsexp.coefficients as Fraction[], warnings)
+		: [];
+	if (rationalRoots.length > 0) {
+		logger.debug("Rational roots:", rationalRoots);
+		const irrational = validatedEigenvalues.filter(
+			(ev) =>
+				!isRealValue(ev.value) ||
+				!rationalRoots.some(
+					({ root }) => Math.abs(root.valueOf() - ev.value.re) < 1e-6
+				)
+		);
+		validatedEigenvalues = [
+			...rationalRoots.map(({ root, multiplicity }) => ({
+				value: complex(root.valueOf()),
+				multiplicity,
+				exact: root.toFraction(),
+			})),
+			...irrational,
+		].sort((a, b) => compareComplex(a.value, b.value));
+	}
+	logger.debug("Calculated Eigenvalues:", calculatedEigenvalues);
+	logger.debug("Validated Eigenvalues:", validatedEigenvalues);
 
 	// Step 4: Calculate eigenspaces for each eigenvalue
+	onProgress?.("eigenspaces");
 	const eigenspaces: Eigenspace[] = [];
 	if (validatedEigenvalues.length !== 0) {
 		for (const val of validatedEigenvalues) {
-			// console.log("Finding eigenvector basis for eigenvalue:", val);
-			const eigenspace = findEigenvectorBasis(xIMinusA, val);
+			const rational = rationalRoots.find(
+				({ root }) => val.exact === root.toFraction()
+			);
+			const eigenspace =
+				exactMatrix && rational
+					? findEigenvectorBasisExact(exactMatrix, val, rational.root)
+					: findEigenvectorBasis(xIMinusA, val, tolerance, warnings);
 			eigenspaces.push(eigenspace);
 		}
 	}
-	console.log("[eigenStuffFinder] Eigenspaces:", eigenspaces);
+	logger.debug("[eigenStuffFinder] Eigenspaces:", eigenspaces);
+	const residuals = eigenspaces.map((eigenspace) =>
+		eigenspaceResidual(inputMatrix, eigenspace)
+	);
+
+	// Step 5: Diagonalization A = PDP⁻¹
+	onProgress?.("diagonalization");
+	const diagonalization = diagonalize(inputMatrix, eigenspaces);
+	logger.debug("[eigenStuffFinder] Diagonalization:", diagonalization);
+
+	// Step 6: Jordan chains (generalized eigenvectors) and A = PJP⁻¹
+	onProgress?.("jordanForm");
+	const jordanForm = findJordanForm(inputMatrix, validatedEigenvalues);
+	logger.debug("[eigenStuffFinder] Jordan form:", jordanForm);
 
 	// Additional calculations
 	const trace = calculateTraceManual(inputMatrix);
 
-	// For now we check if calculated eigenvalues match validated ones
 	const isReal =
 		validatedEigenvalues.length !== 0 &&
-		validatedEigenvalues.length === calculatedEigenvalues.length;
+		validatedEigenvalues.every((ev) => isRealValue(ev.value));
+
+	warnings.push(
+		...precisionWarnings({
+			n,
+			eigenvalues: validatedEigenvalues,
+			eigenspaces,
+			residuals,
+			tolerance,
+			isReal,
+			jordanForm,
+		})
+	);
 
 	return {
 		eigenvalues: validatedEigenvalues,
@@ -292,5 +838,18 @@ export function findEigenvalues(inputMatrix: number[][]): EigenResult {
 		determinantExpression,
 		trace,
 		isReal,
+		exact,
+		expansionCollapsed,
+		qrStatus: polynomialResult.qrStatus,
+		diagonalization,
+		jordanForm,
+		symbolic,
+		diagnostics: {
+			method: polynomialResult.method,
+			tolerance,
+			eigenvalueChecks,
+			residuals,
+			warnings,
+		},
 	};
 }
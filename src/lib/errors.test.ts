@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import {
+	ConvergenceError,
+	EigenError,
+	ParseError,
+	describeError,
+	reviveError,
+	serializeError,
+} from "./errors";
+
+describe("serializeError / reviveError", () => {
+	it("rebuilds the error class from its code", () => {
+		const revived = reviveError(serializeError(new ConvergenceError("no roots")));
+		expect(revived).toBeInstanceOf(ConvergenceError);
+		expect(revived).toBeInstanceOf(EigenError);
+		expect(revived.message).toBe("no roots");
+	});
+
+	it("keeps other errors as plain errors", () => {
+		const serialized = serializeError(new TypeError("oops"));
+		expect(serialized).toEqual({ message: "oops" });
+		expect(reviveError(serialized)).not.toBeInstanceOf(EigenError);
+	});
+});
+
+describe("describeError", () => {
+	it("suggests what to do about engine errors", () => {
+		expect(describeError(new ParseError("bad"))).toContain("Check the symbolic entries");
+		expect(describeError(new Error("boom"))).toContain("boom");
+	});
+});
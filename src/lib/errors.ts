@@ -0,0 +1,101 @@
+/* ━━━━━━━━━━━━━━━━ Engine Errors ━━━━━━━━━━━━━━━━ */
+// Everything findEigenvalues throws on purpose is an EigenError, the code tells
+// the UI which friendly message to show. Codes survive the trip out of the
+// Web Worker, classes don't (see serializeError / reviveError)
+
+export type EigenErrorCode = "invalid-input" | "unsupported-size" | "parse" | "convergence";
+
+export class EigenError extends Error {
+	readonly code: EigenErrorCode;
+
+	constructor(code: EigenErrorCode, message: string) {
+		super(message);
+		this.name = "EigenError";
+		this.code = code;
+	}
+}
+
+/**
+ * The matrix or the options don't make sense (empty, not square, NaN entries...)
+ */
+export class InvalidInputError extends EigenError {
+	constructor(message: string) {
+		super("invalid-input", message);
+		this.name = "InvalidInputError";
+	}
+}
+
+/**
+ * The matrix is bigger (or smaller) than the solvers handle
+ */
+export class UnsupportedSizeError extends EigenError {
+	constructor(message: string) {
+		super("unsupported-size", message);
+		this.name = "UnsupportedSizeError";
+	}
+}
+
+/**
+ * The determinant expression couldn't be turned into a polynomial
+ */
+export class ParseError extends EigenError {
+	constructor(message: string) {
+		super("parse", message);
+		this.name = "ParseError";
+	}
+}
+
+/**
+ * The numerical solvers gave up without finding any eigenvalue
+ */
+export class ConvergenceError extends EigenError {
+	constructor(message: string) {
+		super("convergence", message);
+		this.name = "ConvergenceError";
+	}
+}
+
+const ERROR_CLASSES: Record<EigenErrorCode, new (message: string) => EigenError> = {
+	"invalid-input": InvalidInputError,
+	"unsupported-size": UnsupportedSizeError,
+	parse: ParseError,
+	convergence: ConvergenceError,
+};
+
+export type SerializedError = { message: string; code?: EigenErrorCode };
+
+/**
+ * Plain data version of an error, for postMessage
+ */
+export function serializeError(error: unknown): SerializedError {
+	if (error instanceof EigenError) return { message: error.message, code: error.code };
+	return { message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Rebuild the error class on the other side of postMessage
+ */
+export function reviveError({ message, code }: SerializedError): Error {
+	return code ? new ERROR_CLASSES[code](message) : new Error(message);
+}
+
+/**
+ * Message for the user, with what they can do about it
+ */
+export function describeError(error: unknown): string {
+	if (!(error instanceof EigenError)) {
+		const message = error instanceof Error ? error.message : String(error);
+		return `Something went wrong while working on this matrix (${message}). Try editing an entry.`;
+	}
+
+	switch (error.code) {
+		case "invalid-input":
+			return `${error.message}. Check the entries of the matrix.`;
+		case "unsupported-size":
+			return `${error.message}. Try a smaller matrix.`;
+		case "parse":
+			return `The characteristic polynomial couldn't be worked out from these entries (${error.message}). Check the symbolic entries for typos.`;
+		case "convergence":
+			return `The eigenvalue solver didn't converge for this matrix (${error.message}). Try rounding the entries or turning on exact mode.`;
+	}
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+	expandPolynomialManual,
+	expandSymbolicPolynomial,
+	formatPolynomial,
+} from "./expressionDeflater";
+import { type Fraction } from "mathjs";
+
+describe("expandPolynomialManual", () => {
+	it("expands products of linear factors", () => {
+		const result = expandPolynomialManual("(x - 1)(x - 2)(x + 3)");
+		expect(result.expression).toBe("x^3 - 7x + 6");
+		expect(result.coefficients).toEqual([1, 0, -7, 6]);
+	});
+
+	it("handles powers, implicit multiplication and unary signs", () => {
+		expect(expandPolynomialManual("2(x + 1)^2 - -x").expression).toBe("2x^2 + 5x + 2");
+		expect(expandPolynomialManual("+(-1)^(1+2)(x)(x - 3)").expression).toBe("-x^2 + 3x");
+	});
+
+	it("keeps fractions exact in exact mode", () => {
+		const result = expandPolynomialManual("(x - 1/3)(x - 1/2)", true);
+		expect(result.expression).toBe("x^2 - 5/6x + 1/6");
+		expect((result.coefficients as Fraction[]).map((c) => c.toFraction())).toEqual([
+			"1",
+			"-5/6",
+			"1/6",
+		]);
+	});
+
+	it("reports unsupported input instead of throwing", () => {
+		expect(expandPolynomialManual("1/x").expression).toBe("Error");
+	});
+
+	it("has the chosen roots for any product of (x - r)", () => {
+		fc.assert(
+			fc.property(
+				fc.array(fc.integer({ min: -6, max: 6 }), { minLength: 1, maxLength: 5 }),
+				(roots) => {
+					const equation = roots.map((r) => `(x - (${r}))`).join("");
+					const coefficients = expandPolynomialManual(equation)
+						.coefficients as number[];
+					expect(coefficients).toHaveLength(roots.length + 1);
+					for (const root of roots) {
+						const value = coefficients.reduce((sum, c) => sum * root + c, 0);
+						expect(value).toBeCloseTo(0, 9);
+					}
+				}
+			)
+		);
+	});
+});
+
+describe("expandSymbolicPolynomial", () => {
+	it("collects coefficients in the parameters", () => {
+		expect(expandSymbolicPolynomial("(x - a)(x - 2) - (1)(k)").expression).toBe(
+			"x^2 + (-a - 2)x + (2a - k)"
+		);
+	});
+
+	it("keeps function calls as single parameters", () => {
+		expect(
+			expandSymbolicPolynomial("(x - cos(t))(x - cos(t)) - (-sin(t))(sin(t))")
+				.coefficients
+		).toEqual(["1", "-2cos(t)", "cos(t)^2 + sin(t)^2"]);
+	});
+});
+
+describe("formatPolynomial", () => {
+	it("formats descending coefficients", () => {
+		expect(formatPolynomial([1, -3, 0, 2])).toBe("x^3 - 3x^2 + 2");
+	});
+});
@@ -1,16 +1,80 @@
-import { type characteristicPolynomial } from "./math";
+import { type Fraction } from "mathjs";
+import { math, type characteristicPolynomial } from "./math";
+import { logger } from "./logger";
 
 // === TYPES ===
 type Token = {
-	type: "NUM" | "VAR" | "OP" | "LPAREN" | "RPAREN";
+	type: "NUM" | "VAR" | "ATOM" | "OP" | "LPAREN" | "RPAREN";
 	value: string;
 };
-type Poly = number[]; // [1, -1] means 1x - 1 (stored as ASC or DESC? Let's use ASC internally [const, x, x^2...])
+type Poly<T> = T[]; // [1, -1] means 1x - 1 (stored as ASC or DESC? Let's use ASC internally [const, x, x^2...])
+
+/**
+ * Arithmetic used for the coefficients, lets the same parser run on
+ * floating point numbers or on exact fractions
+ */
+type ScalarOps<T> = {
+	fromString: (value: string) => T;
+	zero: T;
+	one: T;
+	add: (a: T, b: T) => T;
+	sub: (a: T, b: T) => T;
+	mul: (a: T, b: T) => T;
+	div: (a: T, b: T) => T;
+	isZero: (a: T) => boolean;
+	isNegative: (a: T) => boolean;
+	toNumber: (a: T) => number;
+	// Absolute value as display text
+	formatAbs: (a: T) => string;
+	// Parameter such as "a" or "cos(t)", only symbolic coefficients have these
+	fromAtom?: (name: string) => T;
+};
+
+const floatOps: ScalarOps<number> = {
+	fromString: (value) => parseFloat(value),
+	zero: 0,
+	one: 1,
+	add: (a, b) => a + b,
+	sub: (a, b) => a - b,
+	mul: (a, b) => a * b,
+	div: (a, b) => a / b,
+	isZero: (a) => Math.abs(a) < 1e-9,
+	isNegative: (a) => a < 0,
+	toNumber: (a) => a,
+	formatAbs: (a) => parseFloat(Math.abs(a).toFixed(4)).toString(),
+};
+
+const fractionOps: ScalarOps<Fraction> = {
+	fromString: (value) => math.fraction(value),
+	zero: math.fraction(0),
+	one: math.fraction(1),
+	add: (a, b) => a.add(b),
+	sub: (a, b) => a.sub(b),
+	mul: (a, b) => a.mul(b),
+	div: (a, b) => a.div(b),
+	isZero: (a) => a.n === 0n,
+	isNegative: (a) => a.s < 0n,
+	toNumber: (a) => a.valueOf(),
+	formatAbs: (a) => a.abs().toFraction(),
+};
 
 /**
  * Standard Robust Parser using Shunting-Yard Algorithm
+ * With exact set the coefficients are fractions instead of numbers
  */
-function expandPolynomialManual(equation: string): characteristicPolynomial {
+function expandPolynomialManual(
+	equation: string,
+	exact: boolean = false
+): characteristicPolynomial {
+	return exact
+		? expandPolynomial(equation, fractionOps)
+		: expandPolynomial(equation, floatOps);
+}
+
+function expandPolynomial<T>(
+	equation: string,
+	ops: ScalarOps<T>
+): characteristicPolynomial {
 	try {
 		// 1. Tokenize (Turn string into list of safe tokens)
 		const tokens = tokenize(equation);
@@ -19,23 +83,23 @@ function expandPolynomialManual(equation: string): characteristicPolynomial {
 		const rpn = shuntingYard(tokens);
 
 		// 3. Evaluate RPN using Polynomial Arithmetic
-		const finalPolyAsc = evaluateRPN(rpn);
+		const finalPolyAsc = evaluateRPN(rpn, ops);
 
 		// 4. Format Output (Convert ASC [const, x...] to DESC [x^n...])
 		const finalPolyDesc = [...finalPolyAsc].reverse();
 
 		// Cleanup leading zeros (high power terms that cancelled out)
-		while (finalPolyDesc.length > 1 && Math.abs(finalPolyDesc[0]) < 1e-9) {
+		while (finalPolyDesc.length > 1 && ops.isZero(finalPolyDesc[0])) {
 			finalPolyDesc.shift();
 		}
 
 		return {
-			expression: buildPolyString(finalPolyDesc),
-			coefficients: finalPolyDesc,
+			expression: buildPolyString(finalPolyDesc, ops),
+			coefficients: finalPolyDesc as characteristicPolynomial["coefficients"],
 			variables: ["x"],
 		};
 	} catch (e) {
-		console.error("Polynomial Parse Error:", e);
+		logger.error("Polynomial Parse Error:", e);
 		return { expression: "Error", coefficients: [], variables: ["x"] };
 	}
 }
@@ -48,6 +112,10 @@ function tokenize(input: string): Token[] {
 	// Remove spaces
 	const str = input.replace(/\s+/g, "");
 
+	// Implicit multiplication: "2x", "2(", "x(", ")(", ")x", "2a", "a cos(t)"
+	const startsOperand = (index: number) =>
+		index < str.length && /[\w(]/.test(str[index]);
+
 	let i = 0;
 	while (i < str.length) {
 		const char = str[i];
@@ -59,29 +127,47 @@ function tokenize(input: string): Token[] {
 				numStr += str[++i];
 			}
 			tokens.push({ type: "NUM", value: numStr });
-			// Check for implicit multiplication: "2x" or "2("
-			if (i + 1 < str.length && (str[i + 1] === "x" || str[i + 1] === "(")) {
+			if (startsOperand(i + 1)) {
 				tokens.push({ type: "OP", value: "*" });
 			}
 		}
-		// 2. Variable 'x'
-		else if (char === "x") {
-			tokens.push({ type: "VAR", value: "x" });
-			// Check for implicit multiplication: "x("
-			if (i + 1 < str.length && str[i + 1] === "(") {
+		// 2. Variable 'x' and parameters such as "a", "k" or "cos(t)"
+		else if (/[A-Za-z_]/.test(char)) {
+			let name = char;
+			while (i + 1 < str.length && /\w/.test(str[i + 1])) {
+				name += str[++i];
+			}
+
+			if (name === "x") {
+				tokens.push({ type: "VAR", value: "x" });
+			} else {
+				// A function call is kept whole, "cos(t)" is one parameter
+				if (SYMBOLIC_FUNCTIONS.includes(name) && str[i + 1] === "(") {
+					let depth = 0;
+					do {
+						const c = str[++i];
+						name += c;
+						if (c === "(") depth++;
+						if (c === ")") depth--;
+					} while (depth > 0 && i + 1 < str.length);
+				}
+				tokens.push({ type: "ATOM", value: name });
+			}
+			if (startsOperand(i + 1)) {
 				tokens.push({ type: "OP", value: "*" });
 			}
 		}
 		// 3. Operators
-		else if (["+", "-", "*", "^"].includes(char)) {
+		else if (["+", "-", "*", "/", "^"].includes(char)) {
+			const isUnary =
+				tokens.length === 0 ||
+				tokens[tokens.length - 1].type === "OP" ||
+				tokens[tokens.length - 1].type === "LPAREN";
 			// Handle Unary Minus (negative sign at start or after another operator)
 			// e.g. "-x" or "(-5)" or "^-1"
-			if (
-				char === "-" &&
-				(tokens.length === 0 ||
-					tokens[tokens.length - 1].type === "OP" ||
-					tokens[tokens.length - 1].type === "LPAREN")
-			) {
+			if (char === "+" && isUnary) {
+				// Unary plus doesn't change anything, e.g. "+(-1)^(1+1)..."
+			} else if (char === "-" && isUnary) {
 				tokens.push({ type: "NUM", value: "-1" });
 				tokens.push({ type: "OP", value: "*" });
 			} else {
@@ -93,8 +179,7 @@ function tokenize(input: string): Token[] {
 			tokens.push({ type: "LPAREN", value: "(" });
 		} else if (char === ")") {
 			tokens.push({ type: "RPAREN", value: ")" });
-			// Check for implicit multiplication: ")(..." or ")x"
-			if (i + 1 < str.length && (str[i + 1] === "(" || str[i + 1] === "x")) {
+			if (startsOperand(i + 1)) {
 				tokens.push({ type: "OP", value: "*" });
 			}
 		}
@@ -114,17 +199,19 @@ function shuntingYard(tokens: Token[]): Token[] {
 		"+": 2,
 		"-": 2,
 		"*": 3,
+		"/": 3,
 		"^": 4,
 	};
 	const associativity: Record<string, "Left" | "Right"> = {
 		"+": "Left",
 		"-": "Left",
 		"*": "Left",
+		"/": "Left",
 		"^": "Right",
 	};
 
 	tokens.forEach((token) => {
-		if (token.type === "NUM" || token.type === "VAR") {
+		if (token.type === "NUM" || token.type === "VAR" || token.type === "ATOM") {
 			outputQueue.push(token);
 		} else if (token.type === "OP") {
 			while (operatorStack.length > 0) {
@@ -165,106 +252,250 @@ function shuntingYard(tokens: Token[]): Token[] {
 // ==========================================
 // PHASE 3: EVALUATE RPN STACK
 // ==========================================
-function evaluateRPN(rpn: Token[]): Poly {
-	const stack: Poly[] = [];
+function evaluateRPN<T>(rpn: Token[], ops: ScalarOps<T>): Poly<T> {
+	const stack: Poly<T>[] = [];
+
+	// A polynomial is constant when every term past the constant one is zero
+	const isConstant = (p: Poly<T>) => p.slice(1).every((c) => ops.isZero(c));
 
 	rpn.forEach((token) => {
 		if (token.type === "NUM") {
-			stack.push([parseFloat(token.value)]); // Constant [c]
+			stack.push([ops.fromString(token.value)]); // Constant [c]
 		} else if (token.type === "VAR") {
-			stack.push([0, 1]); // Variable x is [0, 1] (0 + 1x)
+			stack.push([ops.zero, ops.one]); // Variable x is [0, 1] (0 + 1x)
+		} else if (token.type === "ATOM") {
+			// Parameters are constants as far as x is concerned
+			if (!ops.fromAtom) throw new Error(`Unknown symbol: ${token.value}`);
+			stack.push([ops.fromAtom(token.value)]);
 		} else if (token.type === "OP") {
 			const b = stack.pop()!;
 			const a = stack.pop()!;
 
 			switch (token.value) {
 				case "+":
-					stack.push(polyAdd(a, b));
+					stack.push(polyAdd(a, b, ops));
 					break;
 				case "-":
-					stack.push(polySub(a, b));
+					stack.push(polySub(a, b, ops));
 					break;
 				case "*":
-					stack.push(polyMultiply(a, b));
+					stack.push(polyMultiply(a, b, ops));
+					break;
+				case "/":
+					// Only division by a constant keeps the result a polynomial
+					if (!isConstant(b) || ops.isZero(b[0]))
+						throw new Error("Only division by non-zero constants supported");
+					stack.push(a.map((c) => ops.div(c, b[0])));
 					break;
 				case "^":
 					// Exponent must be a scalar constant for this simple parser
-					if (b.length > 1 || b[0] < 0)
+					if (!isConstant(b) || !(ops.toNumber(b[0]) >= 0))
 						throw new Error("Only positive integer exponents supported");
-					stack.push(polyPower(a, Math.round(b[0])));
+					stack.push(polyPower(a, Math.round(ops.toNumber(b[0])), ops));
 					break;
 			}
 		}
 	});
 
-	return stack[0] || [0];
+	return stack[0] || [ops.zero];
 }
 
 // ==========================================
 // POLYNOMIAL MATH UTILS (coeffs in ASC order)
 // ==========================================
-function polyAdd(p1: Poly, p2: Poly): Poly {
+function polyAdd<T>(p1: Poly<T>, p2: Poly<T>, ops: ScalarOps<T>): Poly<T> {
 	const len = Math.max(p1.length, p2.length);
-	const res = new Array(len).fill(0);
-	for (let i = 0; i < len; i++) res[i] = (p1[i] || 0) + (p2[i] || 0);
+	const res: Poly<T> = [];
+	for (let i = 0; i < len; i++)
+		res[i] = ops.add(p1[i] ?? ops.zero, p2[i] ?? ops.zero);
 	return res;
 }
 
-function polySub(p1: Poly, p2: Poly): Poly {
+function polySub<T>(p1: Poly<T>, p2: Poly<T>, ops: ScalarOps<T>): Poly<T> {
 	const len = Math.max(p1.length, p2.length);
-	const res = new Array(len).fill(0);
-	for (let i = 0; i < len; i++) res[i] = (p1[i] || 0) - (p2[i] || 0);
+	const res: Poly<T> = [];
+	for (let i = 0; i < len; i++)
+		res[i] = ops.sub(p1[i] ?? ops.zero, p2[i] ?? ops.zero);
 	return res;
 }
 
-function polyMultiply(p1: Poly, p2: Poly): Poly {
-	const res = new Array(p1.length + p2.length - 1).fill(0);
+function polyMultiply<T>(p1: Poly<T>, p2: Poly<T>, ops: ScalarOps<T>): Poly<T> {
+	const res: Poly<T> = new Array(p1.length + p2.length - 1).fill(ops.zero);
 	for (let i = 0; i < p1.length; i++) {
 		for (let j = 0; j < p2.length; j++) {
-			res[i + j] += p1[i] * p2[j];
+			res[i + j] = ops.add(res[i + j], ops.mul(p1[i], p2[j]));
 		}
 	}
 	return res;
 }
 
-function polyPower(base: Poly, exp: number): Poly {
-	if (exp === 0) return [1];
-	let res = [1];
-	for (let i = 0; i < exp; i++) res = polyMultiply(res, base);
+function polyPower<T>(base: Poly<T>, exp: number, ops: ScalarOps<T>): Poly<T> {
+	if (exp === 0) return [ops.one];
+	let res: Poly<T> = [ops.one];
+	for (let i = 0; i < exp; i++) res = polyMultiply(res, base, ops);
 	return res;
 }
 
 // ==========================================
 // FORMATTER
 // ==========================================
-function buildPolyString(coeffs: number[]): string {
-	if (coeffs.every((c) => Math.abs(c) < 1e-9)) return "0";
+function buildPolyString<T>(coeffs: T[], ops: ScalarOps<T>): string {
+	if (coeffs.every((c) => ops.isZero(c))) return "0";
 	const degree = coeffs.length - 1;
 
 	const terms = coeffs
 		.map((coeff, index) => {
-			if (Math.abs(coeff) < 1e-9) return "";
+			if (ops.isZero(coeff)) return "";
 			const currentDegree = degree - index;
-			const absCoeff = Math.abs(coeff);
-			const sign = coeff > 0 ? " + " : " - ";
+			const isNegative = ops.isNegative(coeff);
+			const sign = isNegative ? " - " : " + ";
 
-			let valueStr = parseFloat(absCoeff.toFixed(4)).toString();
+			let valueStr = ops.formatAbs(coeff);
 			if (valueStr === "1" && currentDegree > 0) valueStr = "";
 
 			let varStr = "";
 			if (currentDegree === 1) varStr = "x";
 			else if (currentDegree > 0) varStr = `x^${currentDegree}`;
 
-			return { sign, str: `${valueStr}${varStr}`, rawCoeff: coeff };
+			return { sign, str: `${valueStr}${varStr}`, isNegative };
 		})
 		.filter((t) => t !== "");
 
 	return terms
 		.map((t, i) => {
-			if (i === 0) return t.rawCoeff < 0 ? `-${t.str}` : t.str;
+			if (i === 0) return t.isNegative ? `-${t.str}` : t.str;
 			return `${t.sign}${t.str}`;
 		})
 		.join("");
 }
 
-export { expandPolynomialManual };
+/* ━━━━━━━━━━━━━━ Symbolic Coefficients ━━━━━━━━━━━━━━ */
+// Coefficients that are polynomials in the matrix parameters, e.g. (a + 2k)x² - ak
+
+// Functions allowed in symbolic entries, none of them contain the letter x
+const SYMBOLIC_FUNCTIONS = ["sin", "cos", "tan", "sqrt", "log", "abs"];
+
+type SymbolicTerm = {
+	// [parameter, power] sorted by parameter, empty for the constant term
+	factors: [string, number][];
+	coefficient: number;
+};
+type Symbolic = SymbolicTerm[];
+
+/**
+ * Merge like terms, drop the ones that cancelled out and sort by degree
+ */
+function normalizeSymbolic(terms: Symbolic): Symbolic {
+	const merged = new Map<string, SymbolicTerm>();
+	for (const term of terms) {
+		const key = JSON.stringify(term.factors);
+		const existing = merged.get(key);
+		if (existing) existing.coefficient += term.coefficient;
+		else merged.set(key, { factors: term.factors, coefficient: term.coefficient });
+	}
+
+	const degree = (term: SymbolicTerm) =>
+		term.factors.reduce((sum, [, power]) => sum + power, 0);
+	return [...merged.entries()]
+		.filter(([, term]) => Math.abs(term.coefficient) > 1e-12)
+		.sort(([keyA, a], [keyB, b]) => degree(b) - degree(a) || keyA.localeCompare(keyB))
+		.map(([, term]) => term);
+}
+
+function multiplyFactors(
+	a: [string, number][],
+	b: [string, number][]
+): [string, number][] {
+	const powers = new Map(a);
+	for (const [name, power] of b) powers.set(name, (powers.get(name) ?? 0) + power);
+	return [...powers.entries()].sort(([x], [y]) => x.localeCompare(y));
+}
+
+function formatSymbolicTerm(term: SymbolicTerm): string {
+	const factors = term.factors
+		.map(([name, power]) => (power === 1 ? name : `${name}^${power}`))
+		.join(" ");
+	const value = parseFloat(Math.abs(term.coefficient).toFixed(4)).toString();
+	if (!factors) return value;
+	return value === "1" ? factors : `${value}${factors}`;
+}
+
+function formatSymbolic(a: Symbolic): string {
+	if (a.length === 0) return "0";
+	return a
+		.map((term, index) => {
+			const text = formatSymbolicTerm(term);
+			if (index === 0) return term.coefficient < 0 ? `-${text}` : text;
+			return term.coefficient < 0 ? ` - ${text}` : ` + ${text}`;
+		})
+		.join("");
+}
+
+const symbolicOps: ScalarOps<Symbolic> = {
+	fromString: (value) =>
+		normalizeSymbolic([{ factors: [], coefficient: parseFloat(value) }]),
+	fromAtom: (name) => [{ factors: [[name, 1]], coefficient: 1 }],
+	zero: [],
+	one: [{ factors: [], coefficient: 1 }],
+	add: (a, b) => normalizeSymbolic([...a, ...b]),
+	sub: (a, b) =>
+		normalizeSymbolic([
+			...a,
+			...b.map((term) => ({ ...term, coefficient: -term.coefficient })),
+		]),
+	mul: (a, b) =>
+		normalizeSymbolic(
+			a.flatMap((s) =>
+				b.map((t) => ({
+					factors: multiplyFactors(s.factors, t.factors),
+					coefficient: s.coefficient * t.coefficient,
+				}))
+			)
+		),
+	div: (a, b) => {
+		if (b.length !== 1 || b[0].factors.length > 0)
+			throw new Error("Only division by constants supported");
+		return a.map((term) => ({
+			...term,
+			coefficient: term.coefficient / b[0].coefficient,
+		}));
+	},
+	isZero: (a) => a.length === 0,
+	isNegative: (a) => a.length === 1 && a[0].coefficient < 0,
+	// NaN when the value still depends on a parameter
+	toNumber: (a) =>
+		a.length === 0 ? 0 : a.length === 1 && a[0].factors.length === 0 ? a[0].coefficient : NaN,
+	formatAbs: (a) =>
+		a.length === 1 ? formatSymbolicTerm(a[0]) : `(${formatSymbolic(a)})`,
+};
+
+/**
+ * Expand a determinant expression whose entries contain parameters
+ * The result is a polynomial in x with coefficients in the parameters
+ */
+function expandSymbolicPolynomial(equation: string): {
+	expression: string;
+	coefficients: string[];
+} {
+	const result = expandPolynomial(equation, symbolicOps);
+	return {
+		expression: result.expression.toString(),
+		coefficients: (result.coefficients as unknown as Symbolic[]).map(formatSymbolic),
+	};
+}
+
+/**
+ * Format coefficients [an, ..., a0] the same way as the expanded polynomial
+ */
+function formatPolynomial(coefficients: (number | Fraction)[]): string {
+	return typeof coefficients[0] === "number"
+		? buildPolyString(coefficients as number[], floatOps)
+		: buildPolyString(coefficients as Fraction[], fractionOps);
+}
+
+export {
+	expandPolynomialManual,
+	expandSymbolicPolynomial,
+	formatPolynomial,
+	SYMBOLIC_FUNCTIONS,
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { GIF_PALETTE, encodeGif, paletteIndex } from "./gif";
+
+/**
+ * Minimal GIF reader for what encodeGif writes: global palette, extensions,
+ * full-screen frames
+ */
+function decodeGif(bytes: Uint8Array) {
+	const short = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+	const width = short(6);
+	const height = short(8);
+	const frames: number[][] = [];
+	const delays: number[] = [];
+
+	let at = 13 + 3 * 256;
+	while (bytes[at] !== 0x3b) {
+		if (bytes[at] === 0x21) {
+			if (bytes[at + 1] === 0xf9) delays.push(short(at + 4));
+			at += 2;
+			while (bytes[at] !== 0) at += bytes[at] + 1;
+			at++;
+			continue;
+		}
+
+		// Image descriptor, then the LZW data in sub-blocks
+		at += 10;
+		const minCodeSize = bytes[at++];
+		const data: number[] = [];
+		while (bytes[at] !== 0) {
+			data.push(...bytes.slice(at + 1, at + 1 + bytes[at]));
+			at += bytes[at] + 1;
+		}
+		at++;
+		frames.push(lzwDecode(data, minCodeSize));
+	}
+
+	return { header: String.fromCharCode(...bytes.slice(0, 6)), width, height, frames, delays };
+}
+
+function lzwDecode(data: number[], minCodeSize: number): number[] {
+	const clearCode = 1 << minCodeSize;
+	const endCode = clearCode + 1;
+	let codeSize = minCodeSize + 1;
+	let table: number[][] = [];
+	const reset = () => {
+		table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+		codeSize = minCodeSize + 1;
+	};
+
+	const output: number[] = [];
+	let previous: number[] | null = null;
+	let bit = 0;
+	while (bit + codeSize <= data.length * 8) {
+		let code = 0;
+		for (let i = 0; i < codeSize; i++, bit++) {
+			code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+		}
+
+		if (code === clearCode) {
+			reset();
+			previous = null;
+			continue;
+		}
+		if (code === endCode) break;
+
+		const entry: number[] =
+			code < table.length ? table[code] : [...previous!, previous![0]];
+		output.push(...entry);
+		if (previous) table.push([...previous, entry[0]]);
+		previous = entry;
+		if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+	}
+	return output;
+}
+
+describe("encodeGif", () => {
+	it("writes a looping GIF89a with the frame delays", () => {
+		const frame = {
+			width: 2,
+			height: 1,
+			data: new Uint8Array([0, 0, 0, 255, 255, 255, 255, 255]),
+		};
+		const gif = decodeGif(encodeGif([frame, frame], 40));
+
+		expect(gif.header).toBe("GIF89a");
+		expect([gif.width, gif.height]).toEqual([2, 1]);
+		expect(gif.delays).toEqual([4, 4]);
+		expect(gif.frames[0]).toEqual([paletteIndex(0, 0, 0), paletteIndex(255, 255, 255)]);
+	});
+
+	it("round-trips palette colors through LZW", () => {
+		// Long enough runs to fill the 4096-entry table and force a reset
+		const pixels = fc.array(fc.integer({ min: 0, max: 251 }), { minLength: 1, maxLength: 6000 });
+		fc.assert(
+			fc.property(pixels, fc.boolean(), (indices, repetitive) => {
+				const colors = repetitive ? indices.map((i) => i % 3) : indices;
+				const data = new Uint8Array(colors.flatMap((i) => [...GIF_PALETTE[i], 255]));
+				const gif = decodeGif(encodeGif([{ width: colors.length, height: 1, data }], 100));
+				expect(gif.frames[0]).toEqual(colors);
+			}),
+			{ numRuns: 30 }
+		);
+	});
+});
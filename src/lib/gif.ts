@@ -0,0 +1,182 @@
+/* ━━━━━━━━━━━━━━━━ GIF Encoder ━━━━━━━━━━━━━━━━ */
+// Just enough GIF89a to turn the frames of the visualization into a looping
+// animation: one fixed 6×7×6 color cube as the global palette (the scene is
+// flat colors on white, no need for per-frame quantization) and LZW with
+// variable-width codes up to 12 bits
+
+export type GifFrame = {
+	width: number;
+	height: number;
+	// RGBA, 4 bytes per pixel, alpha is ignored
+	data: Uint8ClampedArray | Uint8Array;
+};
+
+const LEVELS = [6, 7, 6];
+
+/**
+ * The color cube, padded to 256 entries with white
+ */
+export const GIF_PALETTE: number[][] = (() => {
+	const palette: number[][] = [];
+	for (let r = 0; r < LEVELS[0]; r++) {
+		for (let g = 0; g < LEVELS[1]; g++) {
+			for (let b = 0; b < LEVELS[2]; b++) {
+				palette.push(
+					[r, g, b].map((level, i) => Math.round((level * 255) / (LEVELS[i] - 1)))
+				);
+			}
+		}
+	}
+	while (palette.length < 256) palette.push([255, 255, 255]);
+	return palette;
+})();
+
+/**
+ * Index of the nearest color of the cube
+ */
+export function paletteIndex(r: number, g: number, b: number): number {
+	const [lr, lg, lb] = [r, g, b].map((value, i) =>
+		Math.round((value * (LEVELS[i] - 1)) / 255)
+	);
+	return (lr * LEVELS[1] + lg) * LEVELS[2] + lb;
+}
+
+class ByteWriter {
+	bytes: number[] = [];
+
+	byte(value: number) {
+		this.bytes.push(value & 0xff);
+	}
+
+	short(value: number) {
+		this.byte(value);
+		this.byte(value >> 8);
+	}
+
+	text(value: string) {
+		for (const char of value) this.byte(char.charCodeAt(0));
+	}
+}
+
+/**
+ * LZW-compress the palette indices of one frame (code size 8)
+ */
+function lzwEncode(indices: Uint8Array, out: ByteWriter) {
+	const minCodeSize = 8;
+	const clearCode = 1 << minCodeSize;
+	const endCode = clearCode + 1;
+
+	let codeSize = minCodeSize + 1;
+	let nextCode = endCode + 1;
+	let table = new Map<number, number>();
+
+	// Codes are packed least significant bit first, then cut into blocks of 255
+	const packed: number[] = [];
+	let buffer = 0;
+	let bits = 0;
+	const emit = (code: number) => {
+		buffer |= code << bits;
+		bits += codeSize;
+		while (bits >= 8) {
+			packed.push(buffer & 0xff);
+			buffer >>>= 8;
+			bits -= 8;
+		}
+	};
+
+	emit(clearCode);
+	let prefix = indices[0];
+	for (let i = 1; i < indices.length; i++) {
+		const key = (prefix << 8) | indices[i];
+		const code = table.get(key);
+		if (code !== undefined) {
+			prefix = code;
+			continue;
+		}
+
+		emit(prefix);
+		if (nextCode === 4096) {
+			// Table full, start over
+			emit(clearCode);
+			table = new Map();
+			codeSize = minCodeSize + 1;
+			nextCode = endCode + 1;
+		} else {
+			if (nextCode >= 1 << codeSize) codeSize++;
+			table.set(key, nextCode++);
+		}
+		prefix = indices[i];
+	}
+	emit(prefix);
+	emit(endCode);
+	if (bits > 0) packed.push(buffer & 0xff);
+
+	out.byte(minCodeSize);
+	for (let start = 0; start < packed.length; start += 255) {
+		const block = packed.slice(start, start + 255);
+		out.byte(block.length);
+		block.forEach((value) => out.byte(value));
+	}
+	out.byte(0);
+}
+
+/**
+ * Encode the frames as a GIF that loops forever, all frames must have the
+ * size of the first one
+ */
+export function encodeGif(frames: GifFrame[], delayMs: number): Uint8Array<ArrayBuffer> {
+	const { width, height } = frames[0];
+	const out = new ByteWriter();
+
+	out.text("GIF89a");
+	out.short(width);
+	out.short(height);
+	// Global color table of 2^(7 + 1) colors, 8 bits per channel
+	out.byte(0xf7);
+	out.byte(0);
+	out.byte(0);
+	GIF_PALETTE.forEach((color) => color.forEach((value) => out.byte(value)));
+
+	// Netscape extension: loop forever
+	out.byte(0x21);
+	out.byte(0xff);
+	out.byte(11);
+	out.text("NETSCAPE2.0");
+	out.byte(3);
+	out.byte(1);
+	out.short(0);
+	out.byte(0);
+
+	for (const frame of frames) {
+		// Graphic control: keep the frame in place, delay in hundredths of a second
+		out.byte(0x21);
+		out.byte(0xf9);
+		out.byte(4);
+		out.byte(0x04);
+		out.short(Math.round(delayMs / 10));
+		out.byte(0);
+		out.byte(0);
+
+		// Image descriptor covering the whole screen, no local color table
+		out.byte(0x2c);
+		out.short(0);
+		out.short(0);
+		out.short(width);
+		out.short(height);
+		out.byte(0);
+
+		const indices = new Uint8Array(width * height);
+		for (let i = 0; i < indices.length; i++) {
+			const offset = 4 * i;
+			indices[i] = paletteIndex(
+				frame.data[offset],
+				frame.data[offset + 1],
+				frame.data[offset + 2]
+			);
+		}
+		lzwEncode(indices, out);
+	}
+
+	out.byte(0x3b);
+	return Uint8Array.from(out.bytes);
+}
@@ -0,0 +1,68 @@
+/* ━━━━━━━━━━━━━━━━ Public API ━━━━━━━━━━━━━━━━ */
+// Entry point of the standalone library (`npm run build:lib`). Everything
+// exported here keeps its signature between releases, the other modules in
+// lib/ are internal and may change with the web app
+
+// Eigenvalues, eigenspaces, diagonalization and Jordan form
+export {
+	findEigenvalues,
+	DEFAULT_TOLERANCE,
+	MAX_MATRIX_SIZE,
+	type EigenMethod,
+	type EigenOptions,
+	type EigenResult,
+	type EigenStage,
+	type SymbolicSteps,
+} from "./eigenStuffFinder";
+export type { QRStatus } from "./solver/usingDiagonalization";
+
+// Linear systems and row reduction
+export { findNullSpace, matrixRank, rref, solveLinearSystem } from "./matrixOperations";
+
+// Singular values, power iteration and phase portraits
+export { singularValueDecomposition } from "./singularValues";
+export { dominantEigenvalue, powerIteration } from "./powerIteration";
+export { classifyEquilibrium, trajectory, vectorField } from "./phasePortrait";
+export { rotationScalingPlanes } from "./rotationScaling";
+
+// Determinants
+export {
+	calculateComplexDeterminant,
+	calculateDeterminant,
+	characteristicPolynomialCoefficients,
+} from "./matrixOperations";
+
+// Everything thrown on purpose is an EigenError with a code
+export {
+	ConvergenceError,
+	EigenError,
+	InvalidInputError,
+	ParseError,
+	UnsupportedSizeError,
+	type EigenErrorCode,
+} from "./errors";
+
+// Logging, silent unless a logger is plugged in
+export { consoleLogger, setLogger, silentLogger, type Logger } from "./logger";
+
+export type {
+	BasisVector,
+	Complex,
+	ComplexVector,
+	Diagonalization,
+	DynamicsMode,
+	Eigenspace,
+	EigenspaceDerivation,
+	Eigenvalue,
+	Equilibrium,
+	EquilibriumType,
+	JordanChain,
+	JordanForm,
+	LatexString,
+	Matrix,
+	MatrixWString,
+	PowerIterationStep,
+	RotationScaling,
+	RowReductionStep,
+	SingularValueDecomposition,
+} from "./math";
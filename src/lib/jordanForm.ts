@@ -0,0 +1,143 @@
+import type { Eigenvalue, JordanChain, JordanForm, Matrix } from "./math";
+import { isRealValue } from "./complex";
+import {
+	findNullSpace,
+	invertMatrix,
+	matrixRank,
+	multiplyMatrices,
+	multiplyMatrixVector,
+} from "./matrixOperations";
+import { logger } from "./logger";
+
+/* ━━━━━━━━━━━━━━ Jordan Canonical Form ━━━━━━━━━━━━━━ */
+// Generalized eigenvectors come from the null spaces of (A - λI)^k,
+// a chain v1 ← v2 ← ... ← vk is built top-down from vk with v(j-1) = (A - λI)vj
+
+/**
+ * Scale a vector so its largest component is ±1 (keeps the rank checks well scaled)
+ */
+function normalizeVector(vector: number[]): number[] {
+	const largest = Math.max(...vector.map(Math.abs));
+	return largest === 0 ? vector : vector.map((value) => value / largest);
+}
+
+/**
+ * Check whether a vector is a linear combination of the given ones
+ */
+function isInSpan(vectors: number[][], vector: number[]): boolean {
+	if (vectors.length === 0) return vector.every((value) => Math.abs(value) < 1e-9);
+	const rows = vectors.map(normalizeVector);
+	return matrixRank([...rows, normalizeVector(vector)]) === matrixRank(rows);
+}
+
+/**
+ * Jordan chains for a single eigenvalue λ
+ */
+function findJordanChains(
+	matrix: Matrix,
+	eigenvalue: Eigenvalue
+): { chains: JordanChain[]; dimensions: number[] } {
+	const n = matrix.length;
+	const lambda = eigenvalue.value.re;
+	const N = matrix.map((row, i) =>
+		row.map((value, j) => (i === j ? value - lambda : value))
+	);
+
+	// Kernels of N, N², ... until they hold all m generalized eigenvectors
+	const kernels: number[][][] = [];
+	const dimensions: number[] = [];
+	let power = N;
+	while (kernels.length < eigenvalue.multiplicity) {
+		const kernel = findNullSpace(power);
+		kernels.push(kernel);
+		dimensions.push(kernel.length);
+		if (kernel.length >= eigenvalue.multiplicity) break;
+		// No growth means the kernels have stabilized (numerical trouble)
+		if (dimensions.length > 1 && kernel.length === dimensions[dimensions.length - 2]) break;
+		power = multiplyMatrices(N, power);
+	}
+
+	// Pick chain heads from the highest level down. A head at level k lies in
+	// null(N^k) but not in null(N^(k-1)) + span of the vectors already at level k
+	const chains: JordanChain[] = [];
+	const levels: number[][][] = Array(kernels.length)
+		.fill(null)
+		.map(() => []);
+
+	for (let k = kernels.length; k >= 1; k--) {
+		const lowerKernel = k > 1 ? kernels[k - 2] : [];
+		for (const candidate of kernels[k - 1]) {
+			if (isInSpan([...lowerKernel, ...levels[k - 1]], candidate)) continue;
+
+			// Walk down the chain: vk, N vk, N² vk, ..., v1 (an eigenvector)
+			const vectors: number[][] = [candidate];
+			for (let j = k - 1; j >= 1; j--) {
+				vectors.unshift(multiplyMatrixVector(N, vectors[0]));
+			}
+			vectors.forEach((vector, j) => levels[j].push(vector));
+			chains.push({ eigenvalue, vectors });
+		}
+	}
+
+	// Longest chains first, that is the usual order of the Jordan blocks
+	chains.sort((a, b) => b.vectors.length - a.vectors.length);
+
+	if (chains.reduce((sum, chain) => sum + chain.vectors.length, 0) !== eigenvalue.multiplicity) {
+		logger.warn(`Jordan chains for λ = ${lambda} don't match its multiplicity (n = ${n})`);
+	}
+
+	return { chains, dimensions };
+}
+
+/**
+ * Jordan canonical form A = PJP⁻¹
+ * Only real spectra are handled, returns null when there are non-real eigenvalues
+ * or the chains don't add up to a basis (e.g. eigenvalues missing)
+ */
+export function findJordanForm(
+	matrix: Matrix,
+	eigenvalues: Eigenvalue[]
+): JordanForm | null {
+	const n = matrix.length;
+	if (
+		eigenvalues.some((ev) => !isRealValue(ev.value)) ||
+		eigenvalues.reduce((sum, ev) => sum + ev.multiplicity, 0) !== n
+	) {
+		return null;
+	}
+
+	const chains: JordanChain[] = [];
+	const kernelDimensions: JordanForm["kernelDimensions"] = [];
+	for (const eigenvalue of eigenvalues) {
+		const result = findJordanChains(matrix, eigenvalue);
+		chains.push(...result.chains);
+		kernelDimensions.push({ eigenvalue, dimensions: result.dimensions });
+	}
+
+	// Columns of P are the chains one after another, each chain is one Jordan block
+	const columns = chains.flatMap((chain) => chain.vectors);
+	if (columns.length !== n) return null;
+
+	const P = matrix.map((_, i) => columns.map((column) => column[i]));
+	const PInverse = invertMatrix(P);
+	if (!PInverse) return null;
+
+	const J: Matrix = Array(n)
+		.fill(null)
+		.map(() => Array(n).fill(0));
+	let offset = 0;
+	for (const chain of chains) {
+		for (let j = 0; j < chain.vectors.length; j++) {
+			J[offset + j][offset + j] = chain.eigenvalue.value.re;
+			if (j > 0) J[offset + j - 1][offset + j] = 1;
+		}
+		offset += chain.vectors.length;
+	}
+
+	const PJPInverse = multiplyMatrices(multiplyMatrices(P, J), PInverse);
+	const residual = Math.max(
+		...PJPInverse.flatMap((row, i) => row.map((value, j) => Math.abs(value - matrix[i][j])))
+	);
+
+	return { J, P, PInverse, chains, kernelDimensions, residual };
+}
@@ -1,7 +1,27 @@
-import type { Eigenvalue } from "./math";
+import type { Complex, Eigenvalue, MatrixWString } from "./math";
+import { formatComplex, isRealValue } from "./complex";
+import { logger } from "./logger";
 
 // Helper functions to format mathematical content for LaTeX display
 
+/**
+ * Turn plain fractions like "1/3" into \frac{1}{3}
+ */
+function formatFractionsLatex(expression: string): string {
+	return expression.replace(/(\d+)\s*\/\s*(\d+)/g, "\\frac{$1}{$2}");
+}
+
+/**
+ * Typeset the functions and constants allowed in symbolic entries, "cos(t)" → \cos(t)
+ */
+function formatSymbolsLatex(expression: string): string {
+	return expression
+		.replace(/\b(sin|cos|tan|log)\b/g, "\\$1")
+		.replace(/\b(sqrt|abs)\b/g, "\\operatorname{$1}")
+		.replace(/\bpi\b/g, "\\pi")
+		.replace(/\s*\*\s*/g, " \\cdot ");
+}
+
 /**
  * Format matrix for LaTeX display
  */
@@ -12,7 +32,9 @@ function formatMatrixLatex(matrix: (string | number)[][]): string {
 				.map((cell) => {
 					if (typeof cell === "string") {
 						// Replace 'x' with proper LaTeX variable
-						return cell.replace(/x/g, "\\lambda");
+						return formatSymbolsLatex(
+							formatFractionsLatex(cell.replace(/x/g, "\\lambda"))
+						);
 					}
 					return cell.toString();
 				})
@@ -23,11 +45,74 @@ function formatMatrixLatex(matrix: (string | number)[][]): string {
 	return `\\begin{bmatrix} ${rows} \\end{bmatrix}`;
 }
 
+/**
+ * Format a numeric matrix for LaTeX, rounded so float noise doesn't show
+ */
+function formatNumericMatrixLatex(matrix: MatrixWString, digits: number = 4): string {
+	return formatMatrixLatex(
+		matrix.map((row) =>
+			row.map((value) =>
+				typeof value === "number" ? roundForDisplay(value, digits) : value
+			)
+		)
+	);
+}
+
+/**
+ * Format a vector as a LaTeX column vector
+ */
+function formatVectorLatex(vector: (number | string)[], digits: number = 4): string {
+	return formatNumericMatrixLatex(
+		vector.map((value) => [value]),
+		digits
+	);
+}
+
+/**
+ * Format an augmented matrix [A | B] for LaTeX, the bar goes after column `split`
+ */
+function formatAugmentedMatrixLatex(
+	matrix: MatrixWString,
+	split: number,
+	digits: number = 4
+): string {
+	const columns = `${"c".repeat(split)}|${"c".repeat(matrix[0].length - split)}`;
+	const rows = matrix
+		.map((row) =>
+			row
+				.map((value) =>
+					typeof value === "number"
+						? roundForDisplay(value, digits)
+						: formatFractionsLatex(value)
+				)
+				.join(" & ")
+		)
+		.join(" \\\\ ");
+	return `\\left[\\begin{array}{${columns}} ${rows} \\end{array}\\right]`;
+}
+
+/**
+ * Format a row operation such as "R2 ← R2 − 3R1" for LaTeX
+ */
+function formatRowOperationLatex(operation: string): string {
+	return formatFractionsLatex(operation)
+		.replace(/R(\d+)/g, "R_{$1}")
+		.replace(/←/g, "\\leftarrow ")
+		.replace(/↔/g, "\\leftrightarrow ")
+		.replace(/−/g, "-");
+}
+
+function roundForDisplay(value: number, digits: number): number {
+	const rounded = parseFloat(value.toFixed(digits));
+	// Avoid printing "-0"
+	return rounded === 0 ? 0 : rounded;
+}
+
 /**
  * Format expression for LaTeX display
  */
 function formatExpressionLatex(expression: string): string {
-	return expression
+	return formatSymbolsLatex(formatFractionsLatex(expression))
 		.replace(/x/g, "\\lambda")
 		.replace(/\*/g, "\\cdot")
 		.replace(/\^(\d+)/g, "^{$1}");
@@ -52,22 +137,45 @@ function cleanExpressionLatex(expression: string): string {
 		.replace(/\]/g, ")")
 		.replace(/{/g, "")
 		.replace(/}/g, "");
-	console.log("CLEANED EXPRESSION:", final);
+	logger.debug("CLEANED EXPRESSION:", final);
 	return final;
 }
 
+/**
+ * Format a complex value for LaTeX, "a + bi" or "a \\pm bi" for a conjugate pair
+ */
+function formatComplexLatex(
+	value: Complex,
+	digits: number = 4,
+	conjugatePair: boolean = false
+): string {
+	return formatComplex(value, digits, conjugatePair).replace("±", "\\pm ");
+}
+
 /**
  * Format eigenvalues for LaTeX display
+ * Complex conjugate pairs are collapsed into a single "a ± bi" entry
  */
-function formatEigenvaluesLatex(eigenvalues: Eigenvalue[]): string {
-	const formattedValues = eigenvalues.map((val) => {
-		// if (typeof val === Eigenva) {
-		let string = val.value.toFixed(4);
-		if (val.multiplicity != 1 && val.multiplicity != undefined) {
-			string += `\\ (\\text{with multiplicity } ${val.multiplicity})`;
-		}
-		return string;
-	});
+function formatEigenvaluesLatex(eigenvalues: Eigenvalue[], digits: number = 4): string {
+	const hasConjugate = (val: Eigenvalue) =>
+		!isRealValue(val.value) &&
+		eigenvalues.some(
+			(other) =>
+				other.value.re === val.value.re && other.value.im === -val.value.im
+		);
+
+	const formattedValues = eigenvalues
+		// the a - bi half is already covered by a ± bi
+		.filter((val) => !(val.value.im < 0 && hasConjugate(val)))
+		.map((val) => {
+			let string = val.exact
+				? formatFractionsLatex(val.exact)
+				: formatComplexLatex(val.value, digits, hasConjugate(val));
+			if (val.multiplicity != 1 && val.multiplicity != undefined) {
+				string += `\\ (\\text{with multiplicity } ${val.multiplicity})`;
+			}
+			return string;
+		});
 
 	return `\\sigma(A) = \\{${formattedValues.join(", ")}\\}`;
 }
@@ -161,9 +269,15 @@ function formatXIMinusAMatrix(xIMinusA: (string | number)[][]): string {
 
 export {
 	formatMatrixLatex,
+	formatNumericMatrixLatex,
+	formatAugmentedMatrixLatex,
+	formatRowOperationLatex,
+	formatVectorLatex,
 	formatXIMinusAMatrix,
 	formatExpressionLatex,
 	formatEigenvaluesLatex,
+	formatComplexLatex,
+	formatFractionsLatex,
 	cleanExpressionLatex,
 	splitLatexByOperators,
 	coefficientToPolynomial,
@@ -0,0 +1,39 @@
+/* ━━━━━━━━━━━━━━━━ Logger ━━━━━━━━━━━━━━━━ */
+// The engine reports its intermediate results (polynomials, roots, QR iterations...)
+// through this logger instead of the console. It is silent until a logger is
+// plugged in with setLogger, e.g. the web app does so in development builds
+
+export interface Logger {
+	debug: (...data: unknown[]) => void;
+	warn: (...data: unknown[]) => void;
+	error: (...data: unknown[]) => void;
+}
+
+const ignore = () => undefined;
+
+export const silentLogger: Logger = { debug: ignore, warn: ignore, error: ignore };
+
+export const consoleLogger: Logger = {
+	debug: (...data) => console.log(...data),
+	warn: (...data) => console.warn(...data),
+	error: (...data) => console.error(...data),
+};
+
+let current: Logger = silentLogger;
+
+/**
+ * Send the engine's logs to `next`, null silences them again
+ * Each Web Worker has its own copy of this module and needs its own call
+ */
+export function setLogger(next: Logger | null) {
+	current = next ?? silentLogger;
+}
+
+/**
+ * Logger used inside lib/, forwards to whichever logger is plugged in
+ */
+export const logger: Logger = {
+	debug: (...data) => current.debug(...data),
+	warn: (...data) => current.warn(...data),
+	error: (...data) => current.error(...data),
+};
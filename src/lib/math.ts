@@ -10,16 +10,165 @@ export type characteristicPolynomial = {
 	coefficients: MathType[];
 };
 
+export type Complex = {
+	re: number;
+	im: number;
+};
+
 export type Eigenvalue = {
-	value: number;
+	value: Complex;
 	multiplicity: number;
+	// Exact rational value as "p/q" (exact arithmetic mode only)
+	exact?: string;
 };
 
 export type MatrixWString = (string | number)[][];
 export type Matrix = number[][];
 export type BasisVector = number[][];
+export type ComplexVector = Complex[];
+
+export type RowReductionStep = {
+	// Elementary row operation, e.g. "R2 ← R2 − 3R1"
+	operation: string;
+	// Matrix after the operation
+	matrix: MatrixWString;
+};
+
+export type EigenspaceDerivation = {
+	// λI - A with the eigenvalue substituted
+	start: MatrixWString;
+	steps: RowReductionStep[];
+	// Columns that are free variables, one basis vector per free variable
+	freeVariables: number[];
+};
 
 export type Eigenspace = {
 	eigenvalue: Eigenvalue;
 	basis: BasisVector;
+	// Only set for non-real eigenvalues, `basis` is left empty in that case
+	complexBasis?: ComplexVector[];
+	// Exact rational components as "p/q" (exact arithmetic mode only)
+	exactBasis?: string[][];
+	// Row reduction of λI - A that leads to the basis (real eigenvalues only)
+	derivation?: EigenspaceDerivation;
+};
+
+export type JordanChain = {
+	eigenvalue: Eigenvalue;
+	// [v1, ..., vk] with (A - λI)v1 = 0 and (A - λI)v(j+1) = vj
+	vectors: number[][];
+};
+
+export type JordanForm = {
+	J: Matrix;
+	P: Matrix;
+	PInverse: Matrix;
+	chains: JordanChain[];
+	// dim null((A - λI)^k) for k = 1, 2, ... per eigenvalue, in the order of `eigenvalues`
+	kernelDimensions: { eigenvalue: Eigenvalue; dimensions: number[] }[];
+	// max |PJP⁻¹ - A|
+	residual: number;
+};
+
+export type Diagonalization =
+	| {
+			diagonalizable: true;
+			P: Matrix;
+			D: Matrix;
+			PInverse: Matrix;
+			// [P | I] and the row operations that turn it into [I | P⁻¹]
+			start: Matrix;
+			reduction: RowReductionStep[];
+			// max |PDP⁻¹ - A|
+			residual: number;
+	  }
+	| {
+			diagonalizable: false;
+			reason: string;
+	  };
+
+export type EigenvalueCheck = {
+	// Candidate from the solver, after snapping to nearby integers
+	eigenvalue: Complex;
+	// det(A - λI), ≈ 0 for an eigenvalue
+	determinant: Complex;
+	// |det(A - λI)| has to stay below this (tolerance × Hadamard's bound)
+	threshold: number;
+	accepted: boolean;
+};
+
+export type EigenvectorResidual = {
+	eigenvalue: Eigenvalue;
+	// Largest ‖Av - λv‖ / (‖A‖‖v‖) over the basis of the eigenspace
+	residual: number;
+};
+
+export type SolverDiagnostics = {
+	// "roots" solved the characteristic polynomial, "qr" ran the shifted QR algorithm
+	method: "roots" | "qr";
+	// Relative tolerance the checks were made with
+	tolerance: number;
+	eigenvalueChecks: EigenvalueCheck[];
+	residuals: EigenvectorResidual[];
+	// Fallbacks, failures and precision caveats, in the order they happened
+	warnings: string[];
+};
+
+export type SingularValueDecomposition = {
+	// A = UΣVᵀ, Σ = diag(singularValues)
+	U: Matrix;
+	// σ₁ ≥ σ₂ ≥ ... ≥ 0
+	singularValues: number[];
+	V: Matrix;
+};
+
+export type PowerIterationStep = {
+	// Aʲv, divided by its length after every step when normalizing
+	vector: number[];
+	// xᵀAx / xᵀx for this iterate, null once it has collapsed to 0
+	rayleighQuotient: number | null;
+};
+
+export type DynamicsMode =
+	// x' = Ax
+	| "continuous"
+	// x_{k+1} = Ax_k
+	| "discrete";
+
+export type EquilibriumType =
+	| "saddle"
+	| "node"
+	| "degenerate node"
+	| "star"
+	| "spiral"
+	| "center"
+	// det A = 0, a whole line of equilibria
+	| "non-isolated"
+	// Discrete map with a real eigenvalue of modulus 1
+	| "non-hyperbolic";
+
+export type Equilibrium = {
+	type: EquilibriumType;
+	stability: "stable" | "unstable" | "neutral";
+	trace: number;
+	determinant: number;
+	// trace² − 4 det, the sign tells real from complex eigenvalues
+	discriminant: number;
+	eigenvalues: Complex[];
+};
+
+export type RotationScaling = {
+	// Position of the eigenspace of a − bi in the list it was found in
+	index: number;
+	// λ = a ± bi with b > 0
+	a: number;
+	b: number;
+	// |λ| and arg(a + bi), in radians
+	modulus: number;
+	angle: number;
+	// Re v and Im v for an eigenvector v of a − bi, picked orthogonal to each other.
+	// On their span A acts as the block [[a, −b], [b, a]]
+	realPart: number[];
+	imaginaryPart: number[];
+	block: Matrix;
 };
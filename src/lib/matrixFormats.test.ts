@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { MATRIX_FORMATS, formatMatrixText, parseMatrixText } from "./matrixFormats";
+
+const entries = [
+	["1", "-2", "1/2"],
+	["2*k", "cos(t)", "0"],
+	["-3.5", "k^2", "sin(t)"],
+];
+
+describe("parseMatrixText", () => {
+	it("reads back every format it writes", () => {
+		for (const { format } of MATRIX_FORMATS) {
+			const parsed = parseMatrixText(formatMatrixText(entries, format));
+			expect(parsed.format).toBe(format);
+			expect(parsed.entries, format).toEqual(entries);
+		}
+	});
+
+	it("reads back integer matrices in every format", () => {
+		const squareMatrix = fc.integer({ min: 1, max: 6 }).chain((n) =>
+			fc.array(fc.array(fc.integer({ min: -99, max: 99 }), { minLength: n, maxLength: n }), {
+				minLength: n,
+				maxLength: n,
+			})
+		);
+		fc.assert(
+			fc.property(squareMatrix, fc.constantFrom(...MATRIX_FORMATS), (matrix, { format }) => {
+				const cells = matrix.map((row) => row.map(String));
+				expect(parseMatrixText(formatMatrixText(cells, format)).entries).toEqual(cells);
+			})
+		);
+	});
+
+	it("reads spaced signs the way MATLAB does", () => {
+		expect(parseMatrixText("[1 -2; 3 4]").entries).toEqual([
+			["1", "-2"],
+			["3", "4"],
+		]);
+		expect(parseMatrixText("[1 - 2 3; 4 5]").entries).toEqual([
+			["1-2", "3"],
+			["4", "5"],
+		]);
+		expect(parseMatrixText("[2 * k +1; cos(t + 1) 4]").entries).toEqual([
+			["2*k", "+1"],
+			["cos(t+1)", "4"],
+		]);
+		expect(parseMatrixText("1 -2\n3 + 1 4").entries).toEqual([
+			["1", "-2"],
+			["3+1", "4"],
+		]);
+	});
+
+	it("rejects a spaced sign that leaves a row short", () => {
+		expect(() => parseMatrixText("[1 - 2; 3 4]")).toThrow("square");
+	});
+
+	it("rejects ragged, empty and oversized input", () => {
+		expect(() => parseMatrixText("")).toThrow("Paste a matrix");
+		expect(() => parseMatrixText("[[1, 2], [3]]")).toThrow("square");
+		expect(() => parseMatrixText("1,2\n3,4\n5,6")).toThrow("square");
+		expect(() => parseMatrixText("\\begin{bmatrix} 1 & 2 \\\\ 3 & 4")).toThrow("LaTeX");
+		const big = Array.from({ length: 13 }, () => Array(13).fill("1").join(",")).join("\n");
+		expect(() => parseMatrixText(big)).toThrow("up to");
+	});
+});
@@ -0,0 +1,378 @@
+import { type Complex } from "./math";
+import { isRealValue } from "./complex";
+import { MAX_MATRIX_SIZE, type EigenResult } from "./eigenStuffFinder";
+import { normalizeEntry } from "./symbolic";
+import {
+	formatComplexLatex,
+	formatMatrixLatex,
+	formatNumericMatrixLatex,
+	formatExpressionLatex,
+} from "./latexFormatter";
+
+/* ━━━━━━━━━━━━━━ Matrix Import / Export ━━━━━━━━━━━━━━ */
+// Pasted text in JSON, CSV/TSV, MATLAB, NumPy or LaTeX becomes raw cell strings,
+// and the matrix or the computed results can be written back in the same formats
+
+export type MatrixFormat = "json" | "csv" | "tsv" | "matlab" | "numpy" | "latex";
+
+export const MATRIX_FORMATS: {
+	format: MatrixFormat;
+	label: string;
+	extension: string;
+}[] = [
+	{ format: "json", label: "JSON", extension: "json" },
+	{ format: "csv", label: "CSV", extension: "csv" },
+	{ format: "tsv", label: "TSV", extension: "tsv" },
+	{ format: "matlab", label: "MATLAB", extension: "m" },
+	{ format: "numpy", label: "NumPy", extension: "py" },
+	{ format: "latex", label: "LaTeX", extension: "tex" },
+];
+
+export function formatLabel(format: MatrixFormat): string {
+	return MATRIX_FORMATS.find((entry) => entry.format === format)?.label ?? format;
+}
+
+/* ━━━━━━━━━━━━━━━━━━━━ Import ━━━━━━━━━━━━━━━━━━━━ */
+
+/**
+ * Parse pasted text into raw cell strings, the format is detected from the text
+ * Throws when the text is not a square matrix of a supported size
+ */
+export function parseMatrixText(text: string): {
+	entries: string[][];
+	format: MatrixFormat;
+} {
+	const trimmed = text.trim();
+	if (trimmed === "") throw new Error("Paste a matrix first.");
+
+	let format: MatrixFormat;
+	let rows: string[][];
+	if (/\\begin\{/.test(trimmed)) {
+		format = "latex";
+		rows = parseLatexRows(trimmed);
+	} else if (/^[\w.]*array\s*\(/.test(trimmed)) {
+		format = "numpy";
+		rows = parseNestedList(trimmed).map((row) => row.map(fromPython));
+	} else if (/^\[\s*\[/.test(trimmed)) {
+		format = "json";
+		rows = parseNestedList(trimmed).map((row) => row.map(fromPython));
+	} else if (trimmed.startsWith("[")) {
+		format = "matlab";
+		rows = parseMatlabRows(trimmed);
+	} else {
+		format = /\t/.test(trimmed) ? "tsv" : "csv";
+		rows = parseDelimitedRows(trimmed);
+	}
+
+	const n = rows.length;
+	if (n === 0) throw new Error("No rows found in the pasted text.");
+	if (rows.some((row) => row.length !== n)) {
+		throw new Error(
+			`The matrix must be square, got ${n} rows with ${rows
+				.map((row) => row.length)
+				.join(", ")} entries.`
+		);
+	}
+	if (n > MAX_MATRIX_SIZE) {
+		throw new Error(`Matrices up to ${MAX_MATRIX_SIZE}×${MAX_MATRIX_SIZE} are supported.`);
+	}
+
+	return { entries: rows.map((row) => row.map((cell) => cell.trim())), format };
+}
+
+/**
+ * [[1, 2], [3, 4]] as JSON or a Python list, the inner lists are the rows
+ */
+function parseNestedList(text: string): string[][] {
+	const start = text.indexOf("[");
+	const end = text.lastIndexOf("]");
+	const body = text.slice(start + 1, end);
+	return [...body.matchAll(/\[([^[\]]*)\]/g)].map((match) =>
+		match[1].split(",").map((cell) => cell.trim().replace(/^["']|["']$/g, ""))
+	);
+}
+
+/**
+ * Python spelling of an entry: "np.cos(t)" → "cos(t)", "a**2" → "a^2"
+ */
+function fromPython(cell: string): string {
+	return cell.replace(/\b(np|numpy|math)\./g, "").replace(/\*\*/g, "^");
+}
+
+/**
+ * MATLAB [1 2; 3 4] or [1, 2; 3, 4], rows can also be on separate lines
+ */
+function parseMatlabRows(text: string): string[][] {
+	const body = text.slice(text.indexOf("[") + 1, text.lastIndexOf("]"));
+	return body
+		.split(/;|\n/)
+		.map((row) => row.trim())
+		.filter((row) => row !== "")
+		.map((row) => (row.includes(",") ? row.split(",") : splitOnSpaces(row)));
+}
+
+/**
+ * Space separated entries read the way MATLAB reads them: "1 -2" is two
+ * entries, "1 - 2", "1-2" and "2 * k" are one, and so is "cos(t + 1)"
+ */
+function splitOnSpaces(row: string): string[] {
+	const joined = row
+		.trim()
+		.replace(/\s+([+-])\s+/g, "$1")
+		.replace(/\s*([*/^])\s*/g, "$1")
+		.replace(/([+\-*/^(])\s+/g, "$1");
+	const cells: string[] = [];
+	let depth = 0;
+	let cell = "";
+	for (const char of joined) {
+		if (char === "(") depth++;
+		if (char === ")") depth--;
+		if (/\s/.test(char) && depth <= 0) {
+			if (cell !== "") cells.push(cell);
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+	if (cell !== "") cells.push(cell);
+	return cells;
+}
+
+/**
+ * Spreadsheet rows: tab, comma, semicolon or space separated
+ */
+function parseDelimitedRows(text: string): string[][] {
+	const lines = text
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line !== "");
+	const delimiter = /\t/.test(text)
+		? "\t"
+		: /,/.test(text)
+			? ","
+			: /;/.test(text)
+				? ";"
+				: null;
+	return lines.map((line) =>
+		(delimiter ? line.split(delimiter) : splitOnSpaces(line)).map((cell) =>
+			cell.trim().replace(/^"|"$/g, "")
+		)
+	);
+}
+
+/**
+ * \begin{bmatrix} 1 & \frac{1}{2} \\ \cos(t) & 4 \end{bmatrix} (any matrix or array environment)
+ */
+function parseLatexRows(text: string): string[][] {
+	const match = text.match(/\\begin\{(\w*)\}(?:\{[^}]*\})?([\s\S]*?)\\end\{\1\}/);
+	if (!match) throw new Error("Couldn't find the end of the LaTeX environment.");
+	return match[2]
+		.split(/\\\\/)
+		.map((row) => row.trim())
+		.filter((row) => row !== "")
+		.map((row) => row.split("&").map(fromLatex));
+}
+
+/**
+ * Plain spelling of a LaTeX entry: "\frac{1}{2}" → "1/2", "2\cos(t)" → "2cos(t)"
+ */
+function fromLatex(cell: string): string {
+	return cell
+		.replace(/\\[dt]?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, (_, numerator, denominator) =>
+			/^[\d.]+$/.test(numerator) && /^[\d.]+$/.test(denominator)
+				? `${numerator}/${denominator}`
+				: `(${numerator})/(${denominator})`
+		)
+		.replace(/\s*\\(cdot|times)\s*/g, "*")
+		.replace(/\\(left|right)/g, "")
+		.replace(/\\operatorname\{(\w+)\}/g, "$1")
+		.replace(/\\(\w+)/g, "$1")
+		.replace(/\\[,;!]|~/g, " ")
+		.replace(/\{/g, "(")
+		.replace(/\}/g, ")")
+		.trim();
+}
+
+/* ━━━━━━━━━━━━━━━━━━━━ Export ━━━━━━━━━━━━━━━━━━━━ */
+
+/**
+ * Write the raw cell strings of the matrix in the given format
+ */
+export function formatMatrixText(entries: string[][], format: MatrixFormat): string {
+	const cells = entries.map((row) =>
+		row.map((cell) => (cell.trim() === "" ? "0" : cell.trim()))
+	);
+
+	switch (format) {
+		case "json":
+			return `[\n${cells
+				.map((row) => `  [${row.map(toJsonCell).join(", ")}]`)
+				.join(",\n")}\n]`;
+		case "csv":
+			return cells.map((row) => row.map(toCsvCell).join(",")).join("\n");
+		case "tsv":
+			return cells.map((row) => row.join("\t")).join("\n");
+		case "matlab":
+			return `[${cells.map((row) => row.map(toMatlab).join(" ")).join("; ")}]`;
+		case "numpy":
+			return `np.array([${cells
+				.map((row) => `[${row.map(toPython).join(", ")}]`)
+				.join(", ")}])`;
+		case "latex":
+			return formatMatrixLatex(cells);
+	}
+}
+
+function toJsonCell(cell: string): string {
+	const value = Number(cell);
+	return isFinite(value) ? value.toString() : JSON.stringify(cell);
+}
+
+function toCsvCell(cell: string): string {
+	return /[",]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Entry with explicit operators and without spaces, "2k" → "2*k"
+ */
+function toCode(cell: string): string {
+	try {
+		return normalizeEntry(cell).replace(/\s+/g, "");
+	} catch {
+		return cell.replace(/\s+/g, "");
+	}
+}
+
+function toMatlab(cell: string): string {
+	return toCode(cell).replace(/\be\b/g, "exp(1)");
+}
+
+function toPython(cell: string): string {
+	return toCode(cell)
+		.replace(/\^/g, "**")
+		.replace(/\b(sin|cos|tan|sqrt|log|abs|pi|e)\b/g, "np.$1");
+}
+
+/**
+ * Write the eigenvalues, eigenvectors and factorizations in the given format
+ */
+export function formatEigenResultText(result: EigenResult, format: MatrixFormat): string {
+	// One entry per eigenvector, the eigenvalue is repeated for each basis vector
+	const pairs = result.eigenspaces.flatMap((eigenspace) =>
+		(
+			eigenspace.complexBasis ??
+			eigenspace.basis.map((vector) => vector.map((re) => ({ re, im: 0 })))
+		).map((vector, index) => ({
+			eigenvalue: eigenspace.eigenvalue,
+			vector,
+			exactVector: eigenspace.exactBasis?.[index],
+		}))
+	);
+	const { diagonalization, jordanForm } = result;
+
+	switch (format) {
+		case "json":
+			return JSON.stringify(
+				{
+					characteristicPolynomial: result.characteristicPolynomial,
+					trace: result.trace,
+					eigenvalues: result.eigenvalues.map(({ value, multiplicity, exact }) => ({
+						value: toJsonValue(value),
+						multiplicity,
+						...(exact !== undefined && { exact }),
+					})),
+					eigenspaces: result.eigenspaces.map((eigenspace) => ({
+						eigenvalue: toJsonValue(eigenspace.eigenvalue.value),
+						basis:
+							eigenspace.complexBasis?.map((vector) => vector.map(toJsonValue)) ??
+							eigenspace.basis,
+						...(eigenspace.exactBasis && { exactBasis: eigenspace.exactBasis }),
+					})),
+					diagonalization: diagonalization.diagonalizable
+						? { P: diagonalization.P, D: diagonalization.D }
+						: { reason: diagonalization.reason },
+					jordanForm: jordanForm && { J: jordanForm.J, P: jordanForm.P },
+				},
+				null,
+				2
+			);
+		case "csv":
+		case "tsv": {
+			const delimiter = format === "csv" ? "," : "\t";
+			const n = result.xIMinusA.length;
+			const header = [
+				"eigenvalue",
+				"multiplicity",
+				...Array.from({ length: n }, (_, i) => `v${i + 1}`),
+			];
+			return [
+				header,
+				...pairs.map(({ eigenvalue, vector, exactVector }) => [
+					eigenvalue.exact ?? toCodeValue(eigenvalue.value, "i"),
+					eigenvalue.multiplicity.toString(),
+					...(exactVector ?? vector.map((z) => toCodeValue(z, "i"))),
+				]),
+			]
+				.map((row) => row.join(delimiter))
+				.join("\n");
+		}
+		case "matlab":
+			return [
+				`% ${result.characteristicPolynomial}`,
+				`lambda = [${pairs
+					.map(({ eigenvalue }) => toCodeValue(eigenvalue.value, "i"))
+					.join(" ")}];`,
+				// Eigenvectors are the columns of V
+				`V = [${transpose(pairs.map(({ vector }) => vector))
+					.map((row) => row.map((z) => toCodeValue(z, "i")).join(" "))
+					.join("; ")}];`,
+			].join("\n");
+		case "numpy":
+			return [
+				`# ${result.characteristicPolynomial}`,
+				`lam = np.array([${pairs
+					.map(({ eigenvalue }) => toCodeValue(eigenvalue.value, "j"))
+					.join(", ")}])`,
+				// Eigenvectors are the columns of V, as returned by np.linalg.eig
+				`V = np.array([${transpose(pairs.map(({ vector }) => vector))
+					.map((row) => `[${row.map((z) => toCodeValue(z, "j")).join(", ")}]`)
+					.join(", ")}])`,
+			].join("\n");
+		case "latex":
+			return [
+				formatExpressionLatex(result.characteristicPolynomial),
+				...result.eigenspaces.map((eigenspace) => {
+					const vectors =
+						eigenspace.complexBasis?.map((vector) =>
+							formatMatrixLatex(vector.map((z) => [formatComplexLatex(z)]))
+						) ??
+						(eigenspace.exactBasis ?? eigenspace.basis).map((vector) =>
+							formatNumericMatrixLatex(vector.map((value) => [value]))
+						);
+					const { exact, value } = eigenspace.eigenvalue;
+					return `\\lambda = ${
+						exact ? formatExpressionLatex(exact) : formatComplexLatex(value)
+					}:\\quad E_\\lambda = \\operatorname{span}\\left\\{ ${vectors.join(
+						", "
+					)} \\right\\}`;
+				}),
+			].join(" \\\\\n");
+	}
+}
+
+function toJsonValue(z: Complex): number | Complex {
+	return isRealValue(z) ? z.re : z;
+}
+
+/**
+ * Number literal for MATLAB ("1-2i") or Python ("1-2j")
+ */
+function toCodeValue(z: Complex, unit: "i" | "j"): string {
+	const round = (value: number) => parseFloat(value.toPrecision(12)).toString();
+	if (isRealValue(z)) return round(z.re);
+	return `${round(z.re)}${z.im < 0 ? "-" : "+"}${round(Math.abs(z.im))}${unit}`;
+}
+
+function transpose<T>(rows: T[][]): T[][] {
+	return rows.length === 0 ? [] : rows[0].map((_, j) => rows.map((row) => row[j]));
+}
@@ -0,0 +1,211 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+	calculateDeterminant,
+	findNullSpace,
+	isReducedRowEchelonForm,
+	matrixRank,
+	multiplyMatrices,
+	multiplyMatrixVector,
+	rref,
+	solveLinearSystem,
+} from "./matrixOperations";
+import type { RowReductionStep } from "./math";
+
+// Small integer matrices keep the expected values easy to reason about
+const squareMatrix = (minSize: number, maxSize: number) =>
+	fc.integer({ min: minSize, max: maxSize }).chain((n) =>
+		fc.array(fc.array(fc.integer({ min: -5, max: 5 }), { minLength: n, maxLength: n }), {
+			minLength: n,
+			maxLength: n,
+		})
+	);
+
+const rectangularMatrix = fc
+	.tuple(fc.integer({ min: 1, max: 5 }), fc.integer({ min: 1, max: 5 }))
+	.chain(([rows, cols]) =>
+		fc.array(
+			fc.array(fc.integer({ min: -5, max: 5 }), { minLength: cols, maxLength: cols }),
+			{ minLength: rows, maxLength: rows }
+		)
+	);
+
+const norm = (vector: number[]) => Math.hypot(...vector);
+
+describe("rref", () => {
+	it("reduces a singular 3×3 matrix", () => {
+		const result = rref([
+			[1, 2, 3],
+			[4, 5, 6],
+			[7, 8, 9],
+		]) as number[][];
+		const expected = [
+			[1, 0, -1],
+			[0, 1, 2],
+			[0, 0, 0],
+		];
+		result.forEach((row, i) =>
+			row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], 10))
+		);
+	});
+
+	it("records the row operations and ends on the reduced matrix", () => {
+		const trace: RowReductionStep[] = [];
+		const result = rref(
+			[
+				[0, 2],
+				[1, 1],
+			],
+			trace
+		);
+		expect(trace[0].operation).toBe("R1 ↔ R2");
+		expect(trace[trace.length - 1].matrix).toEqual(result);
+		expect(result).toEqual([
+			[1, 0],
+			[0, 1],
+		]);
+	});
+
+	it("always produces a reduced row echelon form", () => {
+		fc.assert(
+			fc.property(rectangularMatrix, (matrix) => {
+				expect(isReducedRowEchelonForm(rref(matrix))).toBe(true);
+			})
+		);
+	});
+});
+
+describe("findNullSpace", () => {
+	it("finds the two dimensional null space of a rank one matrix", () => {
+		const basis = findNullSpace([
+			[1, 2, 3],
+			[2, 4, 6],
+			[3, 6, 9],
+		]);
+		expect(basis).toHaveLength(2);
+	});
+
+	it("falls back to e1 when the columns are independent", () => {
+		// Eigenspaces always have free variables, so this only shows up when λ is off
+		expect(
+			findNullSpace([
+				[1, 0],
+				[0, 1],
+			])
+		).toEqual([[1, 0]]);
+	});
+
+	it("returns n - rank vectors that A maps to zero", () => {
+		fc.assert(
+			fc.property(rectangularMatrix, (matrix) => {
+				fc.pre(matrixRank(matrix) < matrix[0].length);
+				const basis = findNullSpace(matrix);
+				expect(basis).toHaveLength(matrix[0].length - matrixRank(matrix));
+				for (const vector of basis) {
+					expect(norm(multiplyMatrixVector(matrix, vector))).toBeLessThan(
+						1e-9 * Math.max(1, norm(vector))
+					);
+				}
+			})
+		);
+	});
+});
+
+describe("solveLinearSystem", () => {
+	it("solves a 3×3 system", () => {
+		const solution = solveLinearSystem(
+			[
+				[2, 1, -1],
+				[-3, -1, 2],
+				[-2, 1, 2],
+			],
+			[8, -11, -3]
+		);
+		expect(solution).not.toBeNull();
+		[2, 3, -1].forEach((value, i) => expect(solution![i]).toBeCloseTo(value, 10));
+	});
+
+	it("returns null for an inconsistent system", () => {
+		expect(
+			solveLinearSystem(
+				[
+					[1, 1],
+					[1, 1],
+				],
+				[1, 2]
+			)
+		).toBeNull();
+	});
+
+	it("solves Ax = b whenever A is invertible", () => {
+		fc.assert(
+			fc.property(
+				squareMatrix(1, 5).chain((matrix) =>
+					fc.tuple(
+						fc.constant(matrix),
+						fc.array(fc.integer({ min: -5, max: 5 }), {
+							minLength: matrix.length,
+							maxLength: matrix.length,
+						})
+					)
+				),
+				([matrix, b]) => {
+					fc.pre(Math.abs(calculateDeterminant(matrix)) > 0.5);
+					const solution = solveLinearSystem(matrix, b);
+					expect(solution).not.toBeNull();
+					const residual = multiplyMatrixVector(matrix, solution!).map(
+						(value, i) => value - b[i]
+					);
+					expect(norm(residual)).toBeLessThan(1e-8 * Math.max(1, norm(b)));
+				}
+			)
+		);
+	});
+});
+
+describe("calculateDeterminant", () => {
+	it("computes small determinants", () => {
+		expect(calculateDeterminant([[7]])).toBe(7);
+		expect(
+			calculateDeterminant([
+				[1, 2],
+				[3, 4],
+			])
+		).toBeCloseTo(-2, 12);
+		expect(
+			calculateDeterminant([
+				[2, 0, 1],
+				[1, 3, 2],
+				[1, 1, 2],
+			])
+		).toBeCloseTo(6, 12);
+	});
+
+	it("uses the product of the diagonal for big triangular matrices (LU path)", () => {
+		const n = 8;
+		const matrix = Array.from({ length: n }, (_, i) =>
+			Array.from({ length: n }, (_, j) => (j < i ? 0 : j === i ? i + 1 : 3))
+		);
+		expect(calculateDeterminant(matrix)).toBeCloseTo(40320, 6);
+	});
+
+	it("is multiplicative, det(AB) = det(A)det(B)", () => {
+		fc.assert(
+			fc.property(
+				fc.integer({ min: 1, max: 7 }).chain((n) => {
+					const matrix = fc.array(
+						fc.array(fc.integer({ min: -3, max: 3 }), { minLength: n, maxLength: n }),
+						{ minLength: n, maxLength: n }
+					);
+					return fc.tuple(matrix, matrix);
+				}),
+				([A, B]) => {
+					const expected = calculateDeterminant(A) * calculateDeterminant(B);
+					expect(
+						Math.abs(calculateDeterminant(multiplyMatrices(A, B)) - expected)
+					).toBeLessThan(1e-6 * Math.max(1, Math.abs(expected)));
+				}
+			)
+		);
+	});
+});
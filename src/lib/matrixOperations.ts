@@ -1,19 +1,92 @@
-import type { MatrixWString, Matrix, BasisVector } from "./math";
+import type {
+	MatrixWString,
+	Matrix,
+	BasisVector,
+	Complex,
+	ComplexVector,
+	RowReductionStep,
+} from "./math";
+import {
+	complex,
+	complexAbs,
+	divideComplex,
+	multiplyComplex,
+	subtractComplex,
+} from "./complex";
+import { logger } from "./logger";
 
 /* ━━━━━━━━━━━━ Elementary Row Operations ━━━━━━━━━━━ */
+// Each operation can record itself in a trace ("R2 ← R2 − 3R1" plus the resulting matrix)
+
+/**
+ * Plain text for a scalar in a row operation, simple fractions are shown as "p/q"
+ */
+function formatScalar(value: number): string {
+	for (let q = 1; q <= 100; q++) {
+		const p = Math.round(value * q);
+		if (Math.abs(value * q - p) < 1e-9 * q) {
+			return q === 1 ? p.toString() : `${p}/${q}`;
+		}
+	}
+	return parseFloat(value.toFixed(4)).toString();
+}
+
+export function formatSwapOperation(r1: number, r2: number): string {
+	return `R${Math.min(r1, r2) + 1} ↔ R${Math.max(r1, r2) + 1}`;
+}
+
+/**
+ * Coefficient in front of a row: "" for 1, "(p/q)" for fractions
+ */
+function formatRowFactor(magnitude: string): string {
+	if (magnitude === "1") return "";
+	return magnitude.includes("/") ? `(${magnitude})` : magnitude;
+}
+
+// scalar is either a number or exact text such as "-2/3"
+export function formatScaleOperation(r: number, scalar: number | string): string {
+	const text = typeof scalar === "number" ? formatScalar(scalar) : scalar;
+	const negative = text.startsWith("-");
+	const factor = formatRowFactor(negative ? text.slice(1) : text);
+	return `R${r + 1} ← ${negative ? "−" : ""}${factor}R${r + 1}`;
+}
+
+export function formatReplaceOperation(
+	r1: number,
+	r2: number,
+	scalar: number | string
+): string {
+	const text = typeof scalar === "number" ? formatScalar(scalar) : scalar;
+	const negative = text.startsWith("-");
+	const factor = formatRowFactor(negative ? text.slice(1) : text);
+	// r2 - (-c) r1 is shown as r2 + c r1
+	return `R${r2 + 1} ← R${r2 + 1} ${negative ? "+" : "−"} ${factor}R${r1 + 1}`;
+}
+
 // E1: Row swap
-function E1(matrix: MatrixWString, r1: number, r2: number): MatrixWString {
+function E1(
+	matrix: MatrixWString,
+	r1: number,
+	r2: number,
+	trace?: RowReductionStep[]
+): MatrixWString {
 	const newMatrix = matrix.map((row) => [...row]);
 
 	const t = newMatrix[r2];
 	newMatrix[r2] = newMatrix[r1];
 	newMatrix[r1] = t;
 
+	trace?.push({ operation: formatSwapOperation(r1, r2), matrix: newMatrix });
 	return newMatrix;
 }
 
 // E2: Row scaling
-function E2(matrix: MatrixWString, r: number, scalar: number): MatrixWString {
+function E2(
+	matrix: MatrixWString,
+	r: number,
+	scalar: number,
+	trace?: RowReductionStep[]
+): MatrixWString {
 	const newMatrix = matrix.map((row) => [...row]);
 
 	for (let j = 0; j < newMatrix[r].length; j++) {
@@ -24,6 +97,7 @@ function E2(matrix: MatrixWString, r: number, scalar: number): MatrixWString {
 		}
 	}
 
+	trace?.push({ operation: formatScaleOperation(r, scalar), matrix: newMatrix });
 	return newMatrix;
 }
 
@@ -35,7 +109,8 @@ function E3(
 	matrix: MatrixWString,
 	r1: number,
 	r2: number,
-	scalar: number
+	scalar: number,
+	trace?: RowReductionStep[]
 ): MatrixWString {
 	const newMatrix = matrix.map((row) => [...row]);
 
@@ -61,14 +136,22 @@ function E3(
 		}
 	}
 
+	trace?.push({
+		operation: formatReplaceOperation(r1, r2, scalar),
+		matrix: newMatrix,
+	});
 	return newMatrix;
 }
 
 /**
  * Reduced Row Echelon Form (RREF) Algorithm
  * Updated with numerical tolerance for float stability
+ * @param trace - when given, every elementary row operation is recorded in it
  */
-export function rref(matrix: MatrixWString): MatrixWString {
+export function rref(
+	matrix: MatrixWString,
+	trace?: RowReductionStep[]
+): MatrixWString {
 	// Create a copy
 	let result = matrix.map((row) => [...row]);
 	const rows = result.length;
@@ -98,14 +181,14 @@ export function rref(matrix: MatrixWString): MatrixWString {
 
 		// Step 2: Swap rows
 		if (pivotRowIndex !== currentRow) {
-			result = E1(result, pivotRowIndex, currentRow);
+			result = E1(result, pivotRowIndex, currentRow, trace);
 		}
 
 		// Step 3: Scale pivot row
 		const pivotValue = result[currentRow][col] as number;
 		// FIX: Only scale if it's not already 1 (accounting for float noise)
 		if (Math.abs(pivotValue - 1) > EPSILON) {
-			result = E2(result, currentRow, 1 / pivotValue);
+			result = E2(result, currentRow, 1 / pivotValue, trace);
 		}
 
 		// Force the pivot to be exactly 1 to look clean
@@ -117,7 +200,7 @@ export function rref(matrix: MatrixWString): MatrixWString {
 				const val = result[row][col];
 				// FIX: Check significance before operations
 				if (typeof val === "number" && Math.abs(val) > EPSILON) {
-					result = E3(result, currentRow, row, val);
+					result = E3(result, currentRow, row, val, trace);
 					// Explicitly set the eliminated cell to 0 to avoid -0.0000... or residual noise
 					result[row][col] = 0;
 				}
@@ -191,11 +274,14 @@ export function getPivotColumns(rrefMatrix: MatrixWString): number[] {
  * Robust null space basis finder specifically for eigenspace calculations
  * Handles numerical precision issues and ensures non-zero eigenvectors
  */
-export function findNullSpace(matrix: Matrix): BasisVector {
-	console.log("Finding null space for matrix:");
-	console.log(matrix);
+export function findNullSpace(
+	matrix: Matrix,
+	trace?: RowReductionStep[]
+): BasisVector {
+	logger.debug("Finding null space for matrix:");
+	logger.debug(matrix);
 	const tolerance = 1e-12;
-	const rrefMatrix = rref(matrix as MatrixWString);
+	const rrefMatrix = rref(matrix as MatrixWString, trace);
 	const rows = rrefMatrix.length;
 	const cols = rrefMatrix[0].length;
 
@@ -234,7 +320,7 @@ export function findNullSpace(matrix: Matrix): BasisVector {
 	// For eigenspaces, there should always be free variables
 	// If none found, the matrix might have numerical precision issues
 	if (freeVars.length === 0) {
-		console.warn(
+		logger.warn(
 			"No free variables found - this shouldn't happen for eigenspaces"
 		);
 		// Return a standard basis vector as fallback
@@ -295,6 +381,167 @@ export function findNullSpace(matrix: Matrix): BasisVector {
 		  ];
 }
 
+/**
+ * Null space basis for a complex matrix (used for eigenspaces of non-real eigenvalues)
+ * Uses partial pivoting since the entries are never "nice" integers
+ */
+export function findComplexNullSpace(matrix: Complex[][]): ComplexVector[] {
+	const tolerance = 1e-9;
+	const result = matrix.map((row) => row.map((z) => complex(z.re, z.im)));
+	const rows = result.length;
+	const cols = result[0].length;
+	const pivotCols: number[] = [];
+
+	let currentRow = 0;
+	for (let col = 0; col < cols && currentRow < rows; col++) {
+		// Pick the largest pivot for numerical stability
+		let pivotRowIndex = currentRow;
+		for (let row = currentRow + 1; row < rows; row++) {
+			if (complexAbs(result[row][col]) > complexAbs(result[pivotRowIndex][col])) {
+				pivotRowIndex = row;
+			}
+		}
+
+		if (complexAbs(result[pivotRowIndex][col]) < tolerance) {
+			continue;
+		}
+
+		const t = result[pivotRowIndex];
+		result[pivotRowIndex] = result[currentRow];
+		result[currentRow] = t;
+
+		const pivotValue = result[currentRow][col];
+		result[currentRow] = result[currentRow].map((z) => divideComplex(z, pivotValue));
+
+		for (let row = 0; row < rows; row++) {
+			if (row === currentRow) continue;
+			const factor = result[row][col];
+			if (complexAbs(factor) < tolerance) continue;
+			result[row] = result[row].map((z, j) =>
+				subtractComplex(z, multiplyComplex(factor, result[currentRow][j]))
+			);
+		}
+
+		pivotCols.push(col);
+		currentRow++;
+	}
+
+	const freeVars: number[] = [];
+	for (let col = 0; col < cols; col++) {
+		if (!pivotCols.includes(col)) {
+			freeVars.push(col);
+		}
+	}
+
+	if (freeVars.length === 0) {
+		logger.warn(
+			"No free variables found - this shouldn't happen for eigenspaces"
+		);
+		return [
+			Array(cols)
+				.fill(null)
+				.map((_, i) => complex(i === 0 ? 1 : 0)),
+		];
+	}
+
+	return freeVars.map((freeVar) => {
+		const basisVector: ComplexVector = Array(cols)
+			.fill(null)
+			.map(() => complex(0));
+		basisVector[freeVar] = complex(1);
+
+		// Pivot variables are expressed in terms of the free variable
+		pivotCols.forEach((pivotCol, row) => {
+			const coeff = result[row][freeVar];
+			if (complexAbs(coeff) > tolerance) {
+				basisVector[pivotCol] = complex(-coeff.re, -coeff.im);
+			}
+		});
+
+		return basisVector;
+	});
+}
+
+/**
+ * Approximate null vector of a nearly singular matrix using inverse iteration
+ * Used when the eigenvalue is only known to floating point accuracy and the
+ * row reduction can't see the rank drop (large matrices mostly)
+ */
+export function findComplexNullVector(
+	matrix: Complex[][],
+	iterations = 3
+): ComplexVector {
+	const n = matrix.length;
+	const scale = Math.max(
+		1,
+		...matrix.map((row) => row.reduce((sum, z) => sum + complexAbs(z), 0))
+	);
+
+	// Nudge the diagonal so the LU factorization doesn't hit an exact zero pivot
+	const shifted = matrix.map((row, i) =>
+		row.map((z, j) => (i === j ? complex(z.re + scale * 1e-10, z.im) : z))
+	);
+
+	let v: ComplexVector = Array(n)
+		.fill(null)
+		.map((_, i) => complex(1 / Math.sqrt(n + i)));
+
+	for (let iter = 0; iter < iterations; iter++) {
+		const w = solveComplexSystem(shifted, v);
+		const norm = Math.sqrt(w.reduce((sum, z) => sum + z.re ** 2 + z.im ** 2, 0));
+		if (!isFinite(norm) || norm === 0) break;
+
+		// Normalize so the largest component is 1 (keeps real vectors real)
+		const largest = w.reduce((best, z) =>
+			complexAbs(z) > complexAbs(best) ? z : best
+		);
+		v = w.map((z) => divideComplex(z, largest));
+	}
+
+	return v;
+}
+
+/**
+ * Solve Ax = b for a square complex matrix (Gaussian elimination with partial pivoting)
+ * Zero pivots are replaced with a tiny value, inverse iteration relies on that
+ */
+function solveComplexSystem(A: Complex[][], b: ComplexVector): ComplexVector {
+	const n = A.length;
+	const m = A.map((row, i) => [...row, b[i]]);
+
+	for (let col = 0; col < n; col++) {
+		let pivotRow = col;
+		for (let row = col + 1; row < n; row++) {
+			if (complexAbs(m[row][col]) > complexAbs(m[pivotRow][col])) {
+				pivotRow = row;
+			}
+		}
+		const t = m[pivotRow];
+		m[pivotRow] = m[col];
+		m[col] = t;
+
+		if (complexAbs(m[col][col]) < 1e-300) m[col][col] = complex(1e-300);
+
+		for (let row = col + 1; row < n; row++) {
+			const factor = divideComplex(m[row][col], m[col][col]);
+			for (let j = col; j <= n; j++) {
+				m[row][j] = subtractComplex(m[row][j], multiplyComplex(factor, m[col][j]));
+			}
+		}
+	}
+
+	const x: ComplexVector = Array(n).fill(complex(0));
+	for (let i = n - 1; i >= 0; i--) {
+		let sum = m[i][n];
+		for (let j = i + 1; j < n; j++) {
+			sum = subtractComplex(sum, multiplyComplex(m[i][j], x[j]));
+		}
+		x[i] = divideComplex(sum, m[i][i]);
+	}
+
+	return x;
+}
+
 /**
  * Check if a matrix is in Row Echelon Form (REF)
  */
@@ -469,70 +716,6 @@ export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
 	return solution;
 }
 
-/**
- * Example usage and testing functions
- */
-export function testRREF() {
-	console.log("=== RREF Solver Testing ===\n");
-
-	// Test 1: Simple 3x3 matrix
-	const matrix1: MatrixWString = [
-		[1, 2, 3],
-		[4, 5, 6],
-		[7, 8, 9],
-	];
-
-	console.log("Original Matrix:");
-	console.log(formatMatrix(matrix1));
-
-	const rref1 = rref(matrix1);
-	console.log("RREF:");
-	console.log(formatMatrix(rref1));
-
-	console.log("Rank:", matrixRank(matrix1));
-	console.log("Pivot Columns:", getPivotColumns(rref1));
-
-	// Test 2: Matrix with null space
-	const matrix2: MatrixWString = [
-		[1, 2, 3, 4],
-		[2, 4, 6, 8],
-		[1, 2, 4, 5],
-	];
-
-	console.log("\n--- Matrix with Null Space ---");
-	console.log("Original Matrix:");
-	console.log(formatMatrix(matrix2));
-
-	const rref2 = rref(matrix2);
-	console.log("RREF:");
-	console.log(formatMatrix(rref2));
-
-	const nullBasis = findNullSpace(matrix2 as Matrix);
-	console.log("Null Space Basis:");
-	nullBasis.forEach((vec, i) => {
-		console.log(`v${i + 1}: [${vec.join(", ")}]`);
-	});
-
-	// Test 3: Solve linear system
-	const A: number[][] = [
-		[2, 1, -1],
-		[-3, -1, 2],
-		[-2, 1, 2],
-	];
-	const b: number[] = [8, -11, -3];
-
-	console.log("\n--- Linear System Ax = b ---");
-	console.log("Matrix A:");
-	console.log(formatMatrix(A));
-	console.log("Vector b:", b);
-
-	const solution = solveLinearSystem(A, b);
-	console.log(
-		"Solution:",
-		solution ? `[${solution.join(", ")}]` : "No unique solution"
-	);
-}
-
 /* ━━━━━━━━━━━━━ Matrix Multiplication ━━━━━━━━━━━━━━ */
 export function multiplyMatrices(A: number[][], B: number[][]): number[][] {
 	const rows = A.length;
@@ -571,6 +754,27 @@ export function multiplyMatrixVector(
 	return result;
 }
 
+/**
+ * Inverse by row reducing [A | I] to [I | A⁻¹]
+ * Returns null when A is singular
+ */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+	const n = matrix.length;
+	const augmented: MatrixWString = matrix.map((row, i) => [
+		...row,
+		...row.map((_, j) => (i === j ? 1 : 0)),
+	]);
+	const reduced = rref(augmented) as number[][];
+
+	for (let i = 0; i < n; i++) {
+		for (let j = 0; j < n; j++) {
+			if (Math.abs(reduced[i][j] - (i === j ? 1 : 0)) > 1e-9) return null;
+		}
+	}
+
+	return reduced.map((row) => row.slice(n));
+}
+
 /**
  * Check if matrix is triangular (upper or lower)
  */
@@ -631,6 +835,9 @@ export function calculateDeterminant(matrix: number[][]): number {
 	if (n === 1) return matrix[0][0];
 	if (n === 2) return matrix[0][0] * matrix[1][1] - matrix[0][1] * matrix[1][0];
 
+	// Cofactor expansion costs n! so bigger matrices go through elimination
+	if (n > 5) return calculateDeterminantLU(matrix);
+
 	// Simple cofactor expansion for larger matrices
 	let det = 0;
 	for (let j = 0; j < n; j++) {
@@ -643,6 +850,106 @@ export function calculateDeterminant(matrix: number[][]): number {
 	return det;
 }
 
+/**
+ * Determinant from the LU factorization (Gaussian elimination with partial pivoting)
+ * O(n³) instead of the O(n!) cofactor expansion
+ */
+function calculateDeterminantLU(matrix: number[][]): number {
+	const n = matrix.length;
+	const m = matrix.map((row) => [...row]);
+	let det = 1;
+
+	for (let col = 0; col < n; col++) {
+		let pivotRow = col;
+		for (let row = col + 1; row < n; row++) {
+			if (Math.abs(m[row][col]) > Math.abs(m[pivotRow][col])) {
+				pivotRow = row;
+			}
+		}
+
+		if (m[pivotRow][col] === 0) return 0;
+
+		if (pivotRow !== col) {
+			const t = m[pivotRow];
+			m[pivotRow] = m[col];
+			m[col] = t;
+			det = -det;
+		}
+
+		det *= m[col][col];
+
+		for (let row = col + 1; row < n; row++) {
+			const factor = m[row][col] / m[col][col];
+			for (let j = col; j < n; j++) {
+				m[row][j] -= factor * m[col][j];
+			}
+		}
+	}
+
+	return det;
+}
+
+/**
+ * Coefficients [1, c_{n-1}, ..., c_0] of det(xI - A) using the Faddeev-LeVerrier algorithm
+ * Needs O(n⁴) operations instead of expanding the symbolic determinant
+ */
+export function characteristicPolynomialCoefficients(A: number[][]): number[] {
+	const n = A.length;
+	const identity = A.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)));
+	const coefficients = [1];
+
+	// M_1 = I, c_{n-k} = -tr(A M_k) / k, M_{k+1} = A M_k + c_{n-k} I
+	let M: number[][] = identity;
+	for (let k = 1; k <= n; k++) {
+		const AM = multiplyMatrices(A, M);
+		const c = -calculateTraceManual(AM) / k;
+		coefficients.push(c);
+		M = AM.map((row, i) => row.map((value, j) => (i === j ? value + c : value)));
+	}
+
+	return coefficients;
+}
+
+/**
+ * Calculate determinant of a complex matrix using Gaussian elimination
+ */
+export function calculateComplexDeterminant(matrix: Complex[][]): Complex {
+	const n = matrix.length;
+	const m = matrix.map((row) => row.map((z) => complex(z.re, z.im)));
+	let det = complex(1);
+
+	for (let col = 0; col < n; col++) {
+		let pivotRow = col;
+		for (let row = col + 1; row < n; row++) {
+			if (complexAbs(m[row][col]) > complexAbs(m[pivotRow][col])) {
+				pivotRow = row;
+			}
+		}
+
+		if (complexAbs(m[pivotRow][col]) === 0) {
+			return complex(0);
+		}
+
+		if (pivotRow !== col) {
+			const t = m[pivotRow];
+			m[pivotRow] = m[col];
+			m[col] = t;
+			det = complex(-det.re, -det.im);
+		}
+
+		det = multiplyComplex(det, m[col][col]);
+
+		for (let row = col + 1; row < n; row++) {
+			const factor = divideComplex(m[row][col], m[col][col]);
+			for (let j = col; j < n; j++) {
+				m[row][j] = subtractComplex(m[row][j], multiplyComplex(factor, m[col][j]));
+			}
+		}
+	}
+
+	return det;
+}
+
 /**
  * Get minor matrix by removing specified row and column
  */
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { DynamicsMode, EquilibriumType, Matrix } from "./math";
+import { classifyEquilibrium, trajectory, vectorField } from "./phasePortrait";
+
+describe("classifyEquilibrium", () => {
+	const cases: [Matrix, DynamicsMode, EquilibriumType, string][] = [
+		[[[1, 0], [0, -2]], "continuous", "saddle", "unstable"],
+		[[[-1, 0], [0, -3]], "continuous", "node", "stable"],
+		[[[2, 1], [0, 2]], "continuous", "degenerate node", "unstable"],
+		[[[-2, 0], [0, -2]], "continuous", "star", "stable"],
+		[[[-1, -2], [2, -1]], "continuous", "spiral", "stable"],
+		[[[0, -1], [1, 0]], "continuous", "center", "neutral"],
+		[[[1, 2], [2, 4]], "continuous", "non-isolated", "unstable"],
+		[[[0.5, 0], [0, 0.25]], "discrete", "node", "stable"],
+		[[[2, 0], [0, 0.5]], "discrete", "saddle", "unstable"],
+		[[[0, -1], [1, 0]], "discrete", "center", "neutral"],
+		[[[1.1, -1], [1, 1.1]], "discrete", "spiral", "unstable"],
+		[[[1, 0], [0, 0.5]], "discrete", "non-hyperbolic", "neutral"],
+	];
+
+	it.each(cases)("classifies %j (%s) as a %s", (matrix, mode, type, stability) => {
+		const equilibrium = classifyEquilibrium(matrix, mode);
+		expect(equilibrium.type).toBe(type);
+		expect(equilibrium.stability).toBe(stability);
+	});
+
+	it("reports the eigenvalues from the trace and determinant", () => {
+		const { eigenvalues, trace, determinant } = classifyEquilibrium(
+			[
+				[-1, -2],
+				[2, -1],
+			],
+			"continuous"
+		);
+		expect([trace, determinant]).toEqual([-2, 5]);
+		expect(eigenvalues[0].re).toBeCloseTo(-1);
+		expect(Math.abs(eigenvalues[0].im)).toBeCloseTo(2);
+	});
+});
+
+describe("trajectory", () => {
+	it("follows x(t) = e^{tA}x₀ for the flow", () => {
+		// x' = −x, the path through (1, 0) runs along the x-axis toward 0
+		const path = trajectory(
+			[
+				[-1, 0],
+				[0, -1],
+			],
+			[1, 0],
+			"continuous",
+			{ dt: 0.01, steps: 100 }
+		);
+		const seedIndex = path.findIndex(([x]) => x === 1);
+		expect(path[seedIndex + 100][0]).toBeCloseTo(Math.exp(-1), 6);
+		expect(path.every(([, y]) => y === 0)).toBe(true);
+	});
+
+	it("iterates the map", () => {
+		const path = trajectory(
+			[
+				[2, 0],
+				[0, 1],
+			],
+			[1, 1],
+			"discrete"
+		);
+		expect(path.slice(0, 3)).toEqual([
+			[1, 1],
+			[2, 1],
+			[4, 1],
+		]);
+		// Stops once it leaves the drawing area
+		expect(Math.hypot(...path[path.length - 1])).toBeGreaterThan(12);
+	});
+});
+
+describe("vectorField", () => {
+	it("samples the grid", () => {
+		const field = vectorField(
+			[
+				[1, 0],
+				[0, 1],
+			],
+			"discrete",
+			2,
+			1
+		);
+		expect(field).toHaveLength(25);
+		// The identity map doesn't move anything
+		expect(field.every(({ direction }) => direction.every((v) => v === 0))).toBe(true);
+	});
+});
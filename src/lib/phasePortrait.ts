@@ -0,0 +1,132 @@
+import { complex, complexAbs } from "./complex";
+import type { DynamicsMode, Equilibrium, Matrix } from "./math";
+import { multiplyMatrixVector } from "./matrixOperations";
+
+/* ━━━━━━━━━━━━━━━━ Phase Portrait ━━━━━━━━━━━━━━━━ */
+// A 2×2 matrix as a linear dynamical system, x' = Ax or x_{k+1} = Ax_k.
+// Everything about the origin follows from the trace and the determinant
+
+const EPSILON = 1e-9;
+
+// Trajectories stop once they leave this box (or reach the origin)
+const BOUND = 12;
+
+/**
+ * What the origin is for x' = Ax (trace/determinant plane) or for
+ * x_{k+1} = Ax_k (moduli of the eigenvalues)
+ */
+export function classifyEquilibrium(matrix: Matrix, mode: DynamicsMode): Equilibrium {
+	const [[a, b], [c, d]] = matrix;
+	const trace = a + d;
+	const determinant = a * d - b * c;
+	const discriminant = trace * trace - 4 * determinant;
+	const scale = Math.max(1, Math.abs(trace), Math.abs(determinant));
+
+	const root = Math.sqrt(Math.abs(discriminant));
+	const eigenvalues =
+		discriminant < -EPSILON * scale
+			? [complex(trace / 2, root / 2), complex(trace / 2, -root / 2)]
+			: [complex((trace + root) / 2), complex((trace - root) / 2)];
+	const base = { trace, determinant, discriminant, eigenvalues };
+
+	// λ₁ = λ₂, a star when A = λI and a degenerate node otherwise
+	const repeatedType = Math.abs(b) < EPSILON && Math.abs(c) < EPSILON ? "star" : "degenerate node";
+	const isRepeated = Math.abs(discriminant) <= EPSILON * scale;
+
+	if (mode === "continuous") {
+		const stability = trace < -EPSILON ? "stable" : trace > EPSILON ? "unstable" : "neutral";
+
+		if (Math.abs(determinant) <= EPSILON * scale) {
+			return { ...base, type: "non-isolated", stability };
+		}
+		if (determinant < 0) return { ...base, type: "saddle", stability: "unstable" };
+		if (isRepeated) return { ...base, type: repeatedType, stability };
+		if (discriminant > 0) return { ...base, type: "node", stability };
+		return { ...base, type: stability === "neutral" ? "center" : "spiral", stability };
+	}
+
+	const moduli = eigenvalues.map(complexAbs);
+	const inside = moduli.filter((m) => m < 1 - EPSILON).length;
+	const outside = moduli.filter((m) => m > 1 + EPSILON).length;
+	const stability = inside === 2 ? "stable" : outside === 2 ? "unstable" : "neutral";
+
+	if (discriminant < -EPSILON * scale) {
+		return { ...base, type: stability === "neutral" ? "center" : "spiral", stability };
+	}
+	if (inside + outside < 2) return { ...base, type: "non-hyperbolic", stability };
+	if (inside === 1) return { ...base, type: "saddle", stability: "unstable" };
+	if (isRepeated) return { ...base, type: repeatedType, stability };
+	return { ...base, type: "node", stability };
+}
+
+/**
+ * Direction of motion at every grid point in [−extent, extent]²: Ax for the
+ * flow, Ax − x (the jump to the next point) for the map
+ */
+export function vectorField(
+	matrix: Matrix,
+	mode: DynamicsMode,
+	extent: number,
+	spacing: number
+): { point: number[]; direction: number[] }[] {
+	const field: { point: number[]; direction: number[] }[] = [];
+	for (let x = -extent; x <= extent + EPSILON; x += spacing) {
+		for (let y = -extent; y <= extent + EPSILON; y += spacing) {
+			const point = [x, y];
+			const image = multiplyMatrixVector(matrix, point);
+			field.push({
+				point,
+				direction: mode === "continuous" ? image : image.map((v, i) => v - point[i]),
+			});
+		}
+	}
+	return field;
+}
+
+const outOfBounds = (point: number[]) => Math.hypot(...point) > BOUND;
+const atOrigin = (point: number[]) => Math.hypot(...point) < 1e-3;
+
+/**
+ * Solve x' = sign·Ax from the seed with classic Runge–Kutta steps
+ */
+function integrate(matrix: Matrix, seed: number[], sign: 1 | -1, dt: number, steps: number) {
+	const f = (x: number[]) => multiplyMatrixVector(matrix, x).map((v) => sign * v);
+	const add = (x: number[], k: number[], h: number) => x.map((v, i) => v + h * k[i]);
+
+	const path = [seed];
+	let x = seed;
+	for (let step = 0; step < steps && !outOfBounds(x) && !atOrigin(x); step++) {
+		const k1 = f(x);
+		const k2 = f(add(x, k1, dt / 2));
+		const k3 = f(add(x, k2, dt / 2));
+		const k4 = f(add(x, k3, dt));
+		x = x.map((v, i) => v + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]));
+		path.push(x);
+	}
+	return path;
+}
+
+/**
+ * The path through the seed: backward and forward in time for the flow,
+ * x₀, Ax₀, A²x₀, ... for the map
+ */
+export function trajectory(
+	matrix: Matrix,
+	seed: number[],
+	mode: DynamicsMode,
+	{ dt = 0.02, steps = 1500 }: { dt?: number; steps?: number } = {}
+): number[][] {
+	if (mode === "continuous") {
+		const backward = integrate(matrix, seed, -1, dt, steps).reverse();
+		return [...backward, ...integrate(matrix, seed, 1, dt, steps).slice(1)];
+	}
+
+	const path = [seed];
+	let x = seed;
+	// A map jumps, a few dozen iterates are enough to see where it goes
+	for (let k = 0; k < 40 && !outOfBounds(x) && !atOrigin(x); k++) {
+		x = multiplyMatrixVector(matrix, x);
+		path.push(x);
+	}
+	return path;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { findEigenvalues } from "./eigenStuffFinder";
+import { dominantEigenvalue, powerIteration } from "./powerIteration";
+
+const symmetric = [
+	[2, 1],
+	[1, 2],
+];
+
+describe("powerIteration", () => {
+	it("turns toward the dominant eigenvector", () => {
+		const iterates = powerIteration(symmetric, [1, 0], 20);
+		const last = iterates[iterates.length - 1];
+
+		expect(iterates).toHaveLength(21);
+		expect(last.rayleighQuotient).toBeCloseTo(3, 8);
+		expect(Math.abs(last.vector[0])).toBeCloseTo(Math.SQRT1_2, 6);
+		expect(Math.abs(last.vector[1])).toBeCloseTo(Math.SQRT1_2, 6);
+	});
+
+	it("keeps Aʲv as is without normalizing", () => {
+		const iterates = powerIteration(symmetric, [1, 0], 3, { normalize: false });
+		expect(iterates.map(({ vector }) => vector)).toEqual([
+			[1, 0],
+			[2, 1],
+			[5, 4],
+			[14, 13],
+		]);
+	});
+
+	it("stops once the iterate is 0", () => {
+		const iterates = powerIteration(
+			[
+				[0, 1],
+				[0, 0],
+			],
+			[0, 1],
+			5
+		);
+		expect(iterates).toHaveLength(3);
+		expect(iterates[2].rayleighQuotient).toBeNull();
+	});
+});
+
+describe("dominantEigenvalue", () => {
+	it("agrees with findEigenvalues", () => {
+		const { eigenvalues } = findEigenvalues(symmetric);
+		expect(dominantEigenvalue(eigenvalues)?.value.re).toBeCloseTo(3);
+	});
+
+	it("has none for ties in modulus", () => {
+		const opposite = findEigenvalues([
+			[2, 0],
+			[0, -2],
+		]);
+		const rotation = findEigenvalues([
+			[0, -1],
+			[1, 0],
+		]);
+		expect(dominantEigenvalue(opposite.eigenvalues)).toBeNull();
+		expect(dominantEigenvalue(rotation.eigenvalues)).toBeNull();
+	});
+});
@@ -0,0 +1,61 @@
+import { complexAbs, isRealValue } from "./complex";
+import type { Eigenvalue, Matrix, PowerIterationStep } from "./math";
+import { dotProduct, multiplyMatrixVector } from "./matrixOperations";
+
+/* ━━━━━━━━━━━━━━━━ Power Iteration ━━━━━━━━━━━━━━━━ */
+// v, Av, A²v, ... turns toward the eigenvector of the eigenvalue with the
+// largest |λ|, as long as there is exactly one such eigenvalue and v has a
+// component along its eigenvector
+
+/**
+ * The iterates v, Av, ..., Aᵏv with their Rayleigh quotients
+ * Stops early if an iterate becomes the zero vector
+ */
+export function powerIteration(
+	matrix: Matrix,
+	start: number[],
+	steps: number,
+	{ normalize = true }: { normalize?: boolean } = {}
+): PowerIterationStep[] {
+	const iterates: PowerIterationStep[] = [];
+	let vector = start;
+
+	for (let j = 0; j <= steps; j++) {
+		const length = Math.sqrt(dotProduct(vector, vector));
+		if (length < 1e-12) {
+			iterates.push({ vector, rayleighQuotient: null });
+			break;
+		}
+		if (normalize) vector = vector.map((x) => x / length);
+
+		const image = multiplyMatrixVector(matrix, vector);
+		iterates.push({
+			vector,
+			rayleighQuotient: dotProduct(vector, image) / dotProduct(vector, vector),
+		});
+		vector = image;
+	}
+
+	return iterates;
+}
+
+/**
+ * The eigenvalue power iteration converges to: the only one with the largest
+ * modulus, and real. null when there are ties (λ and −λ, complex pairs)
+ */
+export function dominantEigenvalue(
+	eigenvalues: Eigenvalue[],
+	tolerance: number = 1e-9
+): Eigenvalue | null {
+	const sorted = [...eigenvalues].sort(
+		(a, b) => complexAbs(b.value) - complexAbs(a.value)
+	);
+	const [first, second] = sorted;
+	if (!first || !isRealValue(first.value)) return null;
+
+	const largest = complexAbs(first.value);
+	if (second && largest - complexAbs(second.value) <= tolerance * Math.max(largest, 1)) {
+		return null;
+	}
+	return first;
+}
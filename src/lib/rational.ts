@@ -0,0 +1,317 @@
+import { type Fraction } from "mathjs";
+import { math, type MatrixWString, type RowReductionStep } from "./math";
+import {
+	formatReplaceOperation,
+	formatScaleOperation,
+	formatSwapOperation,
+} from "./matrixOperations";
+import { logger } from "./logger";
+
+/* ━━━━━━━━━━━━━━ Exact Rational Arithmetic ━━━━━━━━━━━━━━ */
+// Backed by mathjs fractions (fraction.js), used by the exact arithmetic mode
+
+export type RationalRoot = {
+	root: Fraction;
+	multiplicity: number;
+};
+
+const ZERO = math.fraction(0);
+const ONE = math.fraction(1);
+
+export function isZeroFraction(value: Fraction): boolean {
+	return value.n === 0n;
+}
+
+/**
+ * Parse a matrix entry such as "3", "-2.5" or "1/3" into an exact fraction
+ * Returns null when the entry is not a rational number
+ */
+export function parseRational(entry: string): Fraction | null {
+	const trimmed = entry.trim();
+	if (trimmed === "") return ZERO;
+
+	if (!/^[+-]?(\d+\.?\d*|\.\d+)(\s*\/\s*[+-]?(\d+\.?\d*|\.\d+))?$/.test(trimmed)) {
+		return null;
+	}
+
+	try {
+		const [numerator, denominator] = trimmed.split("/");
+		const value = math.fraction(numerator.trim());
+		return denominator === undefined
+			? value
+			: value.div(math.fraction(denominator.trim()));
+	} catch {
+		// Division by zero or malformed number
+		return null;
+	}
+}
+
+/**
+ * Numerical value of a matrix entry, NaN when it can't be read
+ * Empty cells count as 0
+ */
+export function parseMatrixEntry(entry: string): number {
+	const rational = parseRational(entry);
+	return rational === null ? NaN : rational.valueOf();
+}
+
+/**
+ * Build the exact version of the input matrix
+ * Raw cell strings are preferred so "1/3" doesn't go through a rounded double first
+ */
+export function toExactMatrix(
+	matrix: number[][],
+	entries?: string[][]
+): Fraction[][] {
+	return matrix.map((row, i) =>
+		row.map((value, j) => {
+			const entry = entries?.[i]?.[j];
+			const parsed = entry !== undefined ? parseRational(entry) : null;
+			return parsed ?? math.fraction(value);
+		})
+	);
+}
+
+/**
+ * Fractions as display cells, integers stay numbers and the rest become "p/q"
+ */
+export function toDisplayMatrix(matrix: Fraction[][]): MatrixWString {
+	return matrix.map((row) =>
+		row.map((value) => (value.d === 1n ? value.valueOf() : value.toFraction()))
+	);
+}
+
+/**
+ * Reduced Row Echelon Form over the rationals (no rounding, no epsilon)
+ * @param trace - when given, every elementary row operation is recorded in it
+ */
+export function rrefExact(
+	matrix: Fraction[][],
+	trace?: RowReductionStep[]
+): Fraction[][] {
+	const result = matrix.map((row) => row.map((value) => value.clone()));
+	const rows = result.length;
+	const cols = result[0].length;
+
+	let currentRow = 0;
+	for (let col = 0; col < cols && currentRow < rows; col++) {
+		let pivotRowIndex = -1;
+		for (let row = currentRow; row < rows; row++) {
+			if (!isZeroFraction(result[row][col])) {
+				pivotRowIndex = row;
+				break;
+			}
+		}
+
+		if (pivotRowIndex === -1) {
+			continue;
+		}
+
+		if (pivotRowIndex !== currentRow) {
+			const t = result[pivotRowIndex];
+			result[pivotRowIndex] = result[currentRow];
+			result[currentRow] = t;
+			trace?.push({
+				operation: formatSwapOperation(pivotRowIndex, currentRow),
+				matrix: toDisplayMatrix(result),
+			});
+		}
+
+		const pivotValue = result[currentRow][col];
+		if (!pivotValue.equals(ONE)) {
+			result[currentRow] = result[currentRow].map((value) =>
+				value.div(pivotValue)
+			);
+			trace?.push({
+				operation: formatScaleOperation(
+					currentRow,
+					ONE.div(pivotValue).toFraction()
+				),
+				matrix: toDisplayMatrix(result),
+			});
+		}
+
+		for (let row = 0; row < rows; row++) {
+			if (row === currentRow || isZeroFraction(result[row][col])) continue;
+			const factor = result[row][col];
+			result[row] = result[row].map((value, j) =>
+				value.sub(factor.mul(result[currentRow][j]))
+			);
+			trace?.push({
+				operation: formatReplaceOperation(currentRow, row, factor.toFraction()),
+				matrix: toDisplayMatrix(result),
+			});
+		}
+
+		currentRow++;
+	}
+
+	return result;
+}
+
+/**
+ * Exact null space basis, every component is a fraction
+ */
+export function findNullSpaceExact(
+	matrix: Fraction[][],
+	trace?: RowReductionStep[]
+): Fraction[][] {
+	const rrefMatrix = rrefExact(matrix, trace);
+	const cols = rrefMatrix[0].length;
+
+	// In exact arithmetic the leading entry of each non-zero row is exactly 1
+	const pivotCols: number[] = [];
+	rrefMatrix.forEach((row) => {
+		const pivotCol = row.findIndex((value) => !isZeroFraction(value));
+		if (pivotCol !== -1) pivotCols.push(pivotCol);
+	});
+
+	const freeVars: number[] = [];
+	for (let col = 0; col < cols; col++) {
+		if (!pivotCols.includes(col)) {
+			freeVars.push(col);
+		}
+	}
+
+	return freeVars.map((freeVar) => {
+		const basisVector = Array(cols)
+			.fill(null)
+			.map(() => ZERO);
+		basisVector[freeVar] = ONE;
+
+		pivotCols.forEach((pivotCol, row) => {
+			basisVector[pivotCol] = rrefMatrix[row][freeVar].neg();
+		});
+
+		return basisVector;
+	});
+}
+
+/**
+ * Evaluate a polynomial [an, ..., a0] at x using Horner's method
+ */
+function evaluateExact(coeffs: Fraction[], x: Fraction): Fraction {
+	return coeffs.reduce((acc, c) => acc.mul(x).add(c), ZERO);
+}
+
+/**
+ * Divide a polynomial [an, ..., a0] by (x - root), returns quotient and remainder
+ */
+function syntheticDivisionExact(coeffs: Fraction[], root: Fraction) {
+	const quotient: Fraction[] = [];
+	let current = ZERO;
+	for (let i = 0; i < coeffs.length - 1; i++) {
+		current = current.mul(root).add(coeffs[i]);
+		quotient.push(current);
+	}
+	const remainder = current.mul(root).add(coeffs[coeffs.length - 1]);
+	return { quotient, remainder };
+}
+
+/**
+ * Positive divisors of |n| (trial division, n is a small integer coefficient)
+ */
+function divisors(n: bigint): bigint[] {
+	const value = n < 0n ? -n : n;
+	const result: bigint[] = [];
+	for (let d = 1n; d * d <= value; d++) {
+		if (value % d === 0n) {
+			result.push(d);
+			if (d * d !== value) result.push(value / d);
+		}
+	}
+	return result;
+}
+
+/**
+ * Find all rational roots of a polynomial using the Rational Root Theorem
+ * Every rational root p/q of a polynomial with integer coefficients has
+ * p dividing the constant term and q dividing the leading coefficient
+ * @param coeffs - [an, an-1, ..., a0] as fractions
+ * @param warnings - when given, a skipped search is reported in it
+ */
+export function findRationalRoots(coeffs: Fraction[], warnings?: string[]): RationalRoot[] {
+	let current = [...coeffs];
+	while (current.length > 0 && isZeroFraction(current[0])) current.shift();
+	if (current.length < 2) return [];
+
+	const roots: RationalRoot[] = [];
+	const addRoot = (root: Fraction) => {
+		const existing = roots.find((r) => r.root.equals(root));
+		if (existing) existing.multiplicity++;
+		else roots.push({ root, multiplicity: 1 });
+	};
+
+	// x = 0 is a root as long as the constant term vanishes
+	while (current.length > 1 && isZeroFraction(current[current.length - 1])) {
+		addRoot(ZERO);
+		current = current.slice(0, -1);
+	}
+
+	// Clear denominators so the coefficients become integers
+	const lcm = current.reduce((acc, c) => acc.lcm(math.fraction(c.d)), ONE);
+	const integerCoeffs = current.map((c) => c.mul(lcm));
+	const constant = integerCoeffs[integerCoeffs.length - 1].n;
+	const leading = integerCoeffs[0].n;
+
+	// Guard against huge coefficients, trial division would take too long
+	if (constant > 10n ** 14n || leading > 10n ** 14n) {
+		logger.warn("Coefficients too large for the rational root search");
+		warnings?.push(
+			"The polynomial's coefficients are too large for the rational root search, the remaining eigenvalues are floating point"
+		);
+		return roots;
+	}
+
+	const candidates: Fraction[] = [];
+	for (const p of divisors(constant)) {
+		for (const q of divisors(leading)) {
+			const candidate = math.fraction(p).div(math.fraction(q));
+			if (!candidates.some((c) => c.equals(candidate))) {
+				candidates.push(candidate, candidate.neg());
+			}
+		}
+	}
+
+	for (const candidate of candidates) {
+		if (current.length < 2) break;
+		if (!isZeroFraction(evaluateExact(current, candidate))) continue;
+
+		// Divide out the root as many times as it goes to get the multiplicity
+		while (current.length > 1) {
+			const { quotient, remainder } = syntheticDivisionExact(
+				current,
+				candidate
+			);
+			if (!isZeroFraction(remainder)) break;
+			addRoot(candidate);
+			current = quotient;
+		}
+	}
+
+	return roots.sort((a, b) => a.root.compare(b.root));
+}
+
+/**
+ * Exact coefficients [1, c_{n-1}, ..., c_0] of det(xI - A) (Faddeev-LeVerrier)
+ * Only divides by integers so it stays exact over the rationals
+ */
+export function characteristicPolynomialExact(A: Fraction[][]): Fraction[] {
+	const n = A.length;
+	const coefficients = [ONE];
+
+	let M = A.map((row, i) => row.map((_, j) => (i === j ? ONE : ZERO)));
+	for (let k = 1; k <= n; k++) {
+		const AM = A.map((row) =>
+			M[0].map((_, j) =>
+				row.reduce((sum, value, l) => sum.add(value.mul(M[l][j])), ZERO)
+			)
+		);
+		const trace = AM.reduce((sum, row, i) => sum.add(row[i]), ZERO);
+		const c = trace.neg().div(k);
+		coefficients.push(c);
+		M = AM.map((row, i) => row.map((value, j) => (i === j ? value.add(c) : value)));
+	}
+
+	return coefficients;
+}
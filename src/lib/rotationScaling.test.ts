@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { findEigenvalues } from "./eigenStuffFinder";
+import { dotProduct, multiplyMatrixVector } from "./matrixOperations";
+import { rotationScalingPlanes } from "./rotationScaling";
+
+describe("rotationScalingPlanes", () => {
+	it("finds the rotation of a rotation-scaling matrix", () => {
+		// 2·(rotation by 60°)
+		const A = [
+			[1, -Math.sqrt(3)],
+			[Math.sqrt(3), 1],
+		];
+		const [plane] = rotationScalingPlanes(findEigenvalues(A).eigenspaces);
+
+		expect(plane.modulus).toBeCloseTo(2);
+		expect(plane.angle).toBeCloseTo(Math.PI / 3);
+		expect(plane.block[0][0]).toBeCloseTo(1);
+		expect(plane.block[1][0]).toBeCloseTo(Math.sqrt(3));
+	});
+
+	it("has one plane per conjugate pair and none for real eigenvalues", () => {
+		const { eigenspaces } = findEigenvalues([
+			[1, -2, 0],
+			[3, 1, 0],
+			[0, 0, 2],
+		]);
+		expect(rotationScalingPlanes(eigenspaces)).toHaveLength(1);
+
+		const symmetric = findEigenvalues([
+			[2, 1],
+			[1, 2],
+		]);
+		expect(rotationScalingPlanes(symmetric.eigenspaces)).toEqual([]);
+	});
+
+	it("acts as [[a, −b], [b, a]] on the basis Re v, Im v", () => {
+		// Random 2×2 matrices with complex eigenvalues: (a−d)² + 4bc < 0
+		const complexPair = fc
+			.tuple(
+				fc.integer({ min: -5, max: 5 }),
+				fc.integer({ min: 1, max: 5 }),
+				fc.integer({ min: -5, max: -1 }),
+				fc.integer({ min: -5, max: 5 })
+			)
+			.filter(([a, b, c, d]) => (a - d) ** 2 + 4 * b * c < 0);
+
+		fc.assert(
+			fc.property(complexPair, ([a, b, c, d]) => {
+				const A = [
+					[a, b],
+					[c, d],
+				];
+				const [plane] = rotationScalingPlanes(findEigenvalues(A).eigenspaces);
+				const { realPart: p, imaginaryPart: q, a: re, b: im } = plane;
+
+				expect(Math.abs(dotProduct(p, q))).toBeLessThan(1e-9);
+				const Ap = multiplyMatrixVector(A, p);
+				const Aq = multiplyMatrixVector(A, q);
+				p.forEach((_, i) => {
+					expect(Ap[i]).toBeCloseTo(re * p[i] + im * q[i], 6);
+					expect(Aq[i]).toBeCloseTo(-im * p[i] + re * q[i], 6);
+				});
+			})
+		);
+	});
+});
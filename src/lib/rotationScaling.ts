@@ -0,0 +1,56 @@
+import { isRealValue } from "./complex";
+import type { Eigenspace, RotationScaling } from "./math";
+import { dotProduct } from "./matrixOperations";
+
+/* ━━━━━━━━━━━━━━━━ Rotation-Scaling ━━━━━━━━━━━━━━━━ */
+// A real matrix with eigenvalues a ± bi has no real eigenvector for them, but
+// the plane spanned by Re v and Im v is invariant: with v an eigenvector of
+// a − bi, A Re v = a Re v + b Im v and A Im v = −b Re v + a Im v. In that basis
+// A is the rotation by arg(a + bi) scaled by |a + bi|
+
+/**
+ * The invariant plane and real canonical block of every conjugate pair
+ */
+export function rotationScalingPlanes(eigenspaces: Eigenspace[]): RotationScaling[] {
+	const planes: RotationScaling[] = [];
+
+	for (const [index, { eigenvalue, complexBasis }] of eigenspaces.entries()) {
+		const { re: a, im } = eigenvalue.value;
+		if (isRealValue(eigenvalue.value) || !complexBasis?.length) continue;
+
+		// One plane per pair: take a − bi, or a + bi when its conjugate is missing
+		const hasConjugate = eigenspaces.some(
+			({ eigenvalue: other }) => other.value.re === a && other.value.im === -im
+		);
+		if (im > 0 && hasConjugate) continue;
+
+		// The conjugate of an eigenvector of a + bi is one of a − bi
+		const sign = im > 0 ? -1 : 1;
+		const p = complexBasis[0].map(({ re }) => re);
+		const q = complexBasis[0].map(({ im }) => sign * im);
+
+		// Multiplying v by e^{iφ} turns (p, q) within the plane, this φ makes them
+		// orthogonal so they are the axes of the orbits
+		const phi = Math.atan2(-2 * dotProduct(p, q), dotProduct(p, p) - dotProduct(q, q)) / 2;
+		const [c, s] = [Math.cos(phi), Math.sin(phi)];
+		const realPart = p.map((x, i) => c * x - s * q[i]);
+		const imaginaryPart = p.map((x, i) => s * x + c * q[i]);
+
+		const b = Math.abs(im);
+		planes.push({
+			index,
+			a,
+			b,
+			modulus: Math.hypot(a, b),
+			angle: Math.atan2(b, a),
+			realPart,
+			imaginaryPart,
+			block: [
+				[a, -b],
+				[b, a],
+			],
+		});
+	}
+
+	return planes;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { decodeShareState, encodeShareState, type ShareState } from "./shareState";
+
+const shareState: fc.Arbitrary<ShareState> = fc.integer({ min: 1, max: 4 }).chain((size) =>
+	fc.record({
+		size: fc.constant(size),
+		entries: fc.array(
+			fc.array(fc.string({ unit: "grapheme" }), { minLength: size, maxLength: size }),
+			{ minLength: size, maxLength: size }
+		),
+		exact: fc.boolean(),
+		parameters: fc.dictionary(
+			fc.stringMatching(/^[a-z]\w{0,5}$/),
+			fc.double({ noNaN: true, noDefaultInfinity: true }).map((value) => value || 0)
+		),
+	})
+);
+
+describe("shareState", () => {
+	it("writes a readable hash", () => {
+		expect(
+			encodeShareState({
+				size: 2,
+				entries: [
+					["1/3", "a"],
+					["cos(t)", "2"],
+				],
+				exact: true,
+				parameters: { a: 1.5 },
+			})
+		).toBe("#n=2&m=1/3,a;cos(t),2&exact=1&p=a:1.5");
+	});
+
+	it("reads back any state it writes", () => {
+		fc.assert(
+			fc.property(shareState, (state) => {
+				expect(decodeShareState(encodeShareState(state))).toEqual(state);
+			})
+		);
+	});
+
+	it("returns null for malformed hashes", () => {
+		for (const hash of [
+			"",
+			"#",
+			"#m=1,2;3,4",
+			"#n=2",
+			"#n=0&m=",
+			"#n=13&m=1",
+			"#n=2.5&m=1,2;3,4",
+			"#n=2x&m=1,2;3,4",
+			"#n=2&m=1,2;3",
+			"#n=2&m=1,2;3,4;5,6",
+			"#n=1&m=%E0%A4%A",
+			"#n=1&m=1&p=%ZZ:1",
+		]) {
+			expect(decodeShareState(hash), hash).toBeNull();
+		}
+	});
+
+	it("skips parameters that aren't finite numbers", () => {
+		expect(decodeShareState("#n=1&m=a&p=a:x,b:,c,d:Infinity,e:2")?.parameters).toEqual({
+			e: 2,
+		});
+	});
+
+	it("never throws on arbitrary input", () => {
+		fc.assert(
+			fc.property(fc.string(), (hash) => {
+				decodeShareState(hash);
+				decodeShareState(`#n=2&m=${hash}&p=${hash}`);
+			})
+		);
+	});
+});
@@ -0,0 +1,84 @@
+import { MAX_MATRIX_SIZE } from "./eigenStuffFinder";
+import { type ParameterValues } from "./symbolic";
+
+/* ━━━━━━━━━━━━━━━ Shareable URL State ━━━━━━━━━━━━━━━ */
+// The matrix on screen is kept in the URL hash so it can be sent as a link, e.g.
+// #n=2&m=1/3,a;cos(t),2&exact=1&p=a:1.5
+// Rows are separated by ";" and cells by ",", the cells themselves are URI encoded
+
+export type ShareState = {
+	size: number;
+	// Raw cell strings as typed, e.g. "1/3" or "cos(t)"
+	entries: string[][];
+	exact: boolean;
+	parameters: ParameterValues;
+};
+
+// "/" is allowed in a hash, leaving it readable keeps fractions like 1/3 as they are
+function encodeCell(cell: string): string {
+	return encodeURIComponent(cell).replace(/%2F/g, "/");
+}
+
+export function encodeShareState(state: ShareState): string {
+	const parts = [
+		`n=${state.size}`,
+		`m=${state.entries
+			.map((row) => row.map(encodeCell).join(","))
+			.join(";")}`,
+	];
+	if (state.exact) parts.push("exact=1");
+
+	const parameters = Object.entries(state.parameters);
+	if (parameters.length > 0) {
+		parts.push(
+			`p=${parameters
+				.map(([name, value]) => `${encodeURIComponent(name)}:${value}`)
+				.join(",")}`
+		);
+	}
+	return `#${parts.join("&")}`;
+}
+
+/**
+ * Read the state back from a hash, null when it's missing or malformed
+ */
+export function decodeShareState(hash: string): ShareState | null {
+	const fields = new Map(
+		hash
+			.replace(/^#/, "")
+			.split("&")
+			.filter((part) => part.includes("="))
+			.map((part) => {
+				const index = part.indexOf("=");
+				return [part.slice(0, index), part.slice(index + 1)] as const;
+			})
+	);
+
+	const sizeField = fields.get("n") ?? "";
+	const size = /^\d+$/.test(sizeField) ? Number(sizeField) : NaN;
+	const matrix = fields.get("m");
+	if (!(size >= 1 && size <= MAX_MATRIX_SIZE) || matrix === undefined) return null;
+
+	try {
+		const entries = matrix
+			.split(";")
+			.map((row) => row.split(",").map(decodeURIComponent));
+		if (entries.length !== size || entries.some((row) => row.length !== size)) {
+			return null;
+		}
+
+		const parameters: ParameterValues = {};
+		for (const pair of (fields.get("p") ?? "").split(",").filter(Boolean)) {
+			const [name, value] = pair.split(":");
+			const parsed = Number(value);
+			if (name && value && isFinite(parsed)) {
+				parameters[decodeURIComponent(name)] = parsed;
+			}
+		}
+
+		return { size, entries, exact: fields.get("exact") === "1", parameters };
+	} catch {
+		// Malformed URI escape in a cell
+		return null;
+	}
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { multiplyMatrices } from "./matrixOperations";
+import { singularValueDecomposition } from "./singularValues";
+
+const squareMatrix = fc.integer({ min: 1, max: 4 }).chain((n) =>
+	fc.array(fc.array(fc.integer({ min: -5, max: 5 }), { minLength: n, maxLength: n }), {
+		minLength: n,
+		maxLength: n,
+	})
+);
+
+const transpose = (matrix: number[][]) => matrix[0].map((_, j) => matrix.map((row) => row[j]));
+
+const expectIdentity = (matrix: number[][]) =>
+	matrix.forEach((row, i) =>
+		row.forEach((x, j) => expect(Math.abs(x - (i === j ? 1 : 0))).toBeLessThan(1e-9))
+	);
+
+describe("singularValueDecomposition", () => {
+	it("finds the singular values of a diagonal matrix", () => {
+		const { singularValues } = singularValueDecomposition([
+			[-2, 0],
+			[0, 3],
+		]);
+		expect(singularValues[0]).toBeCloseTo(3);
+		expect(singularValues[1]).toBeCloseTo(2);
+	});
+
+	it("differs from the eigenvalues of a non-symmetric matrix", () => {
+		// Eigenvalues 1 and 1, singular values (√5 ± 1)/2
+		const { singularValues } = singularValueDecomposition([
+			[1, 1],
+			[0, 1],
+		]);
+		expect(singularValues[0]).toBeCloseTo((Math.sqrt(5) + 1) / 2);
+		expect(singularValues[1]).toBeCloseTo((Math.sqrt(5) - 1) / 2);
+	});
+
+	it("rebuilds A = UΣVᵀ with orthogonal U and V", () => {
+		fc.assert(
+			fc.property(squareMatrix, (A) => {
+				const { U, singularValues, V } = singularValueDecomposition(A);
+
+				singularValues.forEach((sigma, i) => {
+					expect(sigma).toBeGreaterThanOrEqual(0);
+					if (i > 0) expect(sigma).toBeLessThanOrEqual(singularValues[i - 1]);
+				});
+				expectIdentity(multiplyMatrices(transpose(U), U));
+				expectIdentity(multiplyMatrices(transpose(V), V));
+
+				const sigma = singularValues.map((s, i) =>
+					singularValues.map((_, j) => (i === j ? s : 0))
+				);
+				const rebuilt = multiplyMatrices(multiplyMatrices(U, sigma), transpose(V));
+				rebuilt.forEach((row, i) =>
+					row.forEach((x, j) => expect(Math.abs(x - A[i][j])).toBeLessThan(1e-8))
+				);
+			})
+		);
+	});
+});
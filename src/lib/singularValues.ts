@@ -0,0 +1,95 @@
+import type { Matrix, SingularValueDecomposition } from "./math";
+import { dotProduct } from "./matrixOperations";
+
+/* ━━━━━━━━━━━━━━━━ Singular Values ━━━━━━━━━━━━━━━━ */
+// A = UΣVᵀ by one-sided Jacobi: plane rotations (collected in V) make the
+// columns of AV orthogonal, their lengths are the singular values and their
+// directions the columns of U. Only meant for the small matrices we draw
+
+const MAX_SWEEPS = 60;
+
+const column = (matrix: Matrix, j: number) => matrix.map((row) => row[j]);
+
+/**
+ * Rotate columns p and q of the matrix in place
+ */
+function rotateColumns(matrix: Matrix, p: number, q: number, c: number, s: number) {
+	for (const row of matrix) {
+		const [a, b] = [row[p], row[q]];
+		row[p] = c * a - s * b;
+		row[q] = s * a + c * b;
+	}
+}
+
+/**
+ * Unit vectors orthogonal to the given ones (and to each other) until there
+ * are n of them, for the columns of U that belong to σ = 0
+ */
+function completeBasis(vectors: number[][], n: number): number[][] {
+	const basis = [...vectors];
+	for (let k = 0; k < n && basis.length < n; k++) {
+		let candidate: number[] = Array.from({ length: n }, (_, i) => (i === k ? 1 : 0));
+		for (const q of basis) {
+			const c = dotProduct(candidate, q);
+			candidate = candidate.map((x, i) => x - c * q[i]);
+		}
+		const length = Math.sqrt(dotProduct(candidate, candidate));
+		if (length > 1e-6) basis.push(candidate.map((x) => x / length));
+	}
+	return basis;
+}
+
+/**
+ * Singular value decomposition of a square matrix, singular values sorted
+ * from largest to smallest
+ */
+export function singularValueDecomposition(matrix: Matrix): SingularValueDecomposition {
+	const n = matrix.length;
+	const W = matrix.map((row) => [...row]);
+	const V = Array.from({ length: n }, (_, i) =>
+		Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+	);
+
+	for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+		let rotated = false;
+
+		for (let p = 0; p < n - 1; p++) {
+			for (let q = p + 1; q < n; q++) {
+				const alpha = dotProduct(column(W, p), column(W, p));
+				const beta = dotProduct(column(W, q), column(W, q));
+				const gamma = dotProduct(column(W, p), column(W, q));
+				if (Math.abs(gamma) <= Number.EPSILON * Math.sqrt(alpha * beta)) continue;
+
+				// Rotation angle that makes columns p and q orthogonal
+				const zeta = (beta - alpha) / (2 * gamma);
+				const t = (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+				const c = 1 / Math.sqrt(1 + t * t);
+				rotateColumns(W, p, q, c, c * t);
+				rotateColumns(V, p, q, c, c * t);
+				rotated = true;
+			}
+		}
+
+		if (!rotated) break;
+	}
+
+	const order = Array.from({ length: n }, (_, j) => j)
+		.map((j) => ({ j, sigma: Math.sqrt(dotProduct(column(W, j), column(W, j))) }))
+		.sort((a, b) => b.sigma - a.sigma);
+
+	// Columns of W with σ ≈ 0 have no direction, U is completed around them
+	const threshold = 1e-12 * Math.max(order[0]?.sigma ?? 0, 1);
+	const singularValues = order.map(({ sigma }) => (sigma > threshold ? sigma : 0));
+	const uColumns = completeBasis(
+		order
+			.filter(({ sigma }) => sigma > threshold)
+			.map(({ j, sigma }) => column(W, j).map((x) => x / sigma)),
+		n
+	);
+
+	return {
+		U: Array.from({ length: n }, (_, i) => uColumns.map((u) => u[i])),
+		singularValues,
+		V: V.map((row) => order.map(({ j }) => row[j])),
+	};
+}
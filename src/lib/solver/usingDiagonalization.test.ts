@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+	findEigenvaluesByDiagonalization,
+	hessenbergReduction,
+	qrAlgorithm,
+} from "./usingDiagonalization";
+import { calculateDeterminant, calculateTraceManual } from "../matrixOperations";
+import { compareComplex } from "../complex";
+
+const squareMatrix = fc.integer({ min: 2, max: 8 }).chain((n) =>
+	fc.array(fc.array(fc.integer({ min: -5, max: 5 }), { minLength: n, maxLength: n }), {
+		minLength: n,
+		maxLength: n,
+	})
+);
+
+describe("hessenbergReduction", () => {
+	it("zeroes everything below the first subdiagonal", () => {
+		fc.assert(
+			fc.property(squareMatrix, (matrix) => {
+				const H = hessenbergReduction(matrix);
+				H.forEach((row, i) =>
+					row.forEach((value, j) => {
+						if (i > j + 1) expect(Math.abs(value)).toBeLessThan(1e-9);
+					})
+				);
+			})
+		);
+	});
+});
+
+describe("qrAlgorithm", () => {
+	it("finds the eigenvalues of a symmetric matrix", () => {
+		const { eigenvalues, converged } = qrAlgorithm([
+			[2, 1, 0],
+			[1, 2, 1],
+			[0, 1, 2],
+		]);
+		expect(converged).toBe(true);
+		const values = eigenvalues.map(({ re }) => re).sort((a, b) => a - b);
+		[2 - Math.SQRT2, 2, 2 + Math.SQRT2].forEach((expected, i) =>
+			expect(values[i]).toBeCloseTo(expected, 10)
+		);
+	});
+
+	it("finds the complex pair of a rotation", () => {
+		const { eigenvalues } = qrAlgorithm([
+			[0, -1],
+			[1, 0],
+		]);
+		const sorted = [...eigenvalues].sort(compareComplex);
+		expect(sorted[0].re).toBeCloseTo(0, 12);
+		expect(sorted[0].im).toBeCloseTo(1, 12);
+		expect(sorted[1].im).toBeCloseTo(-1, 12);
+	});
+
+	it("handles a cyclic permutation (the unshifted QR algorithm stalls here)", () => {
+		const n = 6;
+		const matrix = Array.from({ length: n }, (_, i) =>
+			Array.from({ length: n }, (_, j) => (j === (i + 1) % n ? 1 : 0))
+		);
+		const { eigenvalues, converged } = qrAlgorithm(matrix);
+		expect(converged).toBe(true);
+		for (const { re, im } of eigenvalues) {
+			expect(Math.hypot(re, im)).toBeCloseTo(1, 8);
+		}
+	});
+
+	it("preserves the trace and the determinant", () => {
+		fc.assert(
+			fc.property(squareMatrix, (matrix) => {
+				const { eigenvalues } = qrAlgorithm(matrix);
+				expect(eigenvalues).toHaveLength(matrix.length);
+
+				const sum = eigenvalues.reduce((total, { re }) => total + re, 0);
+				const product = eigenvalues.reduce(
+					(total, z) => ({
+						re: total.re * z.re - total.im * z.im,
+						im: total.re * z.im + total.im * z.re,
+					}),
+					{ re: 1, im: 0 }
+				);
+				const determinant = calculateDeterminant(matrix);
+				expect(sum).toBeCloseTo(calculateTraceManual(matrix), 6);
+				expect(Math.abs(product.re - determinant)).toBeLessThan(
+					1e-6 * Math.max(1, Math.abs(determinant))
+				);
+			})
+		);
+	});
+});
+
+describe("findEigenvaluesByDiagonalization", () => {
+	const multiplicities = (matrix: number[][]) =>
+		findEigenvaluesByDiagonalization(matrix).eigenvalues.map(({ value, multiplicity }) => [
+			parseFloat(value.re.toPrecision(8)),
+			multiplicity,
+		]);
+
+	it("keeps close eigenvalues apart", () => {
+		expect(
+			multiplicities([
+				[1, 0, 0, 0],
+				[0, 1.00001, 0, 0],
+				[0, 0, 3, 0],
+				[0, 0, 0, 4],
+			])
+		).toEqual([
+			[1, 1],
+			[1.00001, 1],
+			[3, 1],
+			[4, 1],
+		]);
+		expect(
+			multiplicities([
+				[1, 1, 0, 0],
+				[0, 1.000001, 0, 0],
+				[0, 0, 3, 0],
+				[0, 0, 0, 4],
+			])
+		).toEqual([
+			[1, 1],
+			[1.000001, 1],
+			[3, 1],
+			[4, 1],
+		]);
+	});
+
+	it("merges the spread out eigenvalues of a Jordan block", () => {
+		// P J P⁻¹ with a single 3×3 block for λ = 2, QR returns 2 ± 1e-5 values
+		expect(
+			multiplicities([
+				[1, 1, 0],
+				[0, 2, 1],
+				[1, -1, 3],
+			])
+		).toEqual([[2, 3]]);
+		// 2×2 block for λ = 2 and λ = 3
+		expect(
+			multiplicities([
+				[0, 2, -1],
+				[-1, 3, 0],
+				[2, -2, 4],
+			])
+		).toEqual([
+			[2, 2],
+			[3, 1],
+		]);
+	});
+
+	it("doesn't pull a close eigenvalue into a Jordan block", () => {
+		expect(
+			multiplicities([
+				[1, 1, 0, 0],
+				[0, 1, 0, 0],
+				[0, 0, 1.0001, 0],
+				[0, 0, 0, 4],
+			])
+		).toEqual([
+			[1, 2],
+			[1.0001, 1],
+			[4, 1],
+		]);
+		expect(
+			multiplicities([
+				[2, 1, 0],
+				[0, 2, 0],
+				[0, 0, 2.00001],
+			])
+		).toEqual([
+			[2, 2],
+			[2.00001, 1],
+		]);
+	});
+
+	it("counts every eigenvalue once", () => {
+		fc.assert(
+			fc.property(squareMatrix, (matrix) => {
+				const { eigenvalues } = findEigenvaluesByDiagonalization(matrix);
+				const total = eigenvalues.reduce((sum, { multiplicity }) => sum + multiplicity, 0);
+				expect(total).toBe(matrix.length);
+			})
+		);
+	});
+});
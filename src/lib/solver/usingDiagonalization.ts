@@ -1,135 +1,363 @@
+import { type Complex, type Eigenvalue } from "../math";
+import { compareComplex, complex, complexAbs, subtractComplex } from "../complex";
 import { multiplyMatrices } from "../matrixOperations";
-import { dotProduct } from "../matrixOperations";
-import { type Eigenvalue } from "../math";
+import { singularValueDecomposition } from "../singularValues";
+import { logger } from "../logger";
+
+export type QRStatus = {
+	// Total number of Francis double shift steps over all deflations
+	iterations: number;
+	converged: boolean;
+};
+
+export type QRResult = QRStatus & {
+	eigenvalues: Complex[];
+};
+
+export type DiagonalizationResult = QRStatus & {
+	eigenvalues: Eigenvalue[];
+};
+
+// Spread allowed within a cluster in units of ε^(1/p)‖A‖ for a Jordan block of
+// size p, computed blocks up to size 3 stay within about 1.3 of it
+const CLUSTER_SPREAD = 4;
+// Singular values of (A - λI)^k under this many nε‖A - λI‖^k count as zero
+const NULL_SPACE_TOLERANCE = 1e3;
 
 /**
- * QR Algorithm for eigenvalue computation
+ * Reduce A to upper Hessenberg form H = QᵀAQ with Householder reflections
+ * H has the same eigenvalues as A but every QR step on it costs O(n²) instead of O(n³)
  */
-export function qrAlgorithm(
-	A: number[][],
-	maxIterations = 100,
-	tolerance = 1e-10
-): number[] {
+export function hessenbergReduction(A: number[][]): number[][] {
 	const n = A.length;
-	let Ak = A.map((row) => [...row]); // Copy matrix
+	const H = A.map((row) => [...row]);
 
-	for (let iter = 0; iter < maxIterations; iter++) {
-		// QR decomposition
-		const { Q, R } = qrDecomposition(Ak);
+	for (let k = 0; k < n - 2; k++) {
+		// Householder vector that zeroes H[k+2..n-1][k]
+		const x: number[] = [];
+		for (let i = k + 1; i < n; i++) x.push(H[i][k]);
 
-		// Update: A_{k+1} = R * Q
-		Ak = multiplyMatrices(R, Q);
+		const xNorm = Math.sqrt(x.reduce((sum, value) => sum + value * value, 0));
+		if (xNorm === 0) continue;
 
-		// Check convergence (off-diagonal elements should approach 0)
-		let converged = true;
-		for (let i = 0; i < n; i++) {
-			for (let j = 0; j < n; j++) {
-				if (i !== j && Math.abs(Ak[i][j]) > tolerance) {
-					converged = false;
-					break;
-				}
-			}
-			if (!converged) break;
+		const alpha = x[0] > 0 ? -xNorm : xNorm;
+		const v = [...x];
+		v[0] -= alpha;
+		const vNorm = Math.sqrt(v.reduce((sum, value) => sum + value * value, 0));
+		if (vNorm === 0) continue;
+		for (let i = 0; i < v.length; i++) v[i] /= vNorm;
+
+		// H = (I - 2vvᵀ) H
+		for (let j = k; j < n; j++) {
+			let s = 0;
+			for (let i = 0; i < v.length; i++) s += v[i] * H[k + 1 + i][j];
+			for (let i = 0; i < v.length; i++) H[k + 1 + i][j] -= 2 * v[i] * s;
 		}
 
-		if (converged) {
-			console.log(`QR Algorithm converged in ${iter + 1} iterations`);
-			break;
+		// H = H (I - 2vvᵀ)
+		for (let i = 0; i < n; i++) {
+			let s = 0;
+			for (let j = 0; j < v.length; j++) s += H[i][k + 1 + j] * v[j];
+			for (let j = 0; j < v.length; j++) H[i][k + 1 + j] -= 2 * s * v[j];
 		}
-	}
 
-	// Extract eigenvalues from diagonal
-	const eigenvalues: number[] = [];
-	for (let i = 0; i < n; i++) {
-		eigenvalues.push(Ak[i][i]);
+		// Entries below the subdiagonal are zero up to rounding
+		for (let i = k + 2; i < n; i++) H[i][k] = 0;
 	}
 
-	return eigenvalues.filter((val) => isFinite(val));
+	return H;
 }
 
 /**
- * QR Decomposition using Gram-Schmidt process
+ * QR Algorithm for eigenvalue computation
+ * Hessenberg reduction followed by Francis double shift QR steps with deflation
+ * (the classic EISPACK hqr scheme). Converged 1×1 blocks of the quasi-triangular
+ * Schur form are real eigenvalues, 2×2 blocks give real or complex conjugate pairs
+ * @param maxIterations - QR steps allowed per eigenvalue before giving up
  */
-function qrDecomposition(A: number[][]): { Q: number[][]; R: number[][] } {
-	const m = A.length;
-	const n = A[0].length;
-
-	const Q: number[][] = Array(m)
-		.fill(null)
-		.map(() => Array(n).fill(0));
-	const R: number[][] = Array(n)
-		.fill(null)
-		.map(() => Array(n).fill(0));
-
-	// Gram-Schmidt process
-	for (let j = 0; j < n; j++) {
-		// Get column j of A
-		const aj: number[] = [];
-		for (let i = 0; i < m; i++) {
-			aj[i] = A[i][j];
-		}
+export function qrAlgorithm(A: number[][], maxIterations = 30): QRResult {
+	const n = A.length;
+	const a = hessenbergReduction(A);
+	const eigenvalues: Complex[] = [];
 
-		// Start with aj
-		const qj = [...aj];
+	let anorm = 0;
+	for (let i = 0; i < n; i++) {
+		for (let j = Math.max(i - 1, 0); j < n; j++) anorm += Math.abs(a[i][j]);
+	}
 
-		// Subtract projections onto previous Q columns
-		for (let k = 0; k < j; k++) {
-			const qk: number[] = [];
-			for (let i = 0; i < m; i++) {
-				qk[i] = Q[i][k];
+	let nn = n - 1;
+	let t = 0; // Accumulated exceptional shifts
+	let iterations = 0;
+	let converged = true;
+	let p = 0,
+		q = 0,
+		r = 0,
+		s = 0,
+		w = 0,
+		x = 0,
+		y = 0,
+		z = 0;
+
+	while (nn >= 0 && converged) {
+		let its = 0;
+		let l: number;
+		do {
+			// Look for a single small subdiagonal element to split the matrix
+			for (l = nn; l >= 1; l--) {
+				s = Math.abs(a[l - 1][l - 1]) + Math.abs(a[l][l]);
+				if (s === 0) s = anorm;
+				if (Math.abs(a[l][l - 1]) + s === s) {
+					a[l][l - 1] = 0;
+					break;
+				}
 			}
 
-			const projection = dotProduct(aj, qk);
-			R[k][j] = projection;
+			x = a[nn][nn];
+			if (l === nn) {
+				// One root found
+				eigenvalues.push(complex(x + t));
+				nn--;
+			} else {
+				y = a[nn - 1][nn - 1];
+				w = a[nn][nn - 1] * a[nn - 1][nn];
+				if (l === nn - 1) {
+					// Two roots found from the trailing 2×2 block
+					p = 0.5 * (y - x);
+					q = p * p + w;
+					z = Math.sqrt(Math.abs(q));
+					x += t;
+					if (q >= 0) {
+						// Real pair
+						z = p + (p >= 0 ? Math.abs(z) : -Math.abs(z));
+						eigenvalues.push(complex(x + z), complex(z !== 0 ? x - w / z : x + z));
+					} else {
+						// Complex conjugate pair
+						eigenvalues.push(complex(x + p, z), complex(x + p, -z));
+					}
+					nn -= 2;
+				} else {
+					if (its === maxIterations) {
+						logger.warn(`QR Algorithm did not converge after ${iterations} iterations`);
+						converged = false;
+						break;
+					}
 
-			for (let i = 0; i < m; i++) {
-				qj[i] -= projection * qk[i];
-			}
-		}
+					// Exceptional shift to break cycles (Wilkinson)
+					if (its === 10 || its === 20) {
+						t += x;
+						for (let i = 0; i <= nn; i++) a[i][i] -= x;
+						s = Math.abs(a[nn][nn - 1]) + Math.abs(a[nn - 1][nn - 2]);
+						y = x = 0.75 * s;
+						w = -0.4375 * s * s;
+					}
+					its++;
+					iterations++;
+
+					// Look for two consecutive small subdiagonal elements
+					let m: number;
+					for (m = nn - 2; m >= l; m--) {
+						z = a[m][m];
+						r = x - z;
+						s = y - z;
+						p = (r * s - w) / a[m + 1][m] + a[m][m + 1];
+						q = a[m + 1][m + 1] - z - r - s;
+						r = a[m + 2][m + 1];
+						s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+						p /= s;
+						q /= s;
+						r /= s;
+						if (m === l) break;
+						const u = Math.abs(a[m][m - 1]) * (Math.abs(q) + Math.abs(r));
+						const v =
+							Math.abs(p) *
+							(Math.abs(a[m - 1][m - 1]) + Math.abs(z) + Math.abs(a[m + 1][m + 1]));
+						if (u + v === v) break;
+					}
+
+					for (let i = m + 2; i <= nn; i++) {
+						a[i][i - 2] = 0;
+						if (i !== m + 2) a[i][i - 3] = 0;
+					}
+
+					// Francis double shift QR step on rows l..nn and columns m..nn
+					for (let k = m; k <= nn - 1; k++) {
+						if (k !== m) {
+							p = a[k][k - 1];
+							q = a[k + 1][k - 1];
+							r = k !== nn - 1 ? a[k + 2][k - 1] : 0;
+							x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+							if (x !== 0) {
+								p /= x;
+								q /= x;
+								r /= x;
+							}
+						}
+
+						const norm = Math.sqrt(p * p + q * q + r * r);
+						s = p >= 0 ? norm : -norm;
+						if (s === 0) continue;
+
+						if (k === m) {
+							if (l !== m) a[k][k - 1] = -a[k][k - 1];
+						} else {
+							a[k][k - 1] = -s * x;
+						}
+						p += s;
+						x = p / s;
+						y = q / s;
+						z = r / s;
+						q /= p;
+						r /= p;
 
-		// Normalize qj
-		const norm = Math.sqrt(qj.reduce((sum, val) => sum + val * val, 0));
-		R[j][j] = norm;
+						// Row modification
+						for (let j = k; j <= nn; j++) {
+							p = a[k][j] + q * a[k + 1][j];
+							if (k !== nn - 1) {
+								p += r * a[k + 2][j];
+								a[k + 2][j] -= p * z;
+							}
+							a[k + 1][j] -= p * y;
+							a[k][j] -= p * x;
+						}
 
-		if (norm > 1e-15) {
-			for (let i = 0; i < m; i++) {
-				Q[i][j] = qj[i] / norm;
+						// Column modification
+						const mmin = nn < k + 3 ? nn : k + 3;
+						for (let i = l; i <= mmin; i++) {
+							p = x * a[i][k] + y * a[i][k + 1];
+							if (k !== nn - 1) {
+								p += z * a[i][k + 2];
+								a[i][k + 2] -= p * r;
+							}
+							a[i][k + 1] -= p * q;
+							a[i][k] -= p;
+						}
+					}
+				}
 			}
-		}
+		} while (converged && l < nn - 1);
+	}
+
+	// Whatever did not converge is approximated by the remaining diagonal
+	for (let i = nn; i >= 0; i--) {
+		eigenvalues.push(complex(a[i][i] + t));
 	}
 
-	return { Q, R };
+	if (converged) {
+		logger.debug(`QR Algorithm converged in ${iterations} iterations`);
+	}
+
+	return {
+		eigenvalues: eigenvalues.filter((val) => isFinite(val.re) && isFinite(val.im)),
+		iterations,
+		converged,
+	};
+}
+
+/**
+ * dim null((A - λI)^k) for k = 1..maxPower, the ranks come from the singular values
+ */
+function nullSpaceDimensions(matrix: number[][], lambda: number, maxPower: number): number[] {
+	const n = matrix.length;
+	const shifted = matrix.map((row, i) =>
+		row.map((value, j) => (i === j ? value - lambda : value))
+	);
+	const norm = Math.max(1, Math.hypot(...shifted.flat()));
+	const dimensions: number[] = [];
+	let power = shifted;
+	for (let k = 1; k <= maxPower; k++) {
+		if (k > 1) power = multiplyMatrices(power, shifted);
+		const tolerance = NULL_SPACE_TOLERANCE * n * Number.EPSILON * norm ** k;
+		const { singularValues } = singularValueDecomposition(power);
+		dimensions.push(singularValues.filter((sigma) => sigma < tolerance).length);
+	}
+	return dimensions;
 }
 
-function countOccurrences(arr: number[], val: number): number {
-	return arr.reduce(
-		(count, current) => (Math.abs(current - val) < 1e-10 ? count + 1 : count),
-		0
+/**
+ * Whether the values can be rounding copies of one eigenvalue of multiplicity m
+ * A Jordan block of size p spreads its eigenvalue out by about ε^(1/p)‖A‖, p is
+ * the first power where null((A - λI)^p) reaches dimension m. Complex values are
+ * only held to the spread of a single block (p = m)
+ */
+function isCluster(matrix: number[][], norm: number, members: Complex[]): boolean {
+	const m = members.length;
+	if (m === 1) return true;
+	const allowedSpread = (p: number) =>
+		CLUSTER_SPREAD * Number.EPSILON ** (1 / p) * Math.max(1, norm);
+	const spread = Math.max(
+		...members.flatMap((a) => members.map((b) => complexAbs(subtractComplex(a, b))))
 	);
+	if (spread > allowedSpread(m)) return false;
+
+	const center = meanOf(members);
+	if (Math.abs(center.im) > allowedSpread(m)) return true;
+	const depth = nullSpaceDimensions(matrix, center.re, m).findIndex((d) => d >= m) + 1;
+	return depth > 0 && spread <= allowedSpread(depth);
+}
+
+function meanOf(members: Complex[]): Complex {
+	return complex(
+		members.reduce((sum, z) => sum + z.re, 0) / members.length,
+		members.reduce((sum, z) => sum + z.im, 0) / members.length
+	);
+}
+
+/**
+ * Group eigenvalues that agree up to rounding, the group size is the multiplicity
+ * Values are only grouped when the Schur form can't tell them apart: closer than a
+ * Jordan block of A would spread them, see isCluster. The largest group around any
+ * value is taken first so the members of a spread out block stay together
+ */
+function clusterEigenvalues(values: Complex[], matrix: number[][]): Eigenvalue[] {
+	const norm = Math.hypot(...matrix.flat());
+	let remaining = [...values].sort(compareComplex);
+	const clusters: Complex[][] = [];
+
+	while (remaining.length > 0) {
+		let largest = [remaining[0]];
+		for (const seed of remaining) {
+			const nearest = [...remaining].sort(
+				(a, b) =>
+					complexAbs(subtractComplex(a, seed)) - complexAbs(subtractComplex(b, seed))
+			);
+			for (let size = largest.length + 1; size <= nearest.length; size++) {
+				const members = nearest.slice(0, size);
+				if (isCluster(matrix, norm, members)) largest = members;
+			}
+		}
+		clusters.push(largest);
+		remaining = remaining.filter((value) => !largest.includes(value));
+	}
+
+	// The mean of a cluster is far more accurate than its members
+	return clusters
+		.map((members) => ({ value: meanOf(members), multiplicity: members.length }))
+		.sort((a, b) => compareComplex(a.value, b.value));
 }
 
 /**
  * Find eigenvalues using diagonalization method
- * Uses QR algorithm or power iteration for numerical eigenvalue computation
+ * Uses the shifted QR algorithm on the Hessenberg form (real Schur decomposition)
  */
 export function findEigenvaluesByDiagonalization(
 	matrix: number[][]
-): Eigenvalue[] {
-	console.log("=== DIAGONALIZATION METHOD ===");
-	console.log("Input matrix:", matrix);
+): DiagonalizationResult {
+	logger.debug("=== DIAGONALIZATION METHOD ===");
+	logger.debug("Input matrix:", matrix);
 
 	try {
 		// QR Algorithm (most robust) out of others
-		const qrEigenvalues = qrAlgorithm(matrix);
-		if (qrEigenvalues.length > 0) {
-			console.log("QR Algorithm found eigenvalues:", qrEigenvalues);
-			return qrEigenvalues.map((value) => ({
-				value,
-				multiplicity: countOccurrences(qrEigenvalues, value),
-			}));
+		const { eigenvalues, iterations, converged } = qrAlgorithm(matrix);
+		if (eigenvalues.length > 0) {
+			logger.debug("QR Algorithm found eigenvalues:", eigenvalues);
+			return {
+				eigenvalues: clusterEigenvalues(eigenvalues, matrix),
+				iterations,
+				converged,
+			};
 		}
 	} catch (error) {
-		console.warn("QR Algorithm failed:", error);
+		logger.warn("QR Algorithm failed:", error);
 	}
-	return [];
+	return { eigenvalues: [], iterations: 0, converged: false };
 }
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { solveRealRoots, validateEigenvalues } from "./usingRealRoots";
+import { formatPolynomial } from "../expressionDeflater";
+import { complex } from "../complex";
+
+/**
+ * Companion matrix of a monic polynomial [1, c(n-1), ..., c0], its characteristic
+ * polynomial is the polynomial itself so the roots pass the eigenvalue check
+ */
+function companionMatrix(coefficients: number[]): number[][] {
+	const n = coefficients.length - 1;
+	return Array.from({ length: n }, (_, i) =>
+		Array.from({ length: n }, (_, j) => {
+			if (j === n - 1) return -coefficients[n - i];
+			return i === j + 1 ? 1 : 0;
+		})
+	);
+}
+
+function polynomialFromRoots(roots: number[]): number[] {
+	return roots.reduce<number[]>(
+		(coefficients, root) =>
+			[...coefficients, 0].map((c, i) => c - (i > 0 ? root * coefficients[i - 1] : 0)),
+		[1]
+	);
+}
+
+function solve(coefficients: number[]) {
+	return solveRealRoots(
+		companionMatrix(coefficients),
+		coefficients,
+		formatPolynomial(coefficients)
+	);
+}
+
+describe("solveRealRoots", () => {
+	it("solves a linear polynomial", () => {
+		const [root] = solve([1, -4]);
+		expect(root.value.re).toBeCloseTo(4, 10);
+	});
+
+	it("finds a double root of a quadratic", () => {
+		const roots = solve([1, -6, 9]);
+		expect(roots).toHaveLength(1);
+		expect(roots[0].value.re).toBeCloseTo(3, 10);
+		expect(roots[0].multiplicity).toBe(2);
+	});
+
+	it("returns a conjugate pair for a negative discriminant", () => {
+		const roots = solve([1, 0, 4]);
+		expect(roots).toHaveLength(2);
+		[2, -2].forEach((im, i) => {
+			expect(roots[i].value.re).toBeCloseTo(0, 12);
+			expect(roots[i].value.im).toBeCloseTo(im, 12);
+		});
+	});
+
+	it("solves cubics and quartics with integer roots", () => {
+		expect(solve(polynomialFromRoots([-2, 1, 5])).map(({ value }) => value.re)).toEqual([
+			-2, 1, 5,
+		]);
+		expect(
+			solve(polynomialFromRoots([-3, -1, 2, 4])).map(({ value }) => value.re)
+		).toEqual([-3, -1, 2, 4]);
+	});
+
+	it("recovers distinct integer roots", () => {
+		fc.assert(
+			fc.property(
+				fc.uniqueArray(fc.integer({ min: -6, max: 6 }), { minLength: 1, maxLength: 4 }),
+				(roots) => {
+					const found = solve(polynomialFromRoots(roots));
+					const sorted = [...roots].sort((a, b) => a - b);
+					expect(found.map(({ value }) => value.re)).toHaveLength(sorted.length);
+					found.forEach(({ value }, i) => expect(value.re).toBeCloseTo(sorted[i], 6));
+				}
+			),
+			// Quartics go through Newton-Raphson on the polynomial string, which is slow
+			{ numRuns: 30 }
+		);
+	}, 30_000);
+});
+
+describe("validateEigenvalues", () => {
+	const simple = (...values: number[]) =>
+		values.map((value) => ({ value: complex(value), multiplicity: 1 }));
+
+	it("snaps a value to the integer it rounds from", () => {
+		const [one, three] = validateEigenvalues(
+			[
+				[1, 0],
+				[0, 3],
+			],
+			simple(1.0000000001, 3)
+		);
+		expect(one.value.re).toBe(1);
+		expect(three.value.re).toBe(3);
+	});
+
+	it("never snaps a close eigenvalue onto its neighbour", () => {
+		for (const close of [1.00001, 1.0001]) {
+			const found = validateEigenvalues(
+				[
+					[1, 0, 0],
+					[0, close, 0],
+					[0, 0, 3],
+				],
+				simple(1, close, 3)
+			);
+			expect(found.map(({ value }) => value.re)).toEqual([1, close, 3]);
+		}
+	});
+
+	it("keeps simple roots closer than the tolerance", () => {
+		const found = validateEigenvalues(
+			[
+				[1, 1],
+				[0, 1.0000005],
+			],
+			simple(1, 1.0000005)
+		);
+		expect(found).toHaveLength(2);
+	});
+});
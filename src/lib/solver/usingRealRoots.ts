@@ -1,40 +1,86 @@
-import { math, type Eigenvalue } from "../math";
-import { calculateDeterminant } from "../matrixOperations";
+import { math, type Complex, type Eigenvalue, type EigenvalueCheck } from "../math";
+import {
+	calculateComplexDeterminant,
+	calculateDeterminant,
+} from "../matrixOperations";
+import {
+	addComplex,
+	compareComplex,
+	complex,
+	complexAbs,
+	divideComplex,
+	formatComplex,
+	isRealValue,
+	multiplyComplex,
+	subtractComplex,
+} from "../complex";
+import { logger } from "../logger";
 
 type PolynomialCoefficients = number[];
 
 /**
  * Helper function to validate eigenvalues manually
  * For each eigenvalue λ, verify that det(A - λI) ≈ 0
+ * @param tolerance - threshold relative to Hadamard's bound, also used to merge duplicates
+ * @param checks - when given, the determinant of every candidate is recorded in it
  */
 export function validateEigenvalues(
 	matrix: number[][],
-	eigenvalues: Eigenvalue[]
+	eigenvalues: Eigenvalue[],
+	tolerance: number = 1e-6,
+	checks?: EigenvalueCheck[]
 ): Eigenvalue[] {
-	const EPSILON = 1e-6;
+	const EPSILON = tolerance;
 	if (eigenvalues === undefined || eigenvalues.length === 0) {
-		console.warn("Eigenvalues are empty or undefined");
+		logger.warn("Eigenvalues are empty or undefined");
 		return [];
 	}
 
+	// det(A - λI) grows with the size and magnitude of the entries, so the
+	// threshold is relative to Hadamard's bound (product of the row norms)
+	const threshold = (lambda: Complex) =>
+		EPSILON * Math.max(1, hadamardBound(matrix, lambda));
+	const residual = (lambda: Complex) =>
+		complexAbs(calculateCharacteristicValue(matrix, lambda));
+	const isEigenvalue = (lambda: Complex) => residual(lambda) < threshold(lambda);
+
 	// 1. Snap values to nearby integers or zero
-	const snapped = eigenvalues.map((ev) => {
-		const rounded = Math.round(ev.value);
+	// Real and imaginary parts are snapped separately so a ± bi pairs survive
+	const snapComponent = (value: number) => {
+		const rounded = Math.round(value);
 		// If it's effectively an integer, return the integer
-		if (Math.abs(ev.value - rounded) < 1e-2)
-			return { value: rounded, multiplicity: ev.multiplicity };
+		if (Math.abs(value - rounded) < 1e-2) return rounded;
 		// If it's effectively zero (but round might not catch it if it's 0.000001)
-		if (Math.abs(ev.value) < EPSILON)
-			return { value: 0, multiplicity: ev.multiplicity };
-		return ev;
+		if (Math.abs(value) < EPSILON) return 0;
+		return value;
+	};
+	const snapped = eigenvalues.map((ev, index) => {
+		const value = complex(snapComponent(ev.value.re), snapComponent(ev.value.im));
+		const distance = complexAbs(subtractComplex(value, ev.value));
+		// Keep the snapped value only if it is a better root than the original
+		// (e.g. 0.995 of a Markov matrix must not turn into 1) and no other
+		// eigenvalue is closer to it (1.00001 next to 1 must not turn into 1)
+		const claimed = eigenvalues.some(
+			(other, j) => j !== index && complexAbs(subtractComplex(value, other.value)) < distance
+		);
+		const better =
+			distance > 0 && isEigenvalue(value) && residual(value) < residual(ev.value);
+		return {
+			value: better && !claimed ? value : ev.value,
+			multiplicity: ev.multiplicity,
+		};
 	});
 
 	// 2. Remove duplicates using the same threshold
 	// We use reduce to build an array of unique values
+	// Two simple roots are two eigenvalues however close they are, only a
+	// repeated root found more than once is dropped
 	const dedupped = snapped.reduce<Eigenvalue[]>((acc, current) => {
-		const isDuplicate = acc.some(
-			(uniqueVal) => Math.abs(uniqueVal.value - current.value) < EPSILON
-		);
+		const isDuplicate = acc.some((uniqueVal) => {
+			const distance = complexAbs(subtractComplex(uniqueVal.value, current.value));
+			const repeated = uniqueVal.multiplicity > 1 || current.multiplicity > 1;
+			return distance === 0 || (repeated && distance < EPSILON);
+		});
 
 		if (!isDuplicate) {
 			acc.push(current);
@@ -45,21 +91,58 @@ export function validateEigenvalues(
 	// 3. Validate each eigenvalue by checking det(A - λI) ≈ 0
 	return dedupped.filter((ev) => {
 		const detValue = calculateCharacteristicValue(matrix, ev.value);
-		const p = Math.abs(detValue) < EPSILON;
-		console.log(
-			`Eigenvalue ${ev} validation: det(A - ${ev}I) ≈ 0 is ${p}, because det = ${detValue}`
+		const p = isEigenvalue(ev.value);
+		const label = formatComplex(ev.value);
+		logger.debug(
+			`Eigenvalue ${label} validation: det(A - ${label}I) ≈ 0 is ${p}, because det = ${formatComplex(
+				detValue,
+				12
+			)}`
 		);
+		checks?.push({
+			eigenvalue: ev.value,
+			determinant: detValue,
+			threshold: threshold(ev.value),
+			accepted: p,
+		});
 		return p;
 	});
 }
 
+/**
+ * Hadamard's bound |det(A - λI)| <= ∏ ||row_i||, used to scale the validation threshold
+ */
+function hadamardBound(matrix: number[][], lambda: Complex): number {
+	return matrix.reduce((product, row, i) => {
+		const rowNorm = Math.sqrt(
+			row.reduce((sum, value, j) => {
+				const re = i === j ? value - lambda.re : value;
+				const im = i === j ? -lambda.im : 0;
+				return sum + re * re + im * im;
+			}, 0)
+		);
+		return product * rowNorm;
+	}, 1);
+}
+
 /**
  * Calculate det(A - λI) for a specific λ value
+ * Complex λ goes through the complex Gaussian elimination instead
  */
 function calculateCharacteristicValue(
 	matrix: number[][],
-	lambda: number
-): number {
+	lambda: Complex
+): Complex {
+	if (!isRealValue(lambda)) {
+		return calculateComplexDeterminant(
+			matrix.map((row, i) =>
+				row.map((value, j) =>
+					i === j ? complex(value - lambda.re, -lambda.im) : complex(value)
+				)
+			)
+		);
+	}
+
 	const n = matrix.length;
 	const AMinusLambdaI: number[][] = [];
 
@@ -68,19 +151,19 @@ function calculateCharacteristicValue(
 		AMinusLambdaI[i] = [];
 		for (let j = 0; j < n; j++) {
 			if (i === j) {
-				AMinusLambdaI[i][j] = matrix[i][j] - lambda;
+				AMinusLambdaI[i][j] = matrix[i][j] - lambda.re;
 			} else {
 				AMinusLambdaI[i][j] = matrix[i][j];
 			}
 		}
 	}
 
-	return calculateDeterminant(AMinusLambdaI);
+	return complex(calculateDeterminant(AMinusLambdaI));
 }
 
 // coefficiets are arranged [an, an-1, ..., a0]
 function rootsToEigenvalues(
-	roots: number[],
+	roots: Complex[],
 	coefficients: number[]
 ): Eigenvalue[] {
 	const withMultiplicity = roots.map((r) => ({
@@ -88,15 +171,16 @@ function rootsToEigenvalues(
 		multiplicity: getMultiplicity(coefficients, r),
 	}));
 
-	console.log("Eigenvalues with multiplicity:", withMultiplicity);
+	logger.debug("Eigenvalues with multiplicity:", withMultiplicity);
 	return withMultiplicity;
 }
 
 /**
- * Solves for real roots of a polynomial given its coefficients.
- * Uses Newton-Raphson method with Synthetic Division deflation.
+ * Solves for the roots of a polynomial given its coefficients.
+ * Uses Newton-Raphson method with Synthetic Division deflation for the real roots,
+ * whatever is left after deflation only has complex conjugate pairs.
  * @param inputCoeffs - [an, an-1, ..., a0] for an*x^n + ... + a0
- * @returns Array of real roots
+ * @returns Array of roots (real and complex)
  */
 export function solveRealRoots(
 	matrix: number[][],
@@ -117,7 +201,7 @@ export function solveRealRoots(
 	if (coeffs.length === 2) {
 		// Linear: ax + b = 0 → x = -b/a
 		const root = coeffs[1] === 0 ? 0 : -coeffs[1] / coeffs[0];
-		return isFinite(root) ? [{ value: root, multiplicity: 1 }] : [];
+		return isFinite(root) ? [{ value: complex(root), multiplicity: 1 }] : [];
 	}
 
 	if (coeffs.length === 3) {
@@ -135,11 +219,19 @@ export function solveRealRoots(
 			if (isFinite(root2) && Math.abs(root1 - root2) > 1e-14) {
 				roots.push(root2);
 			}
-			return roots
-				.sort((a, b) => a - b)
-				.map((r) => ({ value: r, multiplicity: getMultiplicity(coeffs, r) }));
+			return roots.sort((a, b) => a - b).map((r) => ({
+				value: complex(r),
+				multiplicity: getMultiplicity(coeffs, complex(r)),
+			}));
 		}
-		return []; // Complex roots only
+
+		// Complex conjugate pair: (-b ± i√|Δ|) / 2a
+		const re = -b / (2 * a);
+		const im = Math.sqrt(-discriminant) / (2 * Math.abs(a));
+		return [complex(re, im), complex(re, -im)].map((r) => ({
+			value: r,
+			multiplicity: 1,
+		}));
 	}
 
 	if (coeffs.length === 4) {
@@ -149,10 +241,15 @@ export function solveRealRoots(
 	}
 
 	// For higher degree polynomials, use optimized Newton-Raphson
-	const roots = optimizedNewtonRaphson(poly, coeffs);
+	// then pick up the complex pairs left in the deflated polynomial
+	const { roots, remainder } = optimizedNewtonRaphson(poly, coeffs);
+	const allRoots = [
+		...roots.map((r) => complex(r)),
+		...findComplexRoots(remainder),
+	].sort(compareComplex);
 	const eigenvalues: Eigenvalue[] = validateEigenvalues(
 		matrix,
-		rootsToEigenvalues(roots, coeffs)
+		rootsToEigenvalues(allRoots, coeffs)
 	);
 
 	return eigenvalues;
@@ -166,8 +263,12 @@ export function solveRealRoots(
  * 3. Deflation to avoid finding the same root multiple times
  * 4. Multiple convergence strategies
  * 5. Bounds-based initialization for better coverage
+ * Returns the real roots and the deflated polynomial that is left over
  */
-function optimizedNewtonRaphson(poly: string, coeffs: number[]): number[] {
+function optimizedNewtonRaphson(
+	poly: string,
+	coeffs: number[]
+): { roots: number[]; remainder: number[] } {
 	const degree = coeffs.length - 1;
 	const f = math.compile(poly);
 
@@ -197,7 +298,7 @@ function optimizedNewtonRaphson(poly: string, coeffs: number[]): number[] {
 				const verification = f.evaluate({ x: root });
 				if (Math.abs(verification) < 1e-10) {
 					roots.push(root);
-					console.log(
+					logger.debug(
 						`Found root ${
 							rootIndex + 1
 						}: ${root} (verification: ${verification})`
@@ -219,12 +320,59 @@ function optimizedNewtonRaphson(poly: string, coeffs: number[]): number[] {
 
 		// If no root found, stop searching
 		if (!foundRoot) {
-			console.log(`Could not find root ${rootIndex + 1}, stopping search`);
+			logger.debug(`Could not find root ${rootIndex + 1}, stopping search`);
 			break;
 		}
 	}
 
-	return roots.sort((a, b) => a - b);
+	return { roots: roots.sort((a, b) => a - b), remainder: deflatedCoeffs };
+}
+
+/**
+ * Find all (complex) roots of a polynomial using the Durand-Kerner method
+ * Used for the part of the polynomial that has no real roots left
+ */
+function findComplexRoots(coeffs: number[]): Complex[] {
+	const degree = coeffs.length - 1;
+	if (degree < 1) return [];
+
+	const monic = coeffs.map((c) => complex(c / coeffs[0]));
+	const evaluate = (z: Complex) =>
+		monic.reduce((acc, c) => addComplex(multiplyComplex(acc, z), c), complex(0));
+
+	// Standard starting points: powers of a number that is neither real nor a root of unity
+	const seed = complex(0.4, 0.9);
+	let roots: Complex[] = [complex(1)];
+	for (let i = 1; i < degree; i++) {
+		roots.push(multiplyComplex(roots[i - 1], seed));
+	}
+
+	for (let iter = 0; iter < 500; iter++) {
+		let maxChange = 0;
+		roots = roots.map((root, i) => {
+			let denominator = complex(1);
+			roots.forEach((other, j) => {
+				if (i !== j) {
+					denominator = multiplyComplex(denominator, subtractComplex(root, other));
+				}
+			});
+			const delta = divideComplex(evaluate(root), denominator);
+			maxChange = Math.max(maxChange, complexAbs(delta));
+			return subtractComplex(root, delta);
+		});
+
+		if (maxChange < 1e-14) {
+			logger.debug(`Durand-Kerner converged in ${iter + 1} iterations`);
+			break;
+		}
+	}
+
+	// Real coefficients: clean up imaginary noise so roots come out as exact conjugate pairs
+	return roots
+		.map((root) =>
+			Math.abs(root.im) < 1e-10 ? complex(root.re) : root
+		)
+		.sort(compareComplex);
 }
 
 /**
@@ -471,7 +619,7 @@ function deflatePolynomial(
 /**
  * Optimized cubic formula solver
  */
-function solveCubicOptimized(coeffs: number[]): number[] {
+function solveCubicOptimized(coeffs: number[]): Complex[] {
 	const [a, b, c, d] = coeffs;
 
 	// Convert to depressed cubic t³ + pt + q = 0 by substituting x = t - b/(3a)
@@ -480,10 +628,10 @@ function solveCubicOptimized(coeffs: number[]): number[] {
 
 	const discriminant = (q * q) / 4 + (p * p * p) / 27;
 
-	const roots: number[] = [];
+	const roots: Complex[] = [];
 
 	if (discriminant > 0) {
-		// One real root
+		// One real root and a complex conjugate pair
 		const sqrt_disc = Math.sqrt(discriminant);
 		const u =
 			Math.sign(-q / 2 + sqrt_disc) *
@@ -492,18 +640,26 @@ function solveCubicOptimized(coeffs: number[]): number[] {
 			Math.sign(-q / 2 - sqrt_disc) *
 			Math.pow(Math.abs(-q / 2 - sqrt_disc), 1 / 3);
 		const root = u + v - b / (3 * a);
-		if (isFinite(root)) roots.push(root);
+		if (isFinite(root)) roots.push(complex(root));
+
+		// The other two roots are -(u + v)/2 ± i(√3/2)(u - v)
+		const re = -(u + v) / 2 - b / (3 * a);
+		const im = (Math.sqrt(3) / 2) * Math.abs(u - v);
+		if (isFinite(re) && isFinite(im)) {
+			roots.push(complex(re, im), complex(re, -im));
+		}
 	} else if (discriminant === 0) {
 		// Multiple roots
 		if (Math.abs(q) < 1e-14) {
 			// Triple root
-			roots.push(-b / (3 * a));
+			roots.push(complex(-b / (3 * a)));
 		} else {
 			// One single root and one double root
 			const root1 = (3 * q) / p - b / (3 * a);
 			const root2 = (-3 * q) / (2 * p) - b / (3 * a);
-			if (isFinite(root1)) roots.push(root1);
-			if (isFinite(root2) && Math.abs(root1 - root2) > 1e-14) roots.push(root2);
+			if (isFinite(root1)) roots.push(complex(root1));
+			if (isFinite(root2) && Math.abs(root1 - root2) > 1e-14)
+				roots.push(complex(root2));
 		}
 	} else {
 		// Three distinct real roots
@@ -512,23 +668,23 @@ function solveCubicOptimized(coeffs: number[]): number[] {
 
 		for (let k = 0; k < 3; k++) {
 			const root = m * Math.cos(theta - (2 * Math.PI * k) / 3) - b / (3 * a);
-			if (isFinite(root)) roots.push(root);
+			if (isFinite(root)) roots.push(complex(root));
 		}
 	}
 
-	return roots.sort((a, b) => a - b);
+	return roots.sort(compareComplex);
 }
 
 /**
  * NEW: Helper to calculate algebraic multiplicity
  * Repeatedly divides the polynomial by (x - root) until remainder is non-zero
  */
-function getMultiplicity(originalCoeffs: number[], root: number): number {
+function getMultiplicity(originalCoeffs: number[], root: Complex): number {
 	let count = 0;
-	let currentCoeffs = [...originalCoeffs];
+	let currentCoeffs = originalCoeffs.map((c) => complex(c));
 
 	// Standardize: remove leading zeros
-	while (currentCoeffs.length > 0 && currentCoeffs[0] === 0)
+	while (currentCoeffs.length > 0 && complexAbs(currentCoeffs[0]) === 0)
 		currentCoeffs.shift();
 
 	while (true) {
@@ -536,7 +692,7 @@ function getMultiplicity(originalCoeffs: number[], root: number): number {
 
 		// Check if remainder is effectively zero (allowing for floating point drift)
 		// We use a slightly looser epsilon for higher-order deflations
-		if (Math.abs(remainder) < 1e-5) {
+		if (complexAbs(remainder) < 1e-5) {
 			count++;
 			currentCoeffs = quotient;
 			if (currentCoeffs.length < 2) break; // Constant or empty
@@ -550,25 +706,25 @@ function getMultiplicity(originalCoeffs: number[], root: number): number {
 
 /**
  * NEW: Performs standard synthetic division returning the remainder
- * Returns P(x) / (x - c)
+ * Returns P(x) / (x - c), c may be complex
  */
-function syntheticDivision(coeffs: number[], c: number) {
-	const quotient: number[] = [];
+function syntheticDivision(coeffs: Complex[], c: Complex) {
+	const quotient: Complex[] = [];
 
-	if (coeffs.length === 0) return { quotient: [], remainder: 0 };
+	if (coeffs.length === 0) return { quotient: [], remainder: complex(0) };
 
 	let current = coeffs[0];
 	quotient.push(current);
 
 	// Loop through to second-to-last coefficient
 	for (let i = 1; i < coeffs.length - 1; i++) {
-		current = coeffs[i] + current * c;
+		current = addComplex(coeffs[i], multiplyComplex(current, c));
 		quotient.push(current);
 	}
 
 	// Calculate final remainder
 	const lastCoeff = coeffs[coeffs.length - 1];
-	const remainder = lastCoeff + current * c;
+	const remainder = addComplex(lastCoeff, multiplyComplex(current, c));
 
 	return { quotient, remainder };
 }
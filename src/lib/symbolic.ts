@@ -0,0 +1,114 @@
+import { type MathNode } from "mathjs";
+import { math } from "./math";
+import { parseRational } from "./rational";
+import { SYMBOLIC_FUNCTIONS } from "./expressionDeflater";
+
+/* ━━━━━━━━━━━━━━ Symbolic Matrix Entries ━━━━━━━━━━━━━━ */
+// Entries such as "a", "2k" or "cos(t)" that depend on named parameters.
+// The parameters get sliders, the solver works on the substituted matrix
+
+export type ParameterValues = Record<string, number>;
+
+// Value a parameter has before its slider is moved
+export const DEFAULT_PARAMETER_VALUE = 1;
+
+// Named constants that are not parameters
+const CONSTANTS = ["pi", "e"];
+
+/**
+ * Parameters used by a single entry, [] for plain numbers
+ * Returns null when the entry can't be read (unknown function, uses x or i, ...)
+ */
+export function getEntryParameters(entry: string): string[] | null {
+	if (parseRational(entry) !== null) return [];
+
+	let node: MathNode;
+	try {
+		node = math.parse(entry);
+	} catch {
+		return null;
+	}
+
+	const parameters = new Set<string>();
+	let valid = true;
+	node.traverse((child, path, parent) => {
+		if (child.type === "SymbolNode") {
+			const name = (child as MathNode & { name: string }).name;
+			// Function names are symbols too
+			if (parent?.type === "FunctionNode" && path === "fn") {
+				if (!SYMBOLIC_FUNCTIONS.includes(name)) valid = false;
+				return;
+			}
+			if (CONSTANTS.includes(name)) return;
+			// x is the variable of the characteristic polynomial, i is imaginary
+			if (/x|λ/.test(name) || ["i", "lambda"].includes(name)) valid = false;
+			else parameters.add(name);
+		} else if (
+			![
+				"ConstantNode",
+				"OperatorNode",
+				"ParenthesisNode",
+				"FunctionNode",
+			].includes(child.type)
+		) {
+			valid = false;
+		}
+	});
+
+	return valid ? [...parameters].sort() : null;
+}
+
+export function isValidEntry(entry: string): boolean {
+	return getEntryParameters(entry) !== null;
+}
+
+/**
+ * All parameters used in the matrix, sorted by name
+ */
+export function findParameters(entries: string[][]): string[] {
+	const parameters = new Set(
+		entries.flat().flatMap((entry) => getEntryParameters(entry) ?? [])
+	);
+	return [...parameters].sort();
+}
+
+/**
+ * Entry with implicit multiplication written out ("2k" → "2 * k"),
+ * so the polynomial tokenizer reads it the same way mathjs does
+ */
+export function normalizeEntry(entry: string): string {
+	if (parseRational(entry) !== null) return entry.trim() || "0";
+	return math.parse(entry).toString({ implicit: "show" });
+}
+
+/**
+ * Numerical value of an entry for the given parameter values, NaN when it
+ * can't be read or is not a real number. Parameters without a value are 1
+ */
+export function evaluateEntry(entry: string, parameters: ParameterValues): number {
+	const rational = parseRational(entry);
+	if (rational !== null) return rational.valueOf();
+
+	const names = getEntryParameters(entry);
+	if (names === null) return NaN;
+
+	const scope = Object.fromEntries(
+		names.map((name) => [name, parameters[name] ?? DEFAULT_PARAMETER_VALUE])
+	);
+	try {
+		const value = math.evaluate(entry, scope);
+		return typeof value === "number" && isFinite(value) ? value : NaN;
+	} catch {
+		return NaN;
+	}
+}
+
+/**
+ * Numerical matrix for the given parameter values
+ */
+export function substituteParameters(
+	entries: string[][],
+	parameters: ParameterValues
+): number[][] {
+	return entries.map((row) => row.map((entry) => evaluateEntry(entry, parameters)));
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { findEigenvalues } from "./eigenStuffFinder";
+import { multiplyMatrixVector } from "./matrixOperations";
+import { SNAP_ANGLE, angleBetween, nearestEigenspace, projectOntoSpan } from "./vectorGeometry";
+
+const vector = (n: number) =>
+	fc.array(fc.double({ min: -10, max: 10, noNaN: true }), { minLength: n, maxLength: n });
+
+describe("angleBetween", () => {
+	it("measures in degrees", () => {
+		expect(angleBetween([1, 0], [0, 2])).toBeCloseTo(90);
+		expect(angleBetween([1, 1], [2, 2])).toBeCloseTo(0);
+		expect(angleBetween([1, 0, 0], [-3, 0, 0])).toBeCloseTo(180);
+	});
+
+	it("has no angle with the zero vector", () => {
+		expect(angleBetween([0, 0], [1, 2])).toBeNull();
+	});
+});
+
+describe("projectOntoSpan", () => {
+	it("leaves a residual orthogonal to the span", () => {
+		fc.assert(
+			fc.property(vector(3), vector(3), vector(3), (v, b1, b2) => {
+				const projection = projectOntoSpan(v, [b1, b2]);
+				const residual = v.map((x, i) => x - projection[i]);
+				for (const b of [b1, b2]) {
+					const dot = residual.reduce((sum, x, i) => sum + x * b[i], 0);
+					expect(Math.abs(dot)).toBeLessThan(1e-6 * (1 + Math.hypot(...b) * Math.hypot(...v)));
+				}
+			})
+		);
+	});
+});
+
+describe("nearestEigenspace", () => {
+	const { eigenspaces } = findEigenvalues([
+		[2, 1],
+		[1, 2],
+	]);
+
+	it("picks the eigenspace v is close to", () => {
+		const match = nearestEigenspace([1, 1.05], eigenspaces, SNAP_ANGLE);
+		expect(match).not.toBeNull();
+		expect(eigenspaces[match!.index].eigenvalue.value.re).toBeCloseTo(3);
+
+		// The snapped vector is an eigenvector: A p = 3p
+		const Ap = multiplyMatrixVector(
+			[
+				[2, 1],
+				[1, 2],
+			],
+			match!.projection
+		);
+		Ap.forEach((x, i) => expect(x).toBeCloseTo(3 * match!.projection[i]));
+	});
+
+	it("finds nothing away from the eigenspaces", () => {
+		expect(nearestEigenspace([1, 0], eigenspaces, SNAP_ANGLE)).toBeNull();
+	});
+
+	it("ignores non-real eigenspaces", () => {
+		const rotation = findEigenvalues([
+			[0, -1],
+			[1, 0],
+		]);
+		expect(nearestEigenspace([1, 0], rotation.eigenspaces, 90)).toBeNull();
+	});
+});
@@ -0,0 +1,81 @@
+import { isRealValue } from "./complex";
+import type { Eigenspace } from "./math";
+import { dotProduct } from "./matrixOperations";
+
+/* ━━━━━━━━━━━━━━━━ Vector Geometry ━━━━━━━━━━━━━━━━ */
+// Behind the test vector of the visualization: how far Av turns away from v,
+// and whether v lies on (or close to) an eigenspace
+
+// Dragging v within this many degrees of an eigenspace snaps it onto it
+export const SNAP_ANGLE = 4;
+
+const norm = (vector: number[]) => Math.sqrt(dotProduct(vector, vector));
+
+/**
+ * Angle between u and v in degrees, from 0 to 180
+ * null when one of them is the zero vector
+ */
+export function angleBetween(u: number[], v: number[]): number | null {
+	const lengths = norm(u) * norm(v);
+	if (lengths < 1e-12) return null;
+	// Rounding can push the cosine just past ±1
+	const cosine = Math.min(1, Math.max(-1, dotProduct(u, v) / lengths));
+	return (Math.acos(cosine) * 180) / Math.PI;
+}
+
+/**
+ * Orthogonal projection of v onto the span of the basis vectors
+ * (Gram–Schmidt, so the basis doesn't need to be orthogonal or independent)
+ */
+export function projectOntoSpan(vector: number[], basis: number[][]): number[] {
+	const orthonormal: number[][] = [];
+	for (const basisVector of basis) {
+		const rest = orthonormal.reduce((w, q) => {
+			const c = dotProduct(w, q);
+			return w.map((x, i) => x - c * q[i]);
+		}, basisVector);
+		const length = norm(rest);
+		if (length > 1e-10) orthonormal.push(rest.map((x) => x / length));
+	}
+
+	return orthonormal.reduce(
+		(projection, q) => {
+			const c = dotProduct(vector, q);
+			return projection.map((x, i) => x + c * q[i]);
+		},
+		vector.map(() => 0)
+	);
+}
+
+export type EigenspaceMatch = {
+	// Position of the eigenspace in the list it was picked from
+	index: number;
+	// v projected onto the eigenspace
+	projection: number[];
+	// Angle between v and its projection, in degrees
+	angle: number;
+};
+
+/**
+ * The real eigenspace closest to v, when v is within maxAngle degrees of it
+ */
+export function nearestEigenspace(
+	vector: number[],
+	eigenspaces: Eigenspace[],
+	maxAngle: number
+): EigenspaceMatch | null {
+	let best: EigenspaceMatch | null = null;
+
+	for (const [index, eigenspace] of eigenspaces.entries()) {
+		// Non-real eigenvalues have no real eigenvector for v to land on
+		if (eigenspace.basis.length === 0 || !isRealValue(eigenspace.eigenvalue.value)) continue;
+
+		const projection = projectOntoSpan(vector, eigenspace.basis);
+		const angle = angleBetween(vector, projection);
+		if (angle !== null && angle <= maxAngle && (best === null || angle < best.angle)) {
+			best = { index, projection, angle };
+		}
+	}
+
+	return best;
+}
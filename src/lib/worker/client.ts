@@ -0,0 +1,126 @@
+import {
+	findEigenvalues,
+	type EigenOptions,
+	type EigenResult,
+	type EigenStage,
+} from "../eigenStuffFinder";
+import { reviveError } from "../errors";
+import type { EigenWorkerRequest, EigenWorkerResponse } from "./protocol";
+
+/* ━━━━━━━━━━━━━━ Eigen Worker Client ━━━━━━━━━━━━━━ */
+// Only the latest job matters: starting a new one cancels the one in flight.
+// A synchronous computation can't be interrupted by a message, so cancelling
+// terminates the worker and the next job starts a fresh one
+
+// Results of recent matrices, oldest first
+const CACHE_SIZE = 32;
+const cache = new Map<string, EigenResult>();
+
+type PendingJob = {
+	id: number;
+	key: string;
+	resolve: (result: EigenResult | null) => void;
+	reject: (error: Error) => void;
+	onProgress?: (stage: EigenStage) => void;
+};
+
+let worker: Worker | null = null;
+let pending: PendingJob | null = null;
+let nextId = 0;
+
+function createWorker(): Worker | null {
+	// No workers outside the browser (e.g. Node), findEigenvalues runs inline there
+	if (typeof Worker === "undefined") return null;
+
+	const created = new Worker(new URL("./eigenWorker.ts", import.meta.url), {
+		type: "module",
+	});
+	created.onmessage = (event: MessageEvent<EigenWorkerResponse>) =>
+		handleResponse(event.data);
+	created.onerror = (event) => {
+		event.preventDefault();
+		const job = pending;
+		pending = null;
+		created.terminate();
+		if (worker === created) worker = null;
+		job?.reject(new Error(event.message || "The eigenvalue worker crashed"));
+	};
+	return created;
+}
+
+function handleResponse(response: EigenWorkerResponse) {
+	// Answers to cancelled jobs are dropped
+	const job = pending;
+	if (!job || job.id !== response.id) return;
+
+	switch (response.type) {
+		case "progress":
+			job.onProgress?.(response.stage);
+			break;
+		case "result":
+			pending = null;
+			remember(job.key, response.result);
+			job.resolve(response.result);
+			break;
+		case "error":
+			pending = null;
+			job.reject(reviveError(response.error));
+			break;
+	}
+}
+
+function remember(key: string, result: EigenResult) {
+	cache.delete(key);
+	cache.set(key, result);
+	if (cache.size > CACHE_SIZE) {
+		cache.delete(cache.keys().next().value as string);
+	}
+}
+
+/**
+ * Stop the job in flight, its promise resolves with null
+ */
+export function cancelEigenJob() {
+	if (!pending) return;
+	worker?.terminate();
+	worker = null;
+	pending.resolve(null);
+	pending = null;
+}
+
+/**
+ * Compute the eigenvalues in the worker
+ * Resolves with null when a newer job cancelled this one before it finished
+ */
+export function computeEigenResult(
+	matrix: number[][],
+	options: EigenOptions,
+	onProgress?: (stage: EigenStage) => void
+): Promise<EigenResult | null> {
+	cancelEigenJob();
+
+	const key = JSON.stringify([matrix, options]);
+	const cached = cache.get(key);
+	if (cached) {
+		remember(key, cached);
+		return Promise.resolve(cached);
+	}
+
+	worker ??= createWorker();
+	if (!worker) {
+		try {
+			const result = findEigenvalues(matrix, options, onProgress);
+			remember(key, result);
+			return Promise.resolve(result);
+		} catch (error) {
+			return Promise.reject(error);
+		}
+	}
+
+	const id = ++nextId;
+	const request: EigenWorkerRequest = { type: "compute", id, matrix, options };
+	return new Promise((resolve, reject) => {
+		pending = { id, key, resolve, reject, onProgress };
+		worker?.postMessage(request);
+	});
+}
@@ -0,0 +1,27 @@
+import { findEigenvalues } from "../eigenStuffFinder";
+import { serializeError } from "../errors";
+import { consoleLogger, setLogger } from "../logger";
+import type { EigenWorkerRequest, EigenWorkerResponse } from "./protocol";
+
+/* ━━━━━━━━━━━━━━━━ Eigen Worker ━━━━━━━━━━━━━━━━ */
+// Runs findEigenvalues off the main thread, one job at a time.
+// Jobs are cancelled by terminating the worker (see client.ts)
+
+// Same as the page, see main.tsx
+if (import.meta.env.DEV) setLogger(consoleLogger);
+
+function post(response: EigenWorkerResponse) {
+	self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<EigenWorkerRequest>) => {
+	const { id, matrix, options } = event.data;
+	try {
+		const result = findEigenvalues(matrix, options, (stage) =>
+			post({ type: "progress", id, stage })
+		);
+		post({ type: "result", id, result });
+	} catch (error) {
+		post({ type: "error", id, error: serializeError(error) });
+	}
+};
@@ -0,0 +1,26 @@
+import type {
+	EigenOptions,
+	EigenResult,
+	EigenStage,
+} from "../eigenStuffFinder";
+import type { SerializedError } from "../errors";
+
+/* ━━━━━━━━━━━━━━ Eigen Worker Messages ━━━━━━━━━━━━━━ */
+// Everything sent across has to survive structured cloning, EigenResult is
+// plain data (exact values are "p/q" strings, complex numbers are { re, im })
+
+// Main thread → worker
+export type EigenWorkerRequest = {
+	type: "compute";
+	// Echoed back in every response so stale answers can be told apart
+	id: number;
+	matrix: number[][];
+	options: EigenOptions;
+};
+
+// Worker → main thread
+export type EigenWorkerResponse =
+	| { type: "progress"; id: number; stage: EigenStage }
+	| { type: "result"; id: number; result: EigenResult }
+	// The error class is rebuilt from its code on the main thread
+	| { type: "error"; id: number; error: SerializedError };
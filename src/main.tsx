@@ -2,6 +2,10 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import { consoleLogger, setLogger } from "./lib/logger";
+
+// The solver's step by step logs are only useful while developing
+if (import.meta.env.DEV) setLogger(consoleLogger);
 
 createRoot(document.getElementById("root")!).render(
 	<StrictMode>
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -10,4 +11,7 @@ export default defineConfig({
       },
     }),
   ],
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
 })
@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite'
+import pkg from './package.json' with { type: 'json' }
+
+// Standalone build of src/lib (the public API in src/lib/index.ts) for other
+// projects, the type declarations come from tsconfig.lib.json
+export default defineConfig({
+  // The images in public/ belong to the web app
+  publicDir: false,
+  build: {
+    outDir: 'dist-lib',
+    lib: {
+      entry: 'src/lib/index.ts',
+      formats: ['es'],
+      fileName: 'eigen-stuff',
+    },
+    rollupOptions: {
+      // Consumers install mathjs themselves instead of getting a bundled copy
+      external: Object.keys(pkg.dependencies).flatMap((name) => [
+        name,
+        new RegExp(`^${name}/`),
+      ]),
+    },
+  },
+})